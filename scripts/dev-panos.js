@@ -0,0 +1,147 @@
+// Mock PAN-OS XML API for trying out the firewall push locally.
+// Keeps address objects and address groups per vsys or device group in memory and answers the
+// config get/set/edit/delete and commit calls the push makes. Requests need the API key in the
+// X-PAN-KEY header or the key parameter. GET /state dumps the current config as JSON.
+//
+//   PANOS_DEV_PORT=9443 PANOS_DEV_KEY=dev-key npm run panos:dev
+//   PANOS_CONFIG_PATH=config/panos.json npm run server   (device url http://localhost:9443)
+//
+// PANOS_DEV_FAIL=commit makes every commit fail, PANOS_DEV_FAIL=auth rejects every key.
+
+import http from 'http';
+
+const PORT = Number(process.env.PANOS_DEV_PORT) || 9443;
+const API_KEY = process.env.PANOS_DEV_KEY || 'dev-key';
+const FAIL = process.env.PANOS_DEV_FAIL || null;
+
+// Location xpath → { addresses: Map(name → ip-netmask), groups: Map(name → members) }
+const locations = new Map();
+let nextJob = 1;
+
+const baseOf = (xpath) => xpath.match(/^.*?\/(?:vsys|device-group)\/entry\[@name='[^']+'\]/)?.[0] ?? null;
+
+const locationOf = (base) => {
+  if (!locations.has(base)) {
+    locations.set(base, { addresses: new Map(), groups: new Map() });
+  }
+  return locations.get(base);
+};
+
+const respond = (res, status, body = '') => {
+  res.writeHead(200, { 'Content-Type': 'application/xml' });
+  res.end(`<response status="${status}"${status === 'error' ? ' code="400"' : ''}>${body}</response>`);
+};
+
+const fail = (res, message) => respond(res, 'error', `<msg><line>${message}</line></msg>`);
+
+const addressXml = (name, netmask) => `<entry name="${name}"><ip-netmask>${netmask}</ip-netmask></entry>`;
+
+const handleConfig = (res, { action, xpath, element }) => {
+  const base = baseOf(xpath || '');
+  if (!base) {
+    return fail(res, `Unsupported xpath ${xpath}`);
+  }
+
+  const location = locationOf(base);
+  const path = xpath.slice(base.length);
+  const group = path.match(/\/address-group\/entry\[@name='([^']+)'\]$/)?.[1];
+
+  if (action === 'get') {
+    if (path === '/address') {
+      const entries = Array.from(location.addresses, ([name, netmask]) => addressXml(name, netmask)).join('');
+      return respond(res, 'success', `<result total-count="${location.addresses.size}" count="${location.addresses.size}"><address>${entries}</address></result>`);
+    }
+    if (group) {
+      const members = location.groups.get(group);
+      return respond(res, 'success', members
+        ? `<result total-count="1" count="1"><entry name="${group}"><static>${members.map(member => `<member>${member}</member>`).join('')}</static></entry></result>`
+        : '<result total-count="0" count="0"/>');
+    }
+  }
+
+  if (action === 'set' && path === '/address') {
+    let count = 0;
+    for (const [, name, netmask] of (element || '').matchAll(/<entry name="([^"]+)"><ip-netmask>([^<]+)<\/ip-netmask>/g)) {
+      location.addresses.set(name, netmask);
+      count++;
+    }
+    console.log(`set ${count} address objects in ${xpath}`);
+    return respond(res, 'success', '<msg>command succeeded</msg>');
+  }
+
+  if (action === 'edit' && group) {
+    const members = Array.from((element || '').matchAll(/<member>([^<]+)<\/member>/g), ([, member]) => member);
+    const missing = members.filter(member => !location.addresses.has(member));
+    if (members.length === 0 || missing.length > 0) {
+      return fail(res, members.length === 0 ? 'static is invalid' : `${missing[0]} is not a valid reference`);
+    }
+    location.groups.set(group, members);
+    console.log(`edit address group ${group} with ${members.length} members`);
+    return respond(res, 'success', '<msg>command succeeded</msg>');
+  }
+
+  if (action === 'delete' && path.startsWith('/address/entry[')) {
+    const names = Array.from(path.matchAll(/@name='([^']+)'/g), ([, name]) => name);
+    const referenced = names.find(name => Array.from(location.groups.values()).some(members => members.includes(name)));
+    if (referenced) {
+      return fail(res, `${referenced} cannot be deleted because of references from address-group`);
+    }
+    names.forEach(name => location.addresses.delete(name));
+    console.log(`delete ${names.length} address objects`);
+    return respond(res, 'success', '<msg>command succeeded</msg>');
+  }
+
+  return fail(res, `Unsupported config ${action} on ${xpath}`);
+};
+
+const handleApi = (res, params, key) => {
+  if (FAIL === 'auth' || key !== API_KEY) {
+    res.writeHead(403, { 'Content-Type': 'application/xml' });
+    return res.end('<response status="error" code="403"><result><msg>Invalid Credential</msg></result></response>');
+  }
+
+  if (params.type === 'config') {
+    return handleConfig(res, params);
+  }
+
+  if (params.type === 'commit') {
+    if (FAIL === 'commit') {
+      return fail(res, 'Validation Error: commit failed');
+    }
+    const job = nextJob++;
+    console.log(`commit${params.action === 'all' ? '-all' : ''} job ${job}`);
+    return respond(res, 'success', `<result><msg><line>Commit job enqueued with jobid ${job}</line></msg><job>${job}</job></result>`);
+  }
+
+  return fail(res, `Unsupported request type ${params.type}`);
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (url.pathname === '/state') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    return res.end(JSON.stringify(Object.fromEntries(Array.from(locations, ([base, location]) => [base, {
+      addresses: Object.fromEntries(location.addresses),
+      groups: Object.fromEntries(location.groups)
+    }])), null, 2));
+  }
+
+  if (url.pathname !== '/api/' && url.pathname !== '/api') {
+    res.writeHead(404);
+    return res.end();
+  }
+
+  let body = '';
+  req.on('data', chunk => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    const params = Object.fromEntries(new URLSearchParams(req.method === 'POST' ? body : url.search));
+    handleApi(res, params, req.headers['x-pan-key'] || params.key);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock PAN-OS XML API listening on http://localhost:${PORT}/api/ (key "${API_KEY}")`);
+});
@@ -0,0 +1,74 @@
+// Minimal forward proxy for trying out the upstream proxy settings locally.
+// Handles plain HTTP requests and HTTPS tunnels (CONNECT) and logs each request.
+//
+//   PROXY_PORT=3128 PROXY_USERNAME=edl PROXY_PASSWORD=secret npm run proxy:dev
+//   HTTPS_PROXY=http://localhost:3128 UPSTREAM_PROXY_USERNAME=edl UPSTREAM_PROXY_PASSWORD=secret npm run server
+
+import http from 'http';
+import net from 'net';
+
+const PORT = Number(process.env.PROXY_PORT) || 3128;
+const USERNAME = process.env.PROXY_USERNAME;
+const PASSWORD = process.env.PROXY_PASSWORD || '';
+
+const isAuthorized = (req) => {
+  if (!USERNAME) {
+    return true;
+  }
+  const expected = `Basic ${Buffer.from(`${USERNAME}:${PASSWORD}`).toString('base64')}`;
+  return req.headers['proxy-authorization'] === expected;
+};
+
+const server = http.createServer((req, res) => {
+  if (!isAuthorized(req)) {
+    console.log(`407 ${req.method} ${req.url}`);
+    res.writeHead(407, { 'Proxy-Authenticate': 'Basic realm="dev-proxy"' });
+    return res.end();
+  }
+
+  const target = new URL(req.url);
+  const headers = { ...req.headers };
+  delete headers['proxy-authorization'];
+  delete headers['proxy-connection'];
+
+  const upstream = http.request(target, { method: req.method, headers }, upstreamRes => {
+    console.log(`${upstreamRes.statusCode} ${req.method} ${req.url}`);
+    res.writeHead(upstreamRes.statusCode, upstreamRes.headers);
+    upstreamRes.pipe(res);
+  });
+
+  upstream.on('error', error => {
+    console.log(`502 ${req.method} ${req.url}: ${error.message}`);
+    res.writeHead(502);
+    res.end();
+  });
+
+  req.pipe(upstream);
+});
+
+server.on('connect', (req, socket, head) => {
+  if (!isAuthorized(req)) {
+    console.log(`407 CONNECT ${req.url}`);
+    socket.end('HTTP/1.1 407 Proxy Authentication Required\r\nProxy-Authenticate: Basic realm="dev-proxy"\r\n\r\n');
+    return;
+  }
+
+  const [host, port] = req.url.split(':');
+  const upstream = net.connect(Number(port) || 443, host, () => {
+    console.log(`200 CONNECT ${req.url}`);
+    socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+    upstream.write(head);
+    upstream.pipe(socket);
+    socket.pipe(upstream);
+  });
+
+  upstream.on('error', error => {
+    console.log(`502 CONNECT ${req.url}: ${error.message}`);
+    socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+  });
+  socket.on('error', () => upstream.destroy());
+});
+
+server.listen(PORT, () => {
+  console.log(`Dev proxy listening on http://localhost:${PORT}${USERNAME ? ' (basic auth required)' : ''}`);
+});
@@ -0,0 +1,99 @@
+// Minimal SMTP sink for trying out the email digest locally.
+// Accepts every message without authentication or TLS, prints the envelope and headers and
+// saves each message as an .eml file when SMTP_DEV_DIR is set.
+//
+//   SMTP_DEV_PORT=2525 SMTP_DEV_DIR=/tmp/mail npm run smtp:dev
+//   SMTP_HOST=localhost SMTP_PORT=2525 npm run server
+
+import net from 'net';
+import { mkdirSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+
+const PORT = Number(process.env.SMTP_DEV_PORT) || 2525;
+const DIR = process.env.SMTP_DEV_DIR || null;
+
+let received = 0;
+
+if (DIR) {
+  mkdirSync(DIR, { recursive: true });
+}
+
+const saveMessage = (envelope, data) => {
+  received++;
+  const headers = data.split('\r\n\r\n')[0];
+  const subject = headers.match(/^Subject: (.*)$/m)?.[1] ?? '(no subject)';
+
+  console.log(`#${received} from ${envelope.from} to ${envelope.to.join(', ')}: ${subject} (${data.length} bytes)`);
+
+  if (DIR) {
+    const file = resolve(DIR, `${Date.now()}-${received}.eml`);
+    writeFileSync(file, data);
+    console.log(`   saved to ${file}`);
+  }
+};
+
+const server = net.createServer(socket => {
+  let buffer = '';
+  let envelope = { from: null, to: [] };
+  let data = null;
+
+  const reply = (line) => socket.write(`${line}\r\n`);
+
+  reply('220 dev-smtp ready');
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf-8');
+
+    let index;
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+
+      // Message body until a line with a single dot, dot-stuffing removed
+      if (data !== null) {
+        if (line === '.') {
+          saveMessage(envelope, data.join('\r\n'));
+          envelope = { from: null, to: [] };
+          data = null;
+          reply('250 OK: queued');
+        } else {
+          data.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      const command = line.slice(0, 4).toUpperCase();
+      if (command === 'EHLO') {
+        reply('250-dev-smtp');
+        reply('250 8BITMIME');
+      } else if (command === 'HELO') {
+        reply('250 dev-smtp');
+      } else if (command === 'MAIL') {
+        envelope.from = line.match(/<([^>]*)>/)?.[1] ?? '';
+        reply('250 OK');
+      } else if (command === 'RCPT') {
+        envelope.to.push(line.match(/<([^>]*)>/)?.[1] ?? '');
+        reply('250 OK');
+      } else if (command === 'DATA') {
+        data = [];
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (command === 'RSET') {
+        envelope = { from: null, to: [] };
+        reply('250 OK');
+      } else if (command === 'NOOP') {
+        reply('250 OK');
+      } else if (command === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+      } else {
+        reply('502 Command not implemented');
+      }
+    }
+  });
+
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(PORT, () => {
+  console.log(`Dev SMTP server listening on localhost:${PORT}${DIR ? `, saving messages to ${DIR}` : ''}`);
+});
@@ -1,8 +1,32 @@
 import express from 'express';
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { readFileSync, existsSync, mkdirSync, unlinkSync, renameSync, rmSync } from 'fs';
 import { resolve, dirname } from 'path';
+import { pipeline } from 'stream';
+import { createGunzip } from 'zlib';
 import { fileURLToPath } from 'url';
-import fetch from 'node-fetch';
+import { createScheduler } from './server/scheduler.js';
+import { canonicalizeIPv6Cidr, compareIPv6Cidrs } from './shared/ipv6.js';
+import { parseGeoColumns, parseGeoFilter, filterPrefixesByGeo, findUnknownCountries } from './server/geo.js';
+import { aggregateIPv4, aggregateIPv6 } from './server/cidr.js';
+import { validateIPv4Cidr, compareIPv4Cidrs } from './shared/ipv4.js';
+import { createHistoryStore } from './server/history.js';
+import { createSettingsStore, changedGroups } from './server/settings.js';
+import { evaluateUpdate } from './server/guard.js';
+import { writeFileAtomic, createMutex } from './server/storage.js';
+import { createAuth, REQUEST_HEADER } from './server/auth.js';
+import { loadSources, readSource, extractPrefixRows, describeLocation } from './server/sources.js';
+import { createOutboundAgent, fetchWithRetry } from './server/http.js';
+import { createFeedResponder } from './server/feeds.js';
+import { EXPORT_FORMATS, renderExport } from './server/exports.js';
+import { createConsumerTracker } from './server/consumers.js';
+import { createOverrideStore } from './server/overrides.js';
+import { loadFeeds, buildFeedPrefixes } from './server/pipelines.js';
+import { createPrefixIndex } from './server/lookup.js';
+import { ENRICH_FORMATS, createEnrichStream } from './server/enrich.js';
+import { loadWebhooks, createWebhookNotifier } from './server/webhooks.js';
+import { createDigestService } from './server/digest.js';
+import { loadPanosDevices, createPanosPusher } from './server/panos.js';
+import { createMetricsRegistry, METRICS_CONTENT_TYPE, FETCH_DURATION_BUCKETS } from './server/metrics.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -11,6 +35,61 @@ const __dirname = dirname(__filename);
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Scheduled refresh configuration. REFRESH_CRON takes precedence over the interval when set.
+// These and the retention, safety and upstream URL settings below are defaults that values
+// saved through the settings API (config/config.json) override.
+const REFRESH_ENABLED = process.env.REFRESH_ENABLED !== 'false';
+const REFRESH_INTERVAL_MINUTES = Number(process.env.REFRESH_INTERVAL_MINUTES) || 24 * 60;
+const REFRESH_CRON = process.env.REFRESH_CRON || null;
+const REFRESH_JITTER_SECONDS = Number(process.env.REFRESH_JITTER_SECONDS) || 0;
+
+// Changelog history retention, 0 keeps everything
+const HISTORY_MAX_ENTRIES = Number(process.env.HISTORY_MAX_ENTRIES) || 0;
+const HISTORY_MAX_AGE_DAYS = Number(process.env.HISTORY_MAX_AGE_DAYS) || 0;
+
+// Safety guard: updates beyond these limits are held for approval instead of published, 0 disables a check
+const SAFETY_MAX_REMOVED_PERCENT = Number(process.env.SAFETY_MAX_REMOVED_PERCENT ?? 20) || 0;
+const SAFETY_MAX_CHURN = Number(process.env.SAFETY_MAX_CHURN) || 0;
+
+// Upstream requests: per-attempt timeout, retries after the first attempt and the initial backoff delay
+const UPSTREAM_TIMEOUT_MS = Number(process.env.UPSTREAM_TIMEOUT_MS) || 10000;
+const UPSTREAM_RETRIES = Number(process.env.UPSTREAM_RETRIES ?? 2) || 0;
+const UPSTREAM_BACKOFF_MS = Number(process.env.UPSTREAM_BACKOFF_MS) || 1000;
+
+// Feed responses: gzip/brotli for clients that accept it and the Cache-Control max-age in seconds
+const FEED_COMPRESSION = process.env.FEED_COMPRESSION !== 'false';
+const FEED_MAX_AGE_SECONDS = Number(process.env.FEED_MAX_AGE_SECONDS) || 0;
+
+// /api/health reports "degraded" once the last successful update of a source is older than this,
+// by default twice the time between the scheduled refreshes around now (the interval, or in cron
+// mode the gap between the previous and the next run)
+const HEALTH_MAX_DATA_AGE_MINUTES = Number(process.env.HEALTH_MAX_DATA_AGE_MINUTES) || null;
+
+// Feed consumers: minimum silence before a consumer counts as stale and the size of the table
+const CONSUMER_STALE_MINUTES = Number(process.env.CONSUMER_STALE_MINUTES) || 60;
+const CONSUMER_MAX_ENTRIES = Number(process.env.CONSUMER_MAX_ENTRIES) || 1000;
+
+// Email digest: SMTP relay, sender and when the daily and weekly digests go out (cron, server local time)
+const SMTP_HOST = process.env.SMTP_HOST || null;
+const SMTP_SECURE = process.env.SMTP_SECURE === 'true';
+const SMTP_PORT = Number(process.env.SMTP_PORT) || (SMTP_SECURE ? 465 : 587);
+const DIGEST_FROM = process.env.DIGEST_FROM || 'Starlink EDL <starlink-edl@localhost>';
+const DIGEST_DAILY_CRON = process.env.DIGEST_DAILY_CRON || '0 7 * * *';
+const DIGEST_WEEKLY_CRON = process.env.DIGEST_WEEKLY_CRON || '0 7 * * 1';
+
+// Proxy and TLS settings for upstream requests; the proxy variables follow the usual conventions
+const outboundAgent = createOutboundAgent({
+  httpProxy: process.env.HTTP_PROXY || process.env.http_proxy,
+  httpsProxy: process.env.HTTPS_PROXY || process.env.https_proxy,
+  noProxy: process.env.NO_PROXY || process.env.no_proxy,
+  proxyUsername: process.env.UPSTREAM_PROXY_USERNAME,
+  proxyPassword: process.env.UPSTREAM_PROXY_PASSWORD,
+  caFile: process.env.UPSTREAM_CA_FILE,
+  certFile: process.env.UPSTREAM_CLIENT_CERT_FILE,
+  keyFile: process.env.UPSTREAM_CLIENT_KEY_FILE,
+  keyPassphrase: process.env.UPSTREAM_CLIENT_KEY_PASSPHRASE
+});
+
 // Setup directories and file paths
 const publicDir = resolve(__dirname, 'public');
 const dataDir = resolve(__dirname, 'data');
@@ -25,43 +104,325 @@ if (!existsSync(dataDir)) {
 }
 
 const ipFilePath = resolve(publicDir, 'ipv4.txt');
-const dataFilePath = resolve(dataDir, 'starlink-data.json');
+const ipv6FilePath = resolve(publicDir, 'ipv6.txt');
+
+// API tokens, basic auth users and roles
+const auth = createAuth({
+  configPath: process.env.AUTH_CONFIG_PATH || resolve(__dirname, 'config', 'auth.json')
+});
+const requireReader = auth.requireRole('reader');
+// Firewalls that cannot send headers pass the token as ?token= in the feed URL
+const requireFeedReader = auth.requireRole('reader', { allowQueryToken: true });
+const requireOperator = auth.requireRole('operator');
+// Client addresses and webhook targets need credentials even when reading is public
+const requireAuthenticatedReader = auth.requireRole('reader', { allowPublic: false });
+
+// Who polls the feeds, persisted to data/consumers.json
+const consumerTracker = createConsumerTracker({
+  filePath: resolve(dataDir, 'consumers.json'),
+  staleAfterMinutes: CONSUMER_STALE_MINUTES,
+  maxConsumers: CONSUMER_MAX_ENTRIES
+});
+
+// Manual include/exclude entries applied to the primary source, persisted to data/overrides.json
+const overrideStore = createOverrideStore({ filePath: resolve(dataDir, 'overrides.json') });
+
+// Prometheus metrics served on /metrics; gauges are read from the data files on every scrape
+const metrics = createMetricsRegistry();
+
+const fetchCounter = metrics.counter({
+  name: 'edl_fetch_total',
+  help: 'Upstream fetches by source and result (updated, not_modified, held, error).',
+  labelNames: ['source', 'result']
+});
+
+const fetchDuration = metrics.histogram({
+  name: 'edl_fetch_duration_seconds',
+  help: 'Duration of upstream fetches including retries.',
+  labelNames: ['source'],
+  buckets: FETCH_DURATION_BUCKETS
+});
+
+const feedRequestCounter = metrics.counter({
+  name: 'edl_feed_requests_total',
+  help: 'Feed requests by path and response status.',
+  labelNames: ['path', 'status']
+});
+
+// Upstream sources, see config/sources.example.json. The first one is the primary source.
+const sources = loadSources(process.env.SOURCES_CONFIG_PATH || resolve(__dirname, 'config', 'sources.json'));
+
+// The upstream URL setting replaces the URL or file of the primary source
+const withUpstreamUrl = (source, url) => url ? { ...source, url, path: null } : source;
+
+// Settings editable at runtime, see config/config.example.json. Changes apply without a restart.
+const settings = createSettingsStore({
+  filePath: process.env.SETTINGS_CONFIG_PATH || resolve(__dirname, 'config', 'config.json'),
+  defaults: {
+    refresh: {
+      enabled: REFRESH_ENABLED,
+      intervalMinutes: REFRESH_INTERVAL_MINUTES,
+      cron: REFRESH_CRON,
+      jitterSeconds: REFRESH_JITTER_SECONDS
+    },
+    history: { maxEntries: HISTORY_MAX_ENTRIES, maxAgeDays: HISTORY_MAX_AGE_DAYS },
+    upstream: { url: null },
+    safety: { maxRemovedPercent: SAFETY_MAX_REMOVED_PERCENT, maxChurn: SAFETY_MAX_CHURN }
+  },
+  onChange: (current, previous) => {
+    const changed = changedGroups(current, previous);
+
+    // Reconfiguring restarts the schedule from now, so other edits must not postpone the next run
+    if (changed.includes('refresh')) {
+      refreshScheduler.configure(current.refresh);
+    }
+    if (changed.includes('history')) {
+      sourceStates.forEach(state => state.historyStore.setRetention(current.history));
+      namedFeedStates.forEach(state => state.historyStore.setRetention(current.history));
+    }
+    
+    if (changed.includes('upstream')) {
+      primaryState.source = withUpstreamUrl(sources[0], current.upstream.url);
+      // The validators belong to the old location, the next refresh downloads in full
+      rmSync(primaryState.validatorsFilePath, { force: true });
+      console.log(`Primary source now read from ${describeLocation(primaryState.source)}`);
+    }
+  }
+});
+
+// Files and changelog of one source. The primary source keeps the locations used before
+// sources were configurable, the others live under data/sources/<id>/.
+const createSourceState = (source, primary) => {
+  const dir = primary ? dataDir : resolve(dataDir, 'sources', source.id);
+  const dataFilePath = primary ? resolve(dir, 'starlink-data.json') : resolve(dir, 'data.json');
+  
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  
+  return {
+    source,
+    primary,
+    dataFilePath,
+    // Copy of the last successfully written data file, used to recover from corruption
+    dataBackupPath: `${dataFilePath}.bak`,
+    pendingFilePath: resolve(dir, 'pending-update.json'),
+    // ETag and Last-Modified of the last processed upstream response
+    validatorsFilePath: resolve(dir, 'upstream-validators.json'),
+    // Outcome of the last fetch and time of the last successful one, in memory only
+    lastFetch: null,
+    lastSuccessfulFetch: null,
+    // Lookup index of the published lists, rebuilt on the first lookup after they change
+    lookupIndex: null,
+    // One file per recorded change under <dir>/history/
+    historyStore: createHistoryStore({
+      dir: resolve(dir, 'history'),
+      ...settings.get().history
+    })
+  };
+};
+
+// Change digests by email, built from the changelog of every source
+const digestService = createDigestService({
+  filePath: resolve(dataDir, 'digest.json'),
+  getSources: () => sourceStates,
+  smtp: {
+    host: SMTP_HOST,
+    port: SMTP_PORT,
+    secure: SMTP_SECURE,
+    username: process.env.SMTP_USERNAME,
+    password: process.env.SMTP_PASSWORD
+  },
+  sender: DIGEST_FROM
+});
+
+// Notifications about changes, failed fetches and held updates, see config/webhooks.example.json
+const webhookNotifier = createWebhookNotifier({
+  webhooks: loadWebhooks(process.env.WEBHOOKS_CONFIG_PATH || resolve(__dirname, 'config', 'webhooks.json')),
+  logFilePath: resolve(dataDir, 'webhook-deliveries.json'),
+  request: { timeoutMs: UPSTREAM_TIMEOUT_MS, backoffMs: UPSTREAM_BACKOFF_MS, agent: outboundAgent }
+});
+
+const sourceStates = sources.map((source, index) =>
+  index === 0 ? createSourceState(withUpstreamUrl(source, settings.get().upstream.url), true) : createSourceState(source, false)
+);
+const primaryState = sourceStates[0];
+const historyStore = primaryState.historyStore;
+
+const findSourceState = (id) => sourceStates.find(state => state.source.id === id) || null;
+
+// Named feeds, see config/feeds.example.json. Each keeps its list and changelog under data/feeds/<name>/.
+const namedFeedStates = loadFeeds(
+  process.env.FEEDS_CONFIG_PATH || resolve(__dirname, 'config', 'feeds.json'),
+  sources.map(source => source.id)
+).map(feed => {
+  const dir = resolve(dataDir, 'feeds', feed.name);
+  
+  return {
+    feed,
+    dataFilePath: resolve(dir, 'data.json'),
+    historyStore: createHistoryStore({
+      dir: resolve(dir, 'history'),
+      ...settings.get().history
+    })
+  };
+});
+
+const findNamedFeedState = (name) => namedFeedStates.find(state => state.feed.name === name) || null;
+
+// Address objects pushed to firewalls that cannot pull the feeds, see config/panos.example.json
+const panosPusher = createPanosPusher({
+  devices: loadPanosDevices(process.env.PANOS_CONFIG_PATH || resolve(__dirname, 'config', 'panos.json')),
+  getPrefixes: (device) => {
+    const states = device.sources.length > 0
+      ? sourceStates.filter(state => device.sources.includes(state.source.id))
+      : [primaryState];
+    const merged = { ipv4: new Set(), ipv6: new Set() };
+    
+    for (const state of states) {
+      const data = readData(state);
+      (data.ipAddresses || []).forEach(prefix => merged.ipv4.add(prefix));
+      (data.ipv6Addresses || []).forEach(prefix => merged.ipv6.add(prefix));
+    }
+    
+    return {
+      ipv4: Array.from(merged.ipv4).sort(compareIPv4Cidrs),
+      ipv6: Array.from(merged.ipv6).sort(compareIPv6Cidrs)
+    };
+  },
+  logFilePath: resolve(dataDir, 'panos-pushes.json'),
+  request: { timeoutMs: UPSTREAM_TIMEOUT_MS, backoffMs: UPSTREAM_BACKOFF_MS, agent: outboundAgent }
+});
+
+// Source overview for the API and UI
+const summarizeSource = (state) => {
+  const data = readData(state);
+  
+  return {
+    id: state.source.id,
+    name: state.source.name,
+    location: describeLocation(state.source),
+    format: state.source.format,
+    tag: state.source.tag,
+    primary: state.primary,
+    ipv4Count: (data.ipAddresses || []).length,
+    ipv6Count: (data.ipv6Addresses || []).length,
+    lastUpdated: data.lastUpdated,
+    changelogTotal: state.historyStore.count(),
+    pendingUpdate: existsSync(state.pendingFilePath)
+  };
+};
+
+// Serializes everything that reads and then rewrites the data file and feeds
+const dataLock = createMutex();
+
+const EMPTY_DATA = { ipAddresses: [], ipv6Addresses: [], geo: {}, lastUpdated: null };
 
 // Initialize data file with proper error handling
-const initializeDataFile = () => {
+const initializeDataFile = (state = primaryState) => {
   try {
-    if (!existsSync(dataFilePath)) {
+    if (!existsSync(state.dataFilePath)) {
       const initialData = {
         ipAddresses: [],
-        lastUpdated: null,
-        changelog: []
+        ipv6Addresses: [],
+        geo: {},
+        lastUpdated: null
       };
-      writeFileSync(dataFilePath, JSON.stringify(initialData, null, 2));
-      console.log('Initialized data file');
+      writeFileAtomic(state.dataFilePath, JSON.stringify(initialData, null, 2));
+      console.log(`Initialized data file for ${state.source.name}`);
     }
   } catch (error) {
     console.error('Error initializing data file:', error);
   }
 };
 
+// Move changelog entries kept inside the data file by older versions into the history store
+const migrateLegacyChangelog = () => {
+  const data = readData();
+  
+  if (!Array.isArray(data.changelog)) {
+    return;
+  }
+  
+  const imported = historyStore.importLegacy(data.changelog);
+  delete data.changelog;
+  
+  if (writeData(data)) {
+    console.log(`Migrated ${imported} changelog entr${imported === 1 ? 'y' : 'ies'} to the history store`);
+  }
+};
+
+// Parse a data file, throwing when it is unreadable or not in the expected shape
+const parseDataFile = (path) => {
+  const data = JSON.parse(readFileSync(path, 'utf-8'));
+  
+  if (!data || !Array.isArray(data.ipAddresses)) {
+    throw new Error('ipAddresses list is missing');
+  }
+  return data;
+};
+
+// Replace a corrupted data file with the last good copy, or rebuild it from the newest
+// changelog entry. The corrupted file is kept next to it for inspection.
+const recoverDataFile = (state = primaryState) => {
+  const corruptPath = `${state.dataFilePath}.corrupt-${Date.now()}`;
+  renameSync(state.dataFilePath, corruptPath);
+  console.error(`Moved corrupted data file to ${corruptPath}`);
+  
+  let recovered = null;
+  
+  try {
+    recovered = parseDataFile(state.dataBackupPath);
+    console.log('Restored data file from the last good copy');
+  } catch (error) {
+    console.error('No usable backup of the data file:', error.message);
+    
+    const latest = state.historyStore.findAt(Date.now());
+    if (latest) {
+      recovered = {
+        ipAddresses: latest.ipAddresses,
+        ipv6Addresses: latest.ipv6Addresses || [],
+        geo: {},
+        lastUpdated: latest.date
+      };
+      console.log(`Rebuilt data file from changelog entry ${latest.id}`);
+    }
+  }
+  
+  if (!recovered) {
+    console.error('Nothing to recover the data file from, starting with empty data');
+    recovered = { ...EMPTY_DATA };
+  }
+  
+  writeData(recovered, state);
+  return recovered;
+};
+
 // Read data from file with proper error handling
-const readData = () => {
+const readData = (state = primaryState) => {
   try {
-    if (!existsSync(dataFilePath)) {
-      initializeDataFile();
+    if (!existsSync(state.dataFilePath)) {
+      initializeDataFile(state);
     }
-    const data = readFileSync(dataFilePath, 'utf-8');
-    return JSON.parse(data);
+    return parseDataFile(state.dataFilePath);
   } catch (error) {
     console.error('Error reading data file:', error);
-    return { ipAddresses: [], lastUpdated: null, changelog: [] };
+  }
+  
+  try {
+    return recoverDataFile(state);
+  } catch (error) {
+    console.error('Error recovering data file:', error);
+    return { ...EMPTY_DATA };
   }
 };
 
 // Write data to file with proper error handling
-const writeData = (data) => {
+const writeData = (data, state = primaryState) => {
   try {
-    writeFileSync(dataFilePath, JSON.stringify(data, null, 2));
+    const json = JSON.stringify(data, null, 2);
+    writeFileAtomic(state.dataFilePath, json);
+    writeFileAtomic(state.dataBackupPath, json);
     return true;
   } catch (error) {
     console.error('Error writing data file:', error);
@@ -69,164 +430,1721 @@ const writeData = (data) => {
   }
 };
 
-// Simplified fetch function with better error handling
-const fetchStarlinkData = async () => {
-  const STARLINK_URL = 'https://geoip.starlinkisp.net/feed.csv';
+// Rewrite the text feeds when they do not match the data file, e.g. after a crash between writes
+const syncFeedFiles = () => {
+  const data = readData();
   
-  console.log('Attempting to fetch Starlink data...');
+  // Nothing has been published yet, keep whatever feed files ship with the checkout
+  if (!data.lastUpdated) {
+    return;
+  }
   
-  try {
-    const response = await fetch(STARLINK_URL, {
-      headers: {
-        'Accept': 'text/csv,text/plain,*/*',
-        'User-Agent': 'Mozilla/5.0 (compatible; StarlinkIPExtractor/1.0)'
-      },
-      timeout: 10000 // 10 second timeout
-    });
+  for (const [path, prefixes] of [[ipFilePath, data.ipAddresses], [ipv6FilePath, data.ipv6Addresses || []]]) {
+    const expected = prefixes.join('\n');
+    const current = existsSync(path) ? readFileSync(path, 'utf-8') : null;
     
-    if (response.ok) {
-      const csvText = await response.text();
-      console.log('Successfully fetched Starlink data');
-      return csvText;
-    } else {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    if (current !== expected && (current !== null || prefixes.length > 0)) {
+      writeFileAtomic(path, expected);
+      console.log(`Rewrote ${path} to match the data file`);
     }
-  } catch (error) {
-    console.error('Failed to fetch Starlink data:', error.message);
-    throw new Error(`Failed to fetch Starlink data: ${error.message}`);
   }
 };
 
-// Process CSV data to extract IPv4 addresses
-const processCSVData = (csvText) => {
-  const lines = csvText.split('\n');
+// Upper bound on rejected/normalized lines listed in a fetch result; the totals are always reported
+const MAX_REPORTED_LINES = 100;
+
+const IPV4_CANDIDATE_PATTERN = /^\d+\.\d+\.\d+\.\d+(\/.*)?$/;
+
+// Extract IPv4 and IPv6 prefixes from source content, with their geo attributes for
+// geofeed sources. Rows whose prefix fails validation are collected in `rejected` with the reason.
+const processSourceData = (content, format) => {
+  const rows = extractPrefixRows(content, format);
   const ipAddresses = new Set();
+  const ipv6Addresses = new Set();
+  const geo = {};
+  const rejected = [];
+  const normalized = [];
+  let rejectedCount = 0;
+  let normalizedCount = 0;
+  
+  const report = (list, entry) => {
+    if (list.length < MAX_REPORTED_LINES) {
+      list.push(entry);
+    }
+  };
   
-  for (const line of lines) {
-    if (line.trim()) {
-      const matches = line.match(/(\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}\/\d{1,2})/g);
-      if (matches) {
-        matches.forEach(ip => ipAddresses.add(ip));
+  rows.forEach(({ line: lineNumber, text, prefix: prefixField, fields }) => {
+    let prefix = null;
+    
+    if (IPV4_CANDIDATE_PATTERN.test(prefixField)) {
+      const result = validateIPv4Cidr(prefixField);
+      
+      if (!result.valid) {
+        rejectedCount++;
+        report(rejected, { line: lineNumber, text, reason: result.reason });
+        return;
+      }
+      
+      if (result.hostBitsSet) {
+        normalizedCount++;
+        report(normalized, { line: lineNumber, text, normalizedTo: result.cidr.text });
+      }
+      
+      prefix = result.cidr.text;
+      ipAddresses.add(prefix);
+    } else if (prefixField.includes(':')) {
+      // IPv6 prefixes are canonicalized so different spellings of one prefix are de-duplicated
+      prefix = canonicalizeIPv6Cidr(prefixField);
+      
+      if (!prefix) {
+        rejectedCount++;
+        report(rejected, { line: lineNumber, text, reason: `Invalid IPv6 prefix "${prefixField}"` });
+        return;
       }
+      
+      ipv6Addresses.add(prefix);
+    } else {
+      rejectedCount++;
+      report(rejected, { line: lineNumber, text, reason: 'Not an IP prefix' });
+      return;
+    }
+    
+    // The first row seen for a prefix wins
+    if (fields && !geo[prefix]) {
+      geo[prefix] = parseGeoColumns(fields);
+    }
+  });
+  
+  return {
+    ipAddresses: Array.from(ipAddresses).sort(compareIPv4Cidrs),
+    ipv6Addresses: Array.from(ipv6Addresses).sort(compareIPv6Cidrs),
+    geo,
+    rejected,
+    rejectedCount,
+    normalized,
+    normalizedCount
+  };
+};
+
+// Compare two prefix lists and return what was added and removed
+const diffPrefixes = (oldList, newList) => {
+  const oldSet = new Set(oldList);
+  const newSet = new Set(newList);
+
+  return {
+    added: newList.filter(ip => !oldSet.has(ip)),
+    removed: oldList.filter(ip => !newSet.has(ip))
+  };
+};
+
+// Pending update held by the safety guard, null when there is none
+const readPendingUpdate = (state = primaryState) => {
+  try {
+    if (!existsSync(state.pendingFilePath)) {
+      return null;
     }
+    return JSON.parse(readFileSync(state.pendingFilePath, 'utf-8'));
+  } catch (error) {
+    console.error('Error reading pending update:', error);
+    return null;
+  }
+};
+
+const clearPendingUpdate = (state = primaryState) => {
+  if (existsSync(state.pendingFilePath)) {
+    unlinkSync(state.pendingFilePath);
+  }
+};
+
+// Pending update as exposed by the API, without the full lists
+const summarizePendingUpdate = (pending) => pending && {
+  id: pending.id,
+  createdAt: pending.createdAt,
+  reasons: pending.reasons,
+  ipv4Count: pending.ipAddresses.length,
+  ipv6Count: pending.ipv6Addresses.length,
+  previousIpv4Count: pending.previousIpv4Count,
+  previousIpv6Count: pending.previousIpv6Count,
+  added: pending.added,
+  removed: pending.removed,
+  addedIpv6: pending.addedIpv6,
+  removedIpv6: pending.removedIpv6
+};
+
+// Lists of the primary source as published: upstream with the active overrides applied. The
+// upstream lists are kept next to them so the overrides can be applied again when they change.
+const withOverrides = (parsed, state) => {
+  if (!state.primary) {
+    return parsed;
   }
   
-  return Array.from(ipAddresses).sort();
+  const { ipAddresses, ipv6Addresses, geo } = overrideStore.apply(parsed);
+  return {
+    ipAddresses,
+    ipv6Addresses,
+    geo,
+    upstream: { ipAddresses: parsed.ipAddresses, ipv6Addresses: parsed.ipv6Addresses || [] }
+  };
 };
 
-// Update IP addresses
-const updateIPAddresses = async () => {
+// Compare parsed lists against the published data
+const buildCandidate = ({ ipAddresses, ipv6Addresses, geo, upstream }, currentData) => {
+  const ipv4 = diffPrefixes(currentData.ipAddresses || [], ipAddresses);
+  const ipv6 = diffPrefixes(currentData.ipv6Addresses || [], ipv6Addresses);
+  
+  return {
+    ipAddresses,
+    ipv6Addresses,
+    geo,
+    ...(upstream && { upstream }),
+    added: ipv4.added,
+    removed: ipv4.removed,
+    addedIpv6: ipv6.added,
+    removedIpv6: ipv6.removed
+  };
+};
+
+// Published list of a named feed, empty until its sources published something
+const readNamedFeed = (state) => {
   try {
-    const csvText = await fetchStarlinkData();
-    const newIpAddresses = processCSVData(csvText);
-    
-    if (newIpAddresses.length === 0) {
-      throw new Error('No IPv4 addresses found in data');
+    if (existsSync(state.dataFilePath)) {
+      return JSON.parse(readFileSync(state.dataFilePath, 'utf-8'));
+    }
+  } catch (error) {
+    console.error(`Error reading the list of feed ${state.feed.name}:`, error.message);
+  }
+  return { prefixes: [], updatedAt: null };
+};
+
+// Rebuild the named feeds that use the source `sourceId`, or all of them, and record the
+// changes in their changelogs. Named feeds without overrides read the upstream lists.
+const refreshNamedFeeds = (sourceId = null) => {
+  for (const state of namedFeedStates) {
+    const { feed } = state;
+    if (sourceId && !feed.sources.includes(sourceId)) {
+      continue;
     }
     
-    const currentData = readData();
-    const oldIpAddresses = currentData.ipAddresses || [];
+    try {
+      const sourceData = feed.sources.map(id => readData(findSourceState(id)));
+      if (!sourceData.some(data => data.lastUpdated)) {
+        continue;
+      }
+      
+      const prefixes = buildFeedPrefixes(feed, sourceData.map(data => {
+        const lists = !feed.overrides && data.upstream ? data.upstream : data;
+        return {
+          prefixes: (feed.family === 'ipv6' ? lists.ipv6Addresses : lists.ipAddresses) || [],
+          geo: data.geo || {}
+        };
+      }));
+      
+      const current = readNamedFeed(state);
+      const previous = new Set(current.prefixes);
+      const next = new Set(prefixes);
+      const added = prefixes.filter(prefix => !previous.has(prefix));
+      const removed = current.prefixes.filter(prefix => !next.has(prefix));
+      
+      if (current.updatedAt && added.length === 0 && removed.length === 0) {
+        continue;
+      }
+      
+      const updatedAt = new Date().toISOString();
+      writeFileAtomic(state.dataFilePath, JSON.stringify({ prefixes, updatedAt }, null, 2));
+      
+      if (added.length > 0 || removed.length > 0) {
+        const ipv6 = feed.family === 'ipv6';
+        state.historyStore.append({
+          date: updatedAt,
+          ipAddresses: ipv6 ? [] : prefixes,
+          added: ipv6 ? [] : added,
+          removed: ipv6 ? [] : removed,
+          ipv6Addresses: ipv6 ? prefixes : [],
+          addedIpv6: ipv6 ? added : [],
+          removedIpv6: ipv6 ? removed : []
+        });
+        console.log(`Feed ${feed.name} now lists ${prefixes.length} prefixes, ${added.length} added, ${removed.length} removed`);
+      }
+    } catch (error) {
+      console.error(`Failed to build feed ${feed.name}:`, error.message);
+    }
+  }
+};
+
+// Write a candidate to the data file and history of a source, and for the primary source to the text feeds.
+// `override` describes the override change that caused the update; it is recorded in the changelog
+// even when the published lists stay the same.
+const publishUpdate = (candidate, { state = primaryState, approved = false, override = null } = {}) => {
+  const { ipAddresses, ipv6Addresses, geo, upstream, added, removed, addedIpv6, removedIpv6 } = candidate;
+  const updateTime = new Date().toISOString();
+  const changed = added.length > 0 || removed.length > 0 || addedIpv6.length > 0 || removedIpv6.length > 0;
+  
+  // upstream.updatedAt is the last time upstream data was published, override changes keep it
+  const data = {
+    ipAddresses,
+    ipv6Addresses,
+    geo,
+    ...(upstream && { upstream: { ...upstream, updatedAt: upstream.updatedAt ?? updateTime } }),
+    lastUpdated: updateTime
+  };
+  
+  if (!writeData(data, state)) {
+    throw new Error('Failed to save data');
+  }
+  
+  if (changed || override) {
+    state.historyStore.append({
+      date: updateTime,
+      ipAddresses,
+      added,
+      removed,
+      ipv6Addresses,
+      addedIpv6,
+      removedIpv6,
+      ...(approved && { approved: true }),
+      ...(override && { event: 'override', override })
+    });
+  }
+  
+  if (changed) {
+    webhookNotifier.notify('change', state.source, {
+      date: updateTime,
+      added,
+      removed,
+      addedIpv6,
+      removedIpv6,
+      ipv4Count: ipAddresses.length,
+      ipv6Count: ipv6Addresses.length,
+      approved,
+      ...(override && { override })
+    });
     
-    const oldSet = new Set(oldIpAddresses);
-    const newSet = new Set(newIpAddresses);
+    panosPusher.pushChange(state.source.id, primaryState.source.id);
+  }
+  
+  // Write IP addresses to text files
+  if (state.primary) {
+    writeFileAtomic(ipFilePath, ipAddresses.join('\n'));
+    writeFileAtomic(ipv6FilePath, ipv6Addresses.join('\n'));
+  }
+  
+  console.log(`Successfully updated ${state.source.name} with ${ipAddresses.length} IPv4 and ${ipv6Addresses.length} IPv6 prefixes`);
+  
+  refreshNamedFeeds(state.source.id);
+};
+
+// Validators for a conditional request, null when the source must be downloaded in full
+const readValidators = (state) => {
+  // Without published or held data there is nothing a 304 could refer to
+  if (!readData(state).lastUpdated && !existsSync(state.pendingFilePath)) {
+    return null;
+  }
+  
+  try {
+    return existsSync(state.validatorsFilePath)
+      ? JSON.parse(readFileSync(state.validatorsFilePath, 'utf-8'))
+      : null;
+  } catch (error) {
+    console.error(`Ignoring unreadable upstream validators of ${state.source.name}:`, error.message);
+    return null;
+  }
+};
+
+// Remember the validators once the response they belong to has been published or held
+const writeValidators = (state, validators) => {
+  if (validators?.etag || validators?.lastModified) {
+    writeFileAtomic(state.validatorsFilePath, JSON.stringify(validators, null, 2));
+  }
+};
+
+// Fetch, check and publish one source
+const updateSource = async (state) => {
+  const { source } = state;
+  const { content, notModified, validators, attempts, durationMs } = await readSource(source, {
+    validators: readValidators(state),
+    timeoutMs: UPSTREAM_TIMEOUT_MS,
+    retries: UPSTREAM_RETRIES,
+    backoffMs: UPSTREAM_BACKOFF_MS,
+    agent: outboundAgent
+  });
+  const fetchInfo = { notModified, attempts, durationMs };
+  
+  if (notModified) {
+    const currentData = readData(state);
     
-    const added = newIpAddresses.filter(ip => !oldSet.has(ip));
-    const removed = oldIpAddresses.filter(ip => !newSet.has(ip));
+    return {
+      success: true,
+      held: false,
+      count: (currentData.ipAddresses || []).length,
+      added: 0,
+      removed: 0,
+      ipv6Count: (currentData.ipv6Addresses || []).length,
+      ipv6Added: 0,
+      ipv6Removed: 0,
+      rejectedCount: 0,
+      rejected: [],
+      normalizedCount: 0,
+      normalized: [],
+      ...fetchInfo
+    };
+  }
+  
+  const parsed = processSourceData(content, source.format);
+  const { rejected, rejectedCount, normalized, normalizedCount } = parsed;
+  
+  if (rejectedCount > 0) {
+    console.warn(`Rejected ${rejectedCount} malformed line(s) from ${source.name}, e.g. line ${rejected[0].line}: ${rejected[0].reason}`);
+  }
+  
+  // The primary source backs /ipv4.txt, other sources may publish IPv6 only
+  if (state.primary ? parsed.ipAddresses.length === 0 : parsed.ipAddresses.length + parsed.ipv6Addresses.length === 0) {
+    throw new Error(`No ${state.primary ? 'IPv4 addresses' : 'prefixes'} found in ${source.name} data`);
+  }
+  
+  // Compare and publish under the lock so concurrent refreshes and approvals cannot interleave
+  return await dataLock.runExclusive(() => {
+    const currentData = readData(state);
+    const candidate = buildCandidate(withOverrides(parsed, state), currentData);
     
-    const updateTime = new Date().toISOString();
+    const reasons = evaluateUpdate(
+      {
+        previous: { ipAddresses: currentData.ipAddresses || [], ipv6Addresses: currentData.ipv6Addresses || [] },
+        added: { ipv4: candidate.added, ipv6: candidate.addedIpv6 },
+        removed: { ipv4: candidate.removed, ipv6: candidate.removedIpv6 }
+      },
+      settings.get().safety
+    );
     
-    const updatedData = {
-      ipAddresses: newIpAddresses,
-      lastUpdated: updateTime,
-      changelog: currentData.changelog || []
+    const result = {
+      success: true,
+      held: reasons.length > 0,
+      count: candidate.ipAddresses.length,
+      added: candidate.added.length,
+      removed: candidate.removed.length,
+      ipv6Count: candidate.ipv6Addresses.length,
+      ipv6Added: candidate.addedIpv6.length,
+      ipv6Removed: candidate.removedIpv6.length,
+      rejectedCount,
+      rejected,
+      normalizedCount,
+      normalized,
+      ...fetchInfo
     };
     
-    if (added.length > 0 || removed.length > 0) {
-      const changelogEntry = {
-        date: updateTime,
-        ipAddresses: newIpAddresses,
-        added,
-        removed
+    if (reasons.length > 0) {
+      // A newer suspicious update replaces any older one still waiting for approval
+      const pending = {
+        id: new Date().toISOString(),
+        createdAt: new Date().toISOString(),
+        reasons,
+        previousIpv4Count: (currentData.ipAddresses || []).length,
+        previousIpv6Count: (currentData.ipv6Addresses || []).length,
+        ...candidate
       };
+      writeFileAtomic(state.pendingFilePath, JSON.stringify(pending, null, 2));
+      writeValidators(state, validators);
       
-      updatedData.changelog = [changelogEntry, ...updatedData.changelog].slice(0, 10);
-    }
-    
-    if (!writeData(updatedData)) {
-      throw new Error('Failed to save data');
+      console.warn(`Update of ${source.name} held for approval: ${reasons.join('; ')}`);
+      webhookNotifier.notify('held', source, {
+        pendingId: pending.id,
+        reasons,
+        added: candidate.added,
+        removed: candidate.removed,
+        addedIpv6: candidate.addedIpv6,
+        removedIpv6: candidate.removedIpv6
+      });
+      return { ...result, reasons };
     }
     
-    // Write IP addresses to text file
-    writeFileSync(ipFilePath, newIpAddresses.join('\n'));
-    
-    console.log(`Successfully updated ${newIpAddresses.length} IP addresses`);
+    publishUpdate(candidate, { state });
+    writeValidators(state, validators);
     
-    return {
-      success: true,
-      count: newIpAddresses.length,
-      added: added.length,
-      removed: removed.length
-    };
+    // Upstream is back to normal, an older held update is obsolete
+    if (readPendingUpdate(state)) {
+      clearPendingUpdate(state);
+      console.log(`Discarded pending update of ${source.name} superseded by a normal update`);
+    }
     
-  } catch (error) {
-    console.error('Error updating IP addresses:', error);
-    throw error;
+    return result;
+  });
+};
+
+// Last time the data of a source was known to be current: the last successful fetch, or after a
+// restart the last published change
+const lastSuccessfulUpdate = (state) => {
+  const data = readData(state);
+  // Override changes republish the lists but say nothing about upstream
+  const lastUpdated = data.upstream?.updatedAt ?? data.lastUpdated;
+  if (!state.lastSuccessfulFetch) {
+    return lastUpdated;
   }
+  return lastUpdated && lastUpdated > state.lastSuccessfulFetch ? lastUpdated : state.lastSuccessfulFetch;
 };
 
-// Middleware
-app.use(express.json());
+const fetchResultLabel = (outcome) => {
+  if (!outcome.success) {
+    return 'error';
+  }
+  if (outcome.held) {
+    return 'held';
+  }
+  return outcome.notModified ? 'not_modified' : 'updated';
+};
 
-// Add CORS headers for API routes
-app.use('/api', (req, res, next) => {
-  res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+const recordFetchOutcome = (state, outcome) => {
+  const at = new Date().toISOString();
+  // While an update waits for approval the published list is frozen, also when upstream is unchanged
+  const pendingApproval = Boolean(outcome.success && readPendingUpdate(state));
   
-  if (req.method === 'OPTIONS') {
-    res.sendStatus(200);
-  } else {
-    next();
+  state.lastFetch = {
+    at,
+    result: fetchResultLabel(outcome),
+    error: outcome.error || null,
+    durationMs: outcome.durationMs ?? null,
+    pendingApproval
+  };
+  if (outcome.success && !pendingApproval) {
+    state.lastSuccessfulFetch = at;
   }
-});
+  
+  fetchCounter.inc({ source: state.source.id, result: state.lastFetch.result });
+  if (typeof outcome.durationMs === 'number') {
+    fetchDuration.observe({ source: state.source.id }, outcome.durationMs / 1000);
+  }
+};
 
-// API Routes - MUST come before static file serving
-app.get('/api/data', (req, res) => {
-  try {
-    const data = readData();
-    res.json(data);
-  } catch (error) {
-    console.error('API /data error:', error);
-    res.status(500).json({ error: 'Failed to read data', details: error.message });
+// Update IP addresses of every source. The result describes the primary source, with the
+// outcome for each source under `sources`. A failing secondary source does not fail the run.
+const updateIPAddresses = async () => {
+  const outcomes = {};
+  let primaryError = null;
+  
+  for (const state of sourceStates) {
+    try {
+      outcomes[state.source.id] = await updateSource(state);
+    } catch (error) {
+      console.error(`Error updating ${state.source.name}:`, error);
+      outcomes[state.source.id] = {
+        success: false,
+        error: error.message,
+        attempts: error.attempts,
+        durationMs: error.durationMs
+      };
+      if (state.primary) {
+        primaryError = error;
+      }
+      webhookNotifier.notify('failure', state.source, { error: error.message, attempts: error.attempts ?? null });
+      digestService.recordFailure({ source: state.source.id, error: error.message });
+    }
+    recordFetchOutcome(state, outcomes[state.source.id]);
+  }
+  
+  panosPusher.retryFailed();
+  
+  if (primaryError) {
+    throw primaryError;
   }
+  
+  return {
+    ...outcomes[primaryState.source.id],
+    sources: Object.fromEntries(
+      Object.entries(outcomes).map(([id, { rejected, normalized, ...outcome }]) => [id, outcome])
+    )
+  };
+};
+
+// Publish the pending update of a source after an operator approved it
+const approvePendingUpdate = (id, state = primaryState) => dataLock.runExclusive(() => {
+  const pending = readPendingUpdate(state);
+  
+  if (!pending || (id && pending.id !== id)) {
+    return null;
+  }
+  
+  // Apply the overrides and diff again in case either changed since the update was held
+  const candidate = buildCandidate(withOverrides({ ...pending, ...pending.upstream }, state), readData(state));
+  publishUpdate(candidate, { state, approved: true });
+  clearPendingUpdate(state);
+  console.log(`Pending update ${pending.id} of ${state.source.name} approved and published`);
+  
+  return {
+    success: true,
+    count: candidate.ipAddresses.length,
+    added: candidate.added.length,
+    removed: candidate.removed.length,
+    ipv6Count: candidate.ipv6Addresses.length,
+    ipv6Added: candidate.addedIpv6.length,
+    ipv6Removed: candidate.removedIpv6.length
+  };
 });
 
-app.post('/api/fetch-data', async (req, res) => {
-  try {
-    const result = await updateIPAddresses();
-    res.json(result);
-  } catch (error) {
-    console.error('API /fetch-data error:', error);
-    res.status(500).json({ 
-      success: false,
-      error: error.message 
-    });
+// Discard the pending update of a source, returns false when there is no matching one
+const rejectPendingUpdate = (id, state = primaryState) => dataLock.runExclusive(() => {
+  const pending = readPendingUpdate(state);
+  
+  if (!pending || (id && pending.id !== id)) {
+    return false;
   }
+  
+  clearPendingUpdate(state);
+  console.log(`Pending update ${pending.id} of ${state.source.name} rejected`);
+  return true;
 });
 
-// Health check endpoint
-app.get('/api/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+// Apply the overrides again to the last published upstream lists of the primary source, after an
+// override was added, removed or expired. Recorded in the changelog as an override event.
+const republishOverrides = (override) => dataLock.runExclusive(() => {
+  const currentData = readData(primaryState);
+  
+  // Nothing published yet, the first fetch applies the overrides
+  if (!currentData.lastUpdated) {
+    return null;
+  }
+  
+  // Data published before overrides existed has no separate upstream lists, nothing was overridden then
+  const upstream = currentData.upstream || {
+    ipAddresses: currentData.ipAddresses || [],
+    ipv6Addresses: currentData.ipv6Addresses || [],
+    updatedAt: currentData.lastUpdated
+  };
+  
+  const candidate = buildCandidate(
+    { ...withOverrides({ ...upstream, geo: currentData.geo || {} }, primaryState), upstream },
+    currentData
+  );
+  publishUpdate(candidate, { state: primaryState, override });
+  console.log(`Override ${override.change}: ${override.action} ${override.cidr}, ${candidate.added.length + candidate.addedIpv6.length} added, ${candidate.removed.length + candidate.removedIpv6.length} removed`);
+  
+  return candidate;
 });
 
-// Serve static files from public directory
-app.use(express.static(publicDir));
+// What the changelog records about an override change
+const describeOverrideChange = (change, entry) => ({
+  change,
+  id: entry.id,
+  action: entry.action,
+  cidr: entry.cidr,
+  reason: entry.reason,
+  author: entry.author
+});
 
-// Handle React Router - this MUST come last
-app.get('*', (req, res) => {
-  // Don't serve index.html for API routes
-  if (req.path.startsWith('/api/')) {
-    return res.status(404).json({ error: 'API endpoint not found' });
+const expireOverrides = async () => {
+  for (const entry of overrideStore.takeExpired()) {
+    try {
+      await republishOverrides(describeOverrideChange('expired', entry));
+    } catch (error) {
+      console.error(`Failed to republish after override ${entry.cidr} expired:`, error.message);
+    }
+  }
+};
+
+// Scheduled refresh so the feed stays current without anyone opening the UI
+const refreshScheduler = createScheduler({
+  name: 'refresh',
+  task: updateIPAddresses,
+  ...settings.get().refresh
+});
+
+// Daily and weekly digests, only scheduled when an SMTP relay is configured
+const digestSchedulers = Object.fromEntries(
+  [['daily', DIGEST_DAILY_CRON], ['weekly', DIGEST_WEEKLY_CRON]].map(([frequency, cron]) => [
+    frequency,
+    createScheduler({
+      name: `digest-${frequency}`,
+      task: () => digestService.send(frequency),
+      enabled: Boolean(SMTP_HOST),
+      cron
+    })
+  ])
+);
+
+// Behind a reverse proxy, TRUST_PROXY (e.g. "loopback" or a hop count) makes req.ip the client address
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+
+// Middleware
+// Bulk lookups carry many addresses, the other routes keep the default body limit
+app.use('/api/lookup', express.json({ limit: '1mb' }));
+app.use(express.json());
+
+// Add CORS headers for API routes, only for origins allowed in the auth config
+app.use('/api', (req, res, next) => {
+  const origin = auth.allowedOrigin(req.headers.origin);
+  
+  if (origin) {
+    res.header('Access-Control-Allow-Origin', origin);
+    res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    res.header('Access-Control-Allow-Headers', `Content-Type, Authorization, ${REQUEST_HEADER}`);
+    if (origin !== '*') {
+      res.header('Vary', 'Origin');
+    }
+  }
+  
+  if (req.method === 'OPTIONS') {
+    res.sendStatus(200);
+  } else {
+    next();
+  }
+});
+
+// Changes from a browser must come from the UI or an allowed origin
+app.use('/api', auth.rejectCrossSite);
+
+// API Routes - MUST come before static file serving
+// Who the request is authenticated as, used by the UI login
+app.get('/api/auth/me', (req, res) => {
+  res.json(auth.describe(req));
+});
+
+// Health checks stay public, every other API route needs at least the reader role.
+// "degraded" means a source has not been updated successfully within HEALTH_MAX_DATA_AGE_MINUTES,
+// or has an update waiting for approval; the feeds are still served from the last good data.
+app.get('/api/health', (req, res) => {
+  try {
+    const now = Date.now();
+    // Two refresh periods; in cron mode the one between the scheduled runs around now
+    const periodMinutes = refreshScheduler.periodMinutes(new Date(now));
+    const maxDataAgeMinutes = HEALTH_MAX_DATA_AGE_MINUTES || (periodMinutes ? 2 * periodMinutes : null);
+    const checks = sourceStates.map(state => {
+      const lastUpdate = lastSuccessfulUpdate(state);
+      const ageMinutes = lastUpdate ? Math.round((now - new Date(lastUpdate).getTime()) / 60000) : null;
+      
+      return {
+        source: state.source.id,
+        lastSuccessfulUpdate: lastUpdate,
+        dataAgeMinutes: ageMinutes,
+        stale: ageMinutes === null || (maxDataAgeMinutes !== null && ageMinutes > maxDataAgeMinutes),
+        pendingApproval: Boolean(readPendingUpdate(state)),
+        lastFetch: state.lastFetch
+      };
+    });
+    
+    res.json({
+      status: checks.some(check => check.stale || check.pendingApproval) ? 'degraded' : 'ok',
+      timestamp: new Date(now).toISOString(),
+      maxDataAgeMinutes,
+      sources: checks
+    });
+  } catch (error) {
+    console.error('API /health error:', error);
+    res.status(500).json({ status: 'error', error: error.message });
+  }
+});
+
+app.use('/api', requireReader);
+
+// Reachability of every URL source through the configured proxy and TLS settings. Any HTTP
+// response counts as reachable; the status is reported so a 407 from the proxy stands out.
+app.get('/api/health/upstream', async (req, res) => {
+  const checks = await Promise.all(sourceStates.filter(state => state.source.url).map(async ({ source }) => {
+    const startedAt = Date.now();
+    const check = { source: source.id, url: source.url, route: outboundAgent.describe(source.url) };
+    
+    try {
+      const { response } = await fetchWithRetry(source.url, {
+        label: `Health check ${source.name}`,
+        method: 'HEAD',
+        retries: 0,
+        timeoutMs: UPSTREAM_TIMEOUT_MS,
+        agent: outboundAgent
+      });
+      return { ...check, ok: response.status !== 407 && response.status < 500, status: response.status, durationMs: Date.now() - startedAt };
+    } catch (error) {
+      return { ...check, ok: false, error: error.message, durationMs: Date.now() - startedAt };
+    }
+  }));
+  
+  const ok = checks.every(check => check.ok);
+  res.status(ok ? 200 : 503).json({ status: ok ? 'ok' : 'unreachable', timestamp: new Date().toISOString(), checks });
+});
+
+const FEED_PATHS = ['/ipv4.txt', '/ipv6.txt', '/ipv4-aggregated.txt', '/ipv6-aggregated.txt', '/edl', '/sources', '/merged', '/feeds', '/export'];
+
+// Record every feed request once it is answered, including requests rejected by authentication
+app.use(FEED_PATHS, (req, res, next) => {
+  res.on('finish', () => {
+    // Tokens passed as ?token= must not end up in the consumer table
+    const url = new URL(req.originalUrl, 'http://localhost');
+    url.searchParams.delete('token');
+    // Counts and metric labels use the route template, e.g. /edl/country/:country.txt, so scanned
+    // URLs cannot grow them; requests that never reached a route (rejected or unknown) share one
+    const route = req.route?.path ?? 'unmatched';
+    
+    consumerTracker.record({
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      path: `${url.pathname}${url.search}`,
+      route,
+      status: res.statusCode,
+      etag: res.get('ETag')
+    });
+    feedRequestCounter.inc({ path: route, status: res.statusCode });
+  });
+  next();
+});
+
+// Feeds are read-only as well
+app.use(FEED_PATHS, requireFeedReader);
+
+app.get('/api/data', (req, res) => {
+  try {
+    const { upstream, ...data } = readData();
+    const ipAddresses = data.ipAddresses || [];
+    const ipv6Addresses = data.ipv6Addresses || [];
+    
+    res.json({
+      ...data,
+      overrides: describeOverrideOrigins({ ...data, upstream }),
+      // Most recent changes only, page through /api/changelog for the full history
+      changelog: historyStore.list({ page: 1, pageSize: 10 }).entries,
+      changelogTotal: historyStore.count(),
+      pendingUpdate: summarizePendingUpdate(readPendingUpdate()),
+      sources: sourceStates.map(summarizeSource),
+      stats: {
+        ipv4Count: ipAddresses.length,
+        ipv4AggregatedCount: aggregateIPv4(ipAddresses).length,
+        ipv6Count: ipv6Addresses.length,
+        ipv6AggregatedCount: aggregateIPv6(ipv6Addresses).length
+      }
+    });
+  } catch (error) {
+    console.error('API /data error:', error);
+    res.status(500).json({ error: 'Failed to read data', details: error.message });
+  }
+});
+
+// Source selected with ?source=<id> (or `source` in a JSON body), the primary source by default.
+// Sends a 404 and returns null for unknown ids.
+const resolveSourceState = (req, res) => {
+  const id = req.query.source ?? req.body?.source;
+  
+  if (id === undefined) {
+    return primaryState;
+  }
+  
+  const state = findSourceState(String(id));
+  if (!state) {
+    res.status(404).json({ error: `Unknown source "${id}"` });
+  }
+  return state;
+};
+
+app.get('/api/sources', (req, res) => {
+  try {
+    res.json({ sources: sourceStates.map(summarizeSource) });
+  } catch (error) {
+    console.error('API /sources error:', error);
+    res.status(500).json({ error: 'Failed to read sources', details: error.message });
+  }
+});
+
+// Named feeds with their pipeline, URL and current entry count
+app.get('/api/feeds', (req, res) => {
+  try {
+    res.json({
+      feeds: namedFeedStates.map(state => {
+        const { prefixes, updatedAt } = readNamedFeed(state);
+        
+        return {
+          ...state.feed,
+          url: `/feeds/${state.feed.name}.txt`,
+          count: prefixes.length,
+          updatedAt,
+          changelogTotal: state.historyStore.count()
+        };
+      })
+    });
+  } catch (error) {
+    console.error('API /feeds error:', error);
+    res.status(500).json({ error: 'Failed to read feeds', details: error.message });
+  }
+});
+
+// Paginated changelog of one named feed, newest first, like /api/changelog
+app.get('/api/feeds/:name/changelog', (req, res) => {
+  try {
+    const state = findNamedFeedState(req.params.name);
+    
+    if (!state) {
+      return res.status(404).json({ error: `Unknown feed "${req.params.name}"` });
+    }
+    
+    const page = parseInt(req.query.page, 10) || 1;
+    const pageSize = Math.min(parseInt(req.query.pageSize, 10) || 10, 100);
+    const prefix = typeof req.query.prefix === 'string' ? req.query.prefix.trim() : '';
+    
+    res.json(state.historyStore.list({ page, pageSize, prefix: prefix || undefined }));
+  } catch (error) {
+    console.error('API /feeds/:name/changelog error:', error);
+    res.status(500).json({ error: 'Failed to read changelog', details: error.message });
+  }
+});
+
+// Paginated changelog history, newest first. ?prefix=98.97.12.0/24 finds the entries
+// that added or removed that prefix. Every route below accepts ?source=<id>.
+app.get('/api/changelog', (req, res) => {
+  try {
+    const state = resolveSourceState(req, res);
+    if (!state) return;
+    
+    const page = parseInt(req.query.page, 10) || 1;
+    const pageSize = Math.min(parseInt(req.query.pageSize, 10) || 10, 100);
+    const prefix = typeof req.query.prefix === 'string' ? req.query.prefix.trim() : '';
+    
+    res.json(state.historyStore.list({ page, pageSize, prefix: prefix || undefined }));
+  } catch (error) {
+    console.error('API /changelog error:', error);
+    res.status(500).json({ error: 'Failed to read changelog', details: error.message });
+  }
+});
+
+// Full changelog entry including the IP list snapshot
+app.get('/api/changelog/:id', (req, res) => {
+  try {
+    const state = resolveSourceState(req, res);
+    if (!state) return;
+    
+    const entry = state.historyStore.get(req.params.id);
+    
+    if (!entry) {
+      return res.status(404).json({ error: 'Changelog entry not found' });
+    }
+    res.json(entry);
+  } catch (error) {
+    console.error('API /changelog/:id error:', error);
+    res.status(500).json({ error: 'Failed to read changelog entry', details: error.message });
+  }
+});
+
+// IP lists as they were at a point in time, e.g. /api/snapshot?at=2026-09-01
+app.get('/api/snapshot', (req, res) => {
+  try {
+    const state = resolveSourceState(req, res);
+    if (!state) return;
+    
+    const at = parseSnapshotTime(req.query.at);
+    
+    if (at === null) {
+      return res.status(400).json({ error: 'Query parameter "at" must be an ISO date or timestamp' });
+    }
+    
+    const entry = state.historyStore.findAt(at);
+    if (!entry) {
+      return res.status(404).json({ error: 'No snapshot recorded at or before that time' });
+    }
+    
+    res.json({
+      at: new Date(at).toISOString(),
+      entryId: entry.id,
+      date: entry.date,
+      ipAddresses: entry.ipAddresses || [],
+      ipv6Addresses: entry.ipv6Addresses || []
+    });
+  } catch (error) {
+    console.error('API /snapshot error:', error);
+    res.status(500).json({ error: 'Failed to read snapshot', details: error.message });
+  }
+});
+
+// Diff between two changelog entries or points in time; `to` defaults to the latest entry
+app.get('/api/diff', (req, res) => {
+  try {
+    const state = resolveSourceState(req, res);
+    if (!state) return;
+    
+    const { from, to } = req.query;
+    
+    if (!from) {
+      return res.status(400).json({ error: 'Query parameter "from" is required' });
+    }
+    
+    const fromEntry = resolveHistoryEntry(from, state.historyStore);
+    const toEntry = to ? resolveHistoryEntry(to, state.historyStore) : state.historyStore.findAt(Date.now());
+    
+    if (!fromEntry || !toEntry) {
+      return res.status(404).json({
+        error: `No snapshot found for "${!fromEntry ? from : to}"`
+      });
+    }
+    
+    const ipv4 = diffPrefixes(fromEntry.ipAddresses || [], toEntry.ipAddresses || []);
+    const ipv6 = diffPrefixes(fromEntry.ipv6Addresses || [], toEntry.ipv6Addresses || []);
+    
+    res.json({
+      from: { id: fromEntry.id, date: fromEntry.date, ipv4Count: fromEntry.ipAddresses?.length ?? 0 },
+      to: { id: toEntry.id, date: toEntry.date, ipv4Count: toEntry.ipAddresses?.length ?? 0 },
+      added: ipv4.added,
+      removed: ipv4.removed,
+      addedIpv6: ipv6.added,
+      removedIpv6: ipv6.removed
+    });
+  } catch (error) {
+    console.error('API /diff error:', error);
+    res.status(500).json({ error: 'Failed to compute diff', details: error.message });
+  }
+});
+
+// Upper bound on addresses in one bulk lookup
+const MAX_LOOKUP_ADDRESSES = 10000;
+
+// Lookup index of a source with the geo attributes and first-seen dates of its prefixes
+const getLookupIndex = (state) => {
+  const data = readData(state);
+  
+  if (!state.lookupIndex || state.lookupIndex.lastUpdated !== data.lastUpdated) {
+    state.lookupIndex = {
+      lastUpdated: data.lastUpdated,
+      index: createPrefixIndex(data),
+      geo: data.geo || {},
+      firstSeen: state.historyStore.firstSeenDates()
+    };
+  }
+  return state.lookupIndex;
+};
+
+// Longest-prefix match of one address, with an `error` instead when it is not an address
+const lookupAddress = ({ index, geo, firstSeen }, ip) => {
+  const result = index.lookup(ip);
+  
+  if (!result) {
+    return { ip, error: 'Not a valid IPv4 or IPv6 address' };
+  }
+  
+  const { family, prefix } = result;
+  return {
+    ip,
+    family,
+    match: prefix !== null,
+    prefix,
+    geo: prefix && geo[prefix] ? geo[prefix] : null,
+    firstSeen: prefix ? firstSeen.get(prefix) ?? null : null
+  };
+};
+
+// Is this address in the published list? e.g. /api/lookup?ip=98.97.12.34
+app.get('/api/lookup', (req, res) => {
+  try {
+    const state = resolveSourceState(req, res);
+    if (!state) return;
+    
+    if (typeof req.query.ip !== 'string' || !req.query.ip.trim()) {
+      return res.status(400).json({ error: '"ip" is required' });
+    }
+    
+    const result = lookupAddress(getLookupIndex(state), req.query.ip.trim());
+    if (result.error) {
+      return res.status(400).json({ error: result.error });
+    }
+    res.json({ source: state.source.id, ...result });
+  } catch (error) {
+    console.error('API /lookup error:', error);
+    res.status(500).json({ error: 'Failed to look up address', details: error.message });
+  }
+});
+
+// Bulk lookup, body `{ "ips": [...] }`. Invalid addresses get an `error` instead of failing the request.
+app.post('/api/lookup', (req, res) => {
+  try {
+    const state = resolveSourceState(req, res);
+    if (!state) return;
+    
+    const ips = req.body?.ips;
+    if (!Array.isArray(ips) || ips.some(ip => typeof ip !== 'string')) {
+      return res.status(400).json({ error: '"ips" must be a list of addresses' });
+    }
+    if (ips.length > MAX_LOOKUP_ADDRESSES) {
+      return res.status(400).json({ error: `At most ${MAX_LOOKUP_ADDRESSES} addresses per request` });
+    }
+    
+    const lookupIndex = getLookupIndex(state);
+    const results = ips.map(ip => lookupAddress(lookupIndex, ip.trim()));
+    
+    res.json({
+      source: state.source.id,
+      total: results.length,
+      matched: results.filter(result => result.match).length,
+      results
+    });
+  } catch (error) {
+    console.error('API /lookup error:', error);
+    res.status(500).json({ error: 'Failed to look up addresses', details: error.message });
+  }
+});
+
+// Tag the addresses in an uploaded CSV or plain-text log, streamed back while it is read, e.g.
+// curl -H 'Content-Type: text/csv' --data-binary @traffic.csv '/api/enrich?columns=Source%20address'
+app.post('/api/enrich', (req, res) => {
+  const state = resolveSourceState(req, res);
+  if (!state) return;
+  
+  // Anything else is either not a log or, like JSON, already consumed by the body parsers
+  if (!req.is(['text/csv', 'text/plain'])) {
+    return res.status(415).json({ error: 'Uploads must be sent as text/csv or text/plain' });
+  }
+  
+  const format = req.query.format ?? (req.is('text/csv') ? 'csv' : 'text');
+  if (!ENRICH_FORMATS.includes(format)) {
+    return res.status(400).json({ error: `format must be one of ${ENRICH_FORMATS.join(', ')}` });
+  }
+  
+  const delimiter = req.query.delimiter === 'tab' ? '\t' : req.query.delimiter ?? ',';
+  if (typeof delimiter !== 'string' || delimiter.length !== 1 || delimiter === '"') {
+    return res.status(400).json({ error: 'delimiter must be a single character or "tab"' });
+  }
+  
+  const contentEncoding = (req.get('Content-Encoding') || 'identity').toLowerCase();
+  if (!['identity', 'gzip'].includes(contentEncoding)) {
+    return res.status(415).json({ error: 'Uploads must be uncompressed or gzip' });
+  }
+  
+  const columns = typeof req.query.columns === 'string'
+    ? req.query.columns.split(',').map(column => column.trim()).filter(Boolean)
+    : [];
+  const lookupIndex = getLookupIndex(state);
+  const enrich = createEnrichStream({ lookup: (ip) => lookupAddress(lookupIndex, ip), format, columns, delimiter });
+  const startedAt = Date.now();
+  
+  res.type(format === 'csv' ? 'text/csv' : 'text/plain');
+  res.attachment(format === 'csv' ? 'enriched.csv' : 'enriched.log');
+  res.on('finish', () => {
+    if (res.statusCode !== 200) return;
+    const { lines, addresses, matched } = enrich.stats;
+    console.log(`Enriched ${lines} lines against ${state.source.name}: ${matched} of ${addresses} addresses matched in ${Date.now() - startedAt}ms`);
+  });
+  
+  // Errors before the first enriched output, e.g. an unknown column, are answered as usual
+  const input = contentEncoding === 'gzip' ? [req, createGunzip()] : [req];
+  let responding = false;
+  pipeline(...input, enrich, (error) => {
+    if (!error || responding) return;
+    
+    console.error('API /enrich error:', error.message);
+    res.removeHeader('Content-Disposition');
+    res.status(400).type('json').json({ error: error.message });
+  });
+  
+  // From then on the response is part of the pipeline, a later error aborts the transfer so the
+  // client sees it truncated rather than complete
+  enrich.once('readable', () => {
+    responding = true;
+    pipeline(enrich, res, (error) => {
+      if (!error) return;
+      
+      console.error('API /enrich error:', error.message);
+      res.destroy(error);
+    });
+  });
+});
+
+// Update held by the safety guard
+app.get('/api/pending', (req, res) => {
+  const state = resolveSourceState(req, res);
+  if (!state) return;
+  
+  res.json({ pendingUpdate: summarizePendingUpdate(readPendingUpdate(state)) });
+});
+
+app.post('/api/pending/approve', requireOperator, async (req, res) => {
+  try {
+    const state = resolveSourceState(req, res);
+    if (!state) return;
+    
+    const result = await approvePendingUpdate(req.body?.id, state);
+    
+    if (!result) {
+      return res.status(404).json({ success: false, error: 'No matching pending update' });
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('API /pending/approve error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/pending/reject', requireOperator, async (req, res) => {
+  try {
+    const state = resolveSourceState(req, res);
+    if (!state) return;
+    
+    if (!(await rejectPendingUpdate(req.body?.id, state))) {
+      return res.status(404).json({ success: false, error: 'No matching pending update' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('API /pending/reject error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Published prefixes of the primary source that only come from include overrides, and upstream
+// prefixes removed or split by exclude overrides
+const describeOverrideOrigins = (data) => {
+  const { included, excluded } = overrideStore.apply(data.upstream || data);
+  return { included, excluded };
+};
+
+// Manual overrides of the primary source; changes are published right away
+app.get('/api/overrides', (req, res) => {
+  try {
+    res.json({ overrides: overrideStore.list(), ...describeOverrideOrigins(readData()) });
+  } catch (error) {
+    console.error('API /overrides error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/overrides', requireOperator, async (req, res) => {
+  const { action, cidr, reason, expiresAt, author } = req.body || {};
+  let entry;
+  
+  try {
+    // The authenticated name when auth is enabled, so entries cannot be attributed to someone else
+    entry = overrideStore.add({ action, cidr, reason, expiresAt, author: req.identity?.name || author });
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+  
+  try {
+    await republishOverrides(describeOverrideChange('added', entry));
+    res.status(201).json(entry);
+  } catch (error) {
+    console.error('API /overrides error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.delete('/api/overrides/:id', requireOperator, async (req, res) => {
+  const entry = overrideStore.remove(req.params.id);
+  if (!entry) {
+    return res.status(404).json({ error: 'Override not found' });
+  }
+  
+  try {
+    // An entry that already expired no longer applies, removing it changes nothing
+    if (!entry.expiredAt) {
+      await republishOverrides(describeOverrideChange('removed', entry));
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('API /overrides error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/fetch-data', requireOperator, async (req, res) => {
+  try {
+    // Goes through the scheduler so a manual refresh never overlaps a scheduled one
+    const result = await refreshScheduler.runNow();
+    res.json(result);
+  } catch (error) {
+    console.error('API /fetch-data error:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message,
+      attempts: error.attempts,
+      durationMs: error.durationMs
+    });
+  }
+});
+
+app.get('/api/schedule', (req, res) => {
+  res.json(refreshScheduler.getStatus());
+});
+
+// Runtime settings with their defaults; a PUT merges the given groups and applies them right away.
+// `configuredUpstream` is the primary source location from the sources config, used while upstream.url is null.
+const describeSettings = () => ({ ...settings.describe(), configuredUpstream: describeLocation(sources[0]) });
+
+app.get('/api/settings', (req, res) => {
+  res.json(describeSettings());
+});
+
+app.put('/api/settings', requireOperator, (req, res) => {
+  try {
+    settings.update(req.body);
+    res.json(describeSettings());
+  } catch (error) {
+    if (error.details) {
+      return res.status(400).json({ error: error.message, details: error.details });
+    }
+    console.error('API /settings error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ETag, Last-Modified and 304 handling for every text feed
+const sendFeed = createFeedResponder({ compression: FEED_COMPRESSION, maxAge: FEED_MAX_AGE_SECONDS });
+
+const toSeconds = (date) => Math.floor(new Date(date).getTime() / 1000);
+
+const perSource = (collect) => () => sourceStates.flatMap(state => collect(state, { source: state.source.id }));
+
+metrics.gauge({
+  name: 'edl_last_fetch_timestamp_seconds',
+  help: 'Time of the last upstream fetch attempt since the server started.',
+  collect: perSource((state, labels) => state.lastFetch ? [{ labels, value: toSeconds(state.lastFetch.at) }] : [])
+});
+
+metrics.gauge({
+  name: 'edl_last_fetch_success',
+  help: 'Whether the last upstream fetch attempt succeeded (1), or failed or left an update held for approval (0).',
+  collect: perSource((state, labels) => state.lastFetch
+    ? [{ labels, value: state.lastFetch.result === 'error' || state.lastFetch.pendingApproval ? 0 : 1 }]
+    : [])
+});
+
+metrics.gauge({
+  name: 'edl_last_success_timestamp_seconds',
+  help: 'Time of the last successful update, the last published change after a restart.',
+  collect: perSource((state, labels) => {
+    const lastUpdate = lastSuccessfulUpdate(state);
+    return lastUpdate ? [{ labels, value: toSeconds(lastUpdate) }] : [];
+  })
+});
+
+metrics.gauge({
+  name: 'edl_last_change_timestamp_seconds',
+  help: 'Time the published list last changed.',
+  collect: perSource((state, labels) => {
+    // lastUpdated of the data file moves with every download, also when nothing changed
+    const lastChange = state.historyStore.lastChangeDate();
+    return lastChange ? [{ labels, value: toSeconds(lastChange) }] : [];
+  })
+});
+
+metrics.gauge({
+  name: 'edl_prefixes',
+  help: 'Number of prefixes in the published list.',
+  collect: perSource((state, labels) => {
+    const data = readData(state);
+    return [
+      { labels: { ...labels, family: 'ipv4' }, value: (data.ipAddresses || []).length },
+      { labels: { ...labels, family: 'ipv6' }, value: (data.ipv6Addresses || []).length }
+    ];
+  })
+});
+
+// Added and removed prefixes of the newest changelog entry
+const lastChangeGauge = (name, help, ipv4Key, ipv6Key) => metrics.gauge({
+  name,
+  help,
+  collect: perSource((state, labels) => {
+    const [latest] = state.historyStore.list({ pageSize: 1 }).entries;
+    return latest ? [
+      { labels: { ...labels, family: 'ipv4' }, value: latest[ipv4Key].length },
+      { labels: { ...labels, family: 'ipv6' }, value: latest[ipv6Key].length }
+    ] : [];
+  })
+});
+
+lastChangeGauge('edl_last_change_added', 'Prefixes added by the last change.', 'added', 'addedIpv6');
+lastChangeGauge('edl_last_change_removed', 'Prefixes removed by the last change.', 'removed', 'removedIpv6');
+
+metrics.gauge({
+  name: 'edl_pending_update',
+  help: 'Whether an update is held by the safety guard (1) or not (0).',
+  collect: perSource((state, labels) => [{ labels, value: readPendingUpdate(state) ? 1 : 0 }])
+});
+
+metrics.gauge({
+  name: 'edl_feed_consumers',
+  help: 'Feed consumers seen, by whether they are stale.',
+  collect: () => {
+    const consumers = consumerTracker.list();
+    const stale = consumers.filter(consumer => consumer.stale).length;
+    return [
+      { labels: { stale: 'true' }, value: stale },
+      { labels: { stale: 'false' }, value: consumers.length - stale }
+    ];
+  }
+});
+
+app.get('/metrics', requireReader, (req, res) => {
+  try {
+    res.type(METRICS_CONTENT_TYPE).send(metrics.render());
+  } catch (error) {
+    console.error('Metrics error:', error);
+    res.status(500).type('text/plain').send('Failed to collect metrics');
+  }
+});
+
+// Configured webhooks (without URLs and secrets) and the newest deliveries
+app.get('/api/webhooks', requireAuthenticatedReader, (req, res) => {
+  const limit = Math.max(1, Math.min(200, Number(req.query.limit) || 50));
+  res.json({ webhooks: webhookNotifier.describe(), deliveries: webhookNotifier.getDeliveries(limit) });
+});
+
+// Send a sample change event to check a webhook
+app.post('/api/webhooks/:id/test', requireOperator, async (req, res) => {
+  try {
+    const delivery = webhookNotifier.sendTest(req.params.id, primaryState.source);
+    if (!delivery) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    const [result] = await delivery;
+    res.json({ success: result.success, delivery: result });
+  } catch (error) {
+    console.error('API /webhooks/test error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// PAN-OS devices (without API keys) with their last push, and the newest pushes
+app.get('/api/panos', (req, res) => {
+  const limit = Math.max(1, Math.min(200, Number(req.query.limit) || 50));
+  res.json({ devices: panosPusher.describe(), pushes: panosPusher.getPushes(limit) });
+});
+
+// Push the current prefixes now, to all devices or with { "device": "<id>" } to one
+app.post('/api/panos/push', requireOperator, async (req, res) => {
+  const { device } = req.body || {};
+  
+  if (device && !panosPusher.describe().some(candidate => candidate.id === device)) {
+    return res.status(404).json({ error: 'Device not found' });
+  }
+  
+  try {
+    const pushes = await panosPusher.push(device ? [device] : null);
+    res.json({ success: pushes.every(push => push.success), pushes });
+  } catch (error) {
+    console.error('API /panos/push error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Digest subscribers and schedules; email addresses are only visible to operators
+app.get('/api/digest', requireOperator, (req, res) => {
+  res.json({
+    ...digestService.getStatus(),
+    schedules: Object.fromEntries(
+      Object.entries(digestSchedulers).map(([frequency, scheduler]) => [frequency, scheduler.getStatus()])
+    )
+  });
+});
+
+// The digest that would be sent now, e.g. /api/digest/preview?frequency=weekly
+app.get('/api/digest/preview', requireOperator, (req, res) => {
+  try {
+    res.json(digestService.preview(req.query.frequency || 'daily'));
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+app.post('/api/digest/subscribers', requireOperator, (req, res) => {
+  try {
+    res.status(201).json(digestService.addSubscriber(req.body || {}));
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+app.delete('/api/digest/subscribers/:id', requireOperator, (req, res) => {
+  if (!digestService.removeSubscriber(req.params.id)) {
+    return res.status(404).json({ error: 'Subscriber not found' });
+  }
+  res.json({ success: true });
+});
+
+// Send a digest now: to every subscriber of the frequency, or with { "to": "..." } as a test
+app.post('/api/digest/send', requireOperator, async (req, res) => {
+  const { frequency = 'daily', to } = req.body || {};
+  
+  try {
+    const result = await digestService.send(frequency, { to: to || null });
+    res.json({ success: result.failed.length === 0, ...result });
+  } catch (error) {
+    console.error('API /digest/send error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Feed consumers, stale ones first
+app.get('/api/consumers', requireAuthenticatedReader, (req, res) => {
+  const consumers = consumerTracker.list();
+  res.json({
+    staleAfterMinutes: consumerTracker.staleAfterMinutes,
+    total: consumers.length,
+    staleCount: consumers.filter(consumer => consumer.stale).length,
+    consumers
+  });
+});
+
+// Most recent feed requests, newest first
+app.get('/api/consumers/requests', requireAuthenticatedReader, (req, res) => {
+  const limit = Math.max(1, Math.min(200, Number(req.query.limit) || 50));
+  res.json({ requests: consumerTracker.getRecent(limit) });
+});
+
+// Forget a consumer, e.g. a decommissioned firewall
+app.delete('/api/consumers/:id', requireOperator, (req, res) => {
+  if (!consumerTracker.remove(req.params.id)) {
+    return res.status(404).json({ error: 'Consumer not found' });
+  }
+  res.json({ success: true });
+});
+
+const isAggregateRequested = (query) => query.aggregate === 'true' || query.aggregate === '1';
+
+// Geo-filtered EDL feeds, e.g. /edl/ipv4.txt?country=DE,FR or /edl/country/US.txt
+// Any feed accepts ?aggregate=true to collapse adjacent and contained prefixes.
+const sendFilteredFeed = (req, res, family, filter, aggregated = false) => {
+  try {
+    const data = readData();
+    const prefixes = family === 'ipv6' ? data.ipv6Addresses || [] : data.ipAddresses || [];
+    const filtered = filterPrefixesByGeo(prefixes, data.geo, filter);
+    const output = aggregated
+      ? (family === 'ipv6' ? aggregateIPv6(filtered) : aggregateIPv4(filtered))
+      : filtered;
+    
+    sendFeed(req, res, output, { lastModified: data.lastUpdated });
+  } catch (error) {
+    console.error('EDL feed error:', error);
+    res.status(500).type('text/plain').send('Failed to build feed');
+  }
+};
+
+/**
+ * Resolve a point in time given as an ISO timestamp or a date. A date without a time
+ * ("2026-09-01") means the end of that day in UTC, so the list "as of" that day is returned.
+ */
+const parseSnapshotTime = (value) => {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+  
+  const text = value.trim();
+  const time = /^\d{4}-\d{2}-\d{2}$/.test(text)
+    ? new Date(`${text}T23:59:59.999Z`).getTime()
+    : new Date(text).getTime();
+  
+  return Number.isNaN(time) ? null : time;
+};
+
+// Find the changelog entry referenced by an entry id or a point in time
+const resolveHistoryEntry = (reference, store = historyStore) => {
+  const byId = typeof reference === 'string' ? store.get(reference.trim()) : null;
+  if (byId) {
+    return byId;
+  }
+  
+  const time = parseSnapshotTime(reference);
+  return time === null ? null : store.findAt(time);
+};
+
+// Feed of one source: ?at=<date> serves a historical snapshot and ?aggregate=true collapses the list
+const sendSourceFeed = (req, res, state, family) => {
+  const aggregated = isAggregateRequested(req.query);
+  let prefixes;
+  let lastModified;
+  
+  if (req.query.at !== undefined) {
+    if (parseSnapshotTime(req.query.at) === null) {
+      return res.status(400).type('text/plain').send('Invalid "at" timestamp');
+    }
+    
+    const entry = resolveHistoryEntry(req.query.at, state.historyStore);
+    if (!entry) {
+      return res.status(404).type('text/plain').send('No snapshot recorded at or before that time');
+    }
+    
+    prefixes = family === 'ipv6' ? entry.ipv6Addresses || [] : entry.ipAddresses || [];
+    lastModified = entry.date;
+    res.set('X-Snapshot-Date', entry.date);
+  } else {
+    const data = readData(state);
+    prefixes = family === 'ipv6' ? data.ipv6Addresses || [] : data.ipAddresses || [];
+    lastModified = data.lastUpdated;
+  }
+  
+  const output = aggregated
+    ? (family === 'ipv6' ? aggregateIPv6(prefixes) : aggregateIPv4(prefixes))
+    : prefixes;
+  
+  sendFeed(req, res, output, { lastModified });
+};
+
+// The main feeds are built from the data file like every other feed, so they carry the same
+// validators. Before the first update the feed files shipped with the checkout are served.
+const sendMainFeed = (req, res, next, family) => {
+  if (req.query.at === undefined && !readData().lastUpdated) {
+    return next();
+  }
+  sendSourceFeed(req, res, primaryState, family);
+};
+
+// Union of all sources, or of those whose tag is listed in ?tag=a,b
+const sendMergedFeed = (req, res, family) => {
+  try {
+    const tags = typeof req.query.tag === 'string'
+      ? req.query.tag.split(',').map(tag => tag.trim()).filter(Boolean)
+      : [];
+    const merged = new Set();
+    let lastModified = null;
+    
+    for (const state of sourceStates) {
+      if (tags.length === 0 || tags.includes(state.source.tag)) {
+        const data = readData(state);
+        if (data.lastUpdated && (!lastModified || data.lastUpdated > lastModified)) {
+          lastModified = data.lastUpdated;
+        }
+        (family === 'ipv6' ? data.ipv6Addresses || [] : data.ipAddresses || []).forEach(prefix => merged.add(prefix));
+      }
+    }
+    
+    const prefixes = Array.from(merged).sort(family === 'ipv6' ? compareIPv6Cidrs : compareIPv4Cidrs);
+    const output = isAggregateRequested(req.query)
+      ? (family === 'ipv6' ? aggregateIPv6(prefixes) : aggregateIPv4(prefixes))
+      : prefixes;
+    
+    sendFeed(req, res, output, { lastModified });
+  } catch (error) {
+    console.error('Merged feed error:', error);
+    res.status(500).type('text/plain').send('Failed to build feed');
+  }
+};
+
+app.get('/ipv4.txt', (req, res, next) => sendMainFeed(req, res, next, 'ipv4'));
+
+app.get('/ipv6.txt', (req, res, next) => sendMainFeed(req, res, next, 'ipv6'));
+
+app.get('/ipv4-aggregated.txt', (req, res) => {
+  sendFilteredFeed(req, res, 'ipv4', parseGeoFilter(), true);
+});
+
+app.get('/ipv6-aggregated.txt', (req, res) => {
+  sendFilteredFeed(req, res, 'ipv6', parseGeoFilter(), true);
+});
+
+// Geo-filtered feed for `query`. A malformed country code is a 400 and, on the per-country
+// feeds, a country without geofeed entries a 404, so a typo never hands a firewall an empty list.
+const sendGeoFeed = (req, res, family, query, { requireKnownCountries = false } = {}) => {
+  let filter;
+  try {
+    filter = parseGeoFilter(query);
+  } catch (error) {
+    return res.status(400).type('text/plain').send(error.message);
+  }
+  
+  if (requireKnownCountries) {
+    const unknown = findUnknownCountries(filter, readData().geo);
+    if (unknown.length > 0) {
+      return res.status(404).type('text/plain').send(`No prefixes are located in ${unknown.join(', ')}`);
+    }
+  }
+  sendFilteredFeed(req, res, family, filter, isAggregateRequested(req.query));
+};
+
+app.get('/edl/ipv4.txt', (req, res) => sendGeoFeed(req, res, 'ipv4', req.query));
+
+app.get('/edl/ipv6.txt', (req, res) => sendGeoFeed(req, res, 'ipv6', req.query));
+
+app.get('/edl/country/:country.txt', (req, res) => {
+  sendGeoFeed(req, res, 'ipv4', { ...req.query, country: req.params.country }, { requireKnownCountries: true });
+});
+
+app.get('/edl/country/:country/ipv6.txt', (req, res) => {
+  sendGeoFeed(req, res, 'ipv6', { ...req.query, country: req.params.country }, { requireKnownCountries: true });
+});
+
+// Per-source feeds, e.g. /sources/starlink/ipv4.txt
+app.get('/sources/:id/:family(ipv4|ipv6).txt', (req, res) => {
+  const state = findSourceState(req.params.id);
+  
+  if (!state) {
+    return res.status(404).type('text/plain').send(`Unknown source "${req.params.id}"`);
+  }
+  sendSourceFeed(req, res, state, req.params.family);
+});
+
+app.get('/merged/ipv4.txt', (req, res) => sendMergedFeed(req, res, 'ipv4'));
+
+app.get('/merged/ipv6.txt', (req, res) => sendMergedFeed(req, res, 'ipv6'));
+
+// Named feeds, e.g. /feeds/eu-aggregated.txt. The list is rebuilt whenever one of its sources
+// publishes, so the ETag and Last-Modified only change when the feed itself changed.
+app.get('/feeds/:name.txt', (req, res) => {
+  const state = findNamedFeedState(req.params.name);
+  
+  if (!state) {
+    return res.status(404).type('text/plain').send(`Unknown feed "${req.params.name}"`);
+  }
+  
+  const { prefixes, updatedAt } = readNamedFeed(state);
+  sendFeed(req, res, prefixes, { lastModified: updatedAt });
+});
+
+// Export formats for the format picker in the UI
+app.get('/api/exports', (req, res) => {
+  res.json({
+    formats: Object.entries(EXPORT_FORMATS).map(([file, { label, contentType, defaultName }]) => ({
+      file,
+      label,
+      contentType,
+      defaultName,
+      path: `/export/${file}`
+    }))
+  });
+});
+
+// Vendor exports, e.g. /export/fortigate.conf?source=starlink&family=ipv4&aggregate=true&name=STARLINK
+app.get('/export/:file', (req, res) => {
+  if (!EXPORT_FORMATS[req.params.file]) {
+    return res.status(404).type('text/plain').send(`Unknown export format "${req.params.file}"`);
+  }
+  
+  const state = req.query.source ? findSourceState(String(req.query.source)) : primaryState;
+  if (!state) {
+    return res.status(404).type('text/plain').send(`Unknown source "${req.query.source}"`);
+  }
+  
+  const family = req.query.family;
+  if (family && family !== 'ipv4' && family !== 'ipv6') {
+    return res.status(400).type('text/plain').send('family must be ipv4 or ipv6');
+  }
+  
+  try {
+    const data = readData(state);
+    const aggregated = isAggregateRequested(req.query);
+    const ipv4 = family === 'ipv6' ? [] : data.ipAddresses || [];
+    const ipv6 = family === 'ipv4' ? [] : data.ipv6Addresses || [];
+    const lists = {
+      ipv4: aggregated ? aggregateIPv4(ipv4) : ipv4,
+      ipv6: aggregated ? aggregateIPv6(ipv6) : ipv6
+    };
+    
+    let rendered;
+    try {
+      rendered = renderExport(req.params.file, {
+        ...lists,
+        name: typeof req.query.name === 'string' ? req.query.name : null,
+        title: `${state.source.name} prefixes`
+      });
+    } catch (error) {
+      return res.status(400).type('text/plain').send(error.message);
+    }
+    
+    sendFeed(req, res, [...lists.ipv4, ...lists.ipv6], {
+      lastModified: data.lastUpdated,
+      body: rendered.body,
+      contentType: rendered.contentType
+    });
+  } catch (error) {
+    console.error('Export error:', error);
+    res.status(500).type('text/plain').send('Failed to build export');
+  }
+});
+
+// Serve static files from public directory
+app.use(express.static(publicDir));
+
+// Handle React Router - this MUST come last
+app.get('*', (req, res) => {
+  // Don't serve index.html for API routes
+  if (req.path.startsWith('/api/')) {
+    return res.status(404).json({ error: 'API endpoint not found' });
   }
   
   const indexPath = resolve(publicDir, 'index.html');
@@ -239,6 +2157,10 @@ app.get('*', (req, res) => {
 
 // Initialize data file on startup
 initializeDataFile();
+migrateLegacyChangelog();
+syncFeedFiles();
+// The feed config may have changed since the last run
+refreshNamedFeeds();
 
 // Start server
 app.listen(PORT, () => {
@@ -246,13 +2168,72 @@ app.listen(PORT, () => {
   console.log('API endpoints available:');
   console.log(`  GET  http://localhost:${PORT}/api/data`);
   console.log(`  POST http://localhost:${PORT}/api/fetch-data`);
+  console.log(`  POST http://localhost:${PORT}/api/enrich`);
+  console.log(`  GET  http://localhost:${PORT}/api/changelog?page=1&pageSize=10`);
+  console.log(`  GET  http://localhost:${PORT}/api/snapshot?at=<date>`);
+  console.log(`  GET  http://localhost:${PORT}/api/diff?from=<date|id>&to=<date|id>`);
+  console.log(`  GET  http://localhost:${PORT}/api/lookup?ip=<address>`);
+  console.log(`  GET  http://localhost:${PORT}/api/schedule`);
+  console.log(`  GET  http://localhost:${PORT}/api/settings`);
+  console.log(`  GET  http://localhost:${PORT}/api/overrides`);
+  console.log(`  GET  http://localhost:${PORT}/api/sources`);
+  console.log(`  GET  http://localhost:${PORT}/api/feeds`);
+  console.log(`  GET  http://localhost:${PORT}/api/pending`);
+  console.log(`  GET  http://localhost:${PORT}/api/consumers`);
+  console.log(`  GET  http://localhost:${PORT}/api/webhooks`);
+  console.log(`  GET  http://localhost:${PORT}/api/digest`);
+  console.log(`  GET  http://localhost:${PORT}/api/panos`);
+  console.log(`  GET  http://localhost:${PORT}/api/auth/me`);
   console.log(`  GET  http://localhost:${PORT}/api/health`);
+  console.log(`  GET  http://localhost:${PORT}/api/health/upstream`);
+  console.log(`  GET  http://localhost:${PORT}/metrics`);
+  console.log(`  GET  http://localhost:${PORT}/edl/ipv4.txt?country=..&region=..&city=..`);
+  console.log(`  GET  http://localhost:${PORT}/ipv4-aggregated.txt`);
+  console.log(`  GET  http://localhost:${PORT}/sources/<id>/ipv4.txt`);
+  console.log(`  GET  http://localhost:${PORT}/merged/ipv4.txt?tag=..`);
+  console.log(`  GET  http://localhost:${PORT}/feeds/<name>.txt`);
+  console.log(`  GET  http://localhost:${PORT}/export/<format>`);
+  console.log(`Sources: ${sourceStates.map(({ source }) => `${source.id} (${describeLocation(source)})`).join(', ')}`);
+  if (namedFeedStates.length > 0) {
+    console.log(`Named feeds: ${namedFeedStates.map(({ feed }) => feed.name).join(', ')}`);
+  }
   
   // Test data file access
+  let testData = null;
   try {
-    const testData = readData();
+    testData = readData();
     console.log(`Data file ready with ${testData.ipAddresses?.length || 0} IP addresses`);
   } catch (error) {
     console.error('Warning: Data file issue:', error.message);
   }
+
+  refreshScheduler.start();
+  Object.values(digestSchedulers).forEach(scheduler => scheduler.start());
+  
+  // Expired overrides stop applying within a minute, also those that expired while the server was down
+  expireOverrides();
+  setInterval(expireOverrides, 60 * 1000).unref();
+  
+  if (SMTP_HOST) {
+    console.log(`Email digests via ${SMTP_HOST}:${SMTP_PORT}, daily "${DIGEST_DAILY_CRON}", weekly "${DIGEST_WEEKLY_CRON}"`);
+  }
+
+  const refresh = settings.get().refresh;
+  
+  if (refresh.enabled) {
+    const { mode, nextRunAt } = refreshScheduler.getStatus();
+    console.log(`Scheduled refresh (${mode}) enabled, next run at ${nextRunAt}`);
+
+    // Refresh right away if the data has never been fetched or is older than one interval
+    const lastUpdated = testData?.lastUpdated ? new Date(testData.lastUpdated).getTime() : 0;
+    const isStale = !refresh.cron && Date.now() - lastUpdated > refresh.intervalMinutes * 60 * 1000;
+
+    if (!lastUpdated || isStale) {
+      refreshScheduler.runNow('startup').catch(error => {
+        console.error('Startup refresh failed:', error.message);
+      });
+    }
+  } else {
+    console.log('Scheduled refresh disabled');
+  }
 });
\ No newline at end of file
@@ -0,0 +1,203 @@
+// API tokens, basic auth and roles.
+// Credentials live in a JSON file (see config/auth.example.json) that is re-read whenever it
+// changes, so tokens can be added or revoked without a restart. Without that file feeds and
+// read-only routes stay open as in earlier versions, but everything else is only allowed from
+// the server itself.
+
+import { readFileSync, statSync } from 'fs';
+import { timingSafeEqual } from 'crypto';
+
+// Roles in ascending order of privilege; a role includes everything the ones before it may do
+export const ROLES = ['reader', 'operator'];
+
+const hasRole = (identity, role) => ROLES.indexOf(identity.role) >= ROLES.indexOf(role);
+
+// Methods that change state; a page on another site can send these as a plain form post
+const UNSAFE_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+// Sent by the UI with every API call. Other sites cannot add it without a CORS preflight, which
+// only the allowed origins pass.
+export const REQUEST_HEADER = 'X-Requested-With';
+
+const LOOPBACK_PATTERN = /^(127\.\d+\.\d+\.\d+|::1|::ffff:127\.\d+\.\d+\.\d+)$/;
+
+// A request from this host that did not come through a reverse proxy, which would make every
+// client look local
+const isLocalRequest = (req) =>
+  LOOPBACK_PATTERN.test(req.ip || '') && !req.headers['x-forwarded-for'] && !req.headers.forwarded;
+
+const safeEqual = (a, b) => {
+  const left = Buffer.from(String(a));
+  const right = Buffer.from(String(b));
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+const validateCredentials = (entries, secretField, path) =>
+  (Array.isArray(entries) ? entries : []).filter(entry => {
+    if (!entry?.[secretField] || !ROLES.includes(entry.role)) {
+      console.error(`Ignoring ${secretField} entry "${entry?.name || entry?.username || '?'}" in ${path}: ` +
+        `a ${secretField} and a role (${ROLES.join(', ')}) are required`);
+      return false;
+    }
+    return true;
+  });
+
+/**
+ * Create the authenticator for `configPath`. The file holds:
+ *
+ * - `tokens`: `[{ name, token, role }]`, sent as `Authorization: Bearer <token>` or as `?token=` in feed URLs
+ * - `users`: `[{ username, password, role }]` for HTTP basic auth, e.g. from firewalls
+ * - `publicRead`: when true (default) feeds and read-only API routes need no credentials
+ * - `allowedOrigins`: origins allowed to call the API cross-site, `"*"` for any (default none)
+ */
+export const createAuth = ({ configPath }) => {
+  let config = null;
+  let loadedMtime = null;
+
+  const load = () => {
+    let mtime;
+    try {
+      mtime = statSync(configPath).mtimeMs;
+    } catch {
+      if (loadedMtime !== 0) {
+        console.warn(`No auth config at ${configPath}, operator routes are only available from localhost`);
+      }
+      config = null;
+      loadedMtime = 0;
+      return config;
+    }
+
+    if (mtime === loadedMtime) {
+      return config;
+    }
+
+    try {
+      const raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+      config = {
+        tokens: validateCredentials(raw.tokens, 'token', configPath),
+        users: validateCredentials(raw.users, 'password', configPath),
+        publicRead: raw.publicRead !== false,
+        allowedOrigins: Array.isArray(raw.allowedOrigins) ? raw.allowedOrigins : []
+      };
+      console.log(`Loaded ${config.tokens.length} token(s) and ${config.users.length} user(s) from ${configPath}`);
+    } catch (error) {
+      // Keep the previous credentials rather than opening everything up on a bad edit;
+      // with none loaded yet, lock everything until the file is fixed
+      console.error(`Error reading auth config ${configPath}:`, error.message);
+      config = config ?? { tokens: [], users: [], publicRead: false, allowedOrigins: [] };
+    }
+
+    loadedMtime = mtime;
+    return config;
+  };
+
+  // Identity of the request's credentials, null when there are none or they do not match.
+  // `?token=` ends up in access logs and Referer headers, so only feed routes accept it.
+  const authenticate = (req, { allowQueryToken = false } = {}) => {
+    const current = load();
+    if (!current) {
+      return null;
+    }
+
+    const header = req.headers.authorization || '';
+    const [scheme, value = ''] = header.split(' ');
+
+    if (/^bearer$/i.test(scheme) || (!header && allowQueryToken && typeof req.query?.token === 'string')) {
+      const token = header ? value.trim() : req.query.token;
+      const match = current.tokens.find(entry => safeEqual(entry.token, token));
+      return match ? { name: match.name || 'token', role: match.role } : null;
+    }
+
+    if (/^basic$/i.test(scheme)) {
+      const decoded = Buffer.from(value, 'base64').toString('utf-8');
+      const separator = decoded.indexOf(':');
+      const username = decoded.slice(0, separator);
+      const password = decoded.slice(separator + 1);
+      const match = separator > 0 && current.users.find(entry =>
+        entry.username === username && safeEqual(entry.password, password)
+      );
+      return match ? { name: match.username, role: match.role } : null;
+    }
+
+    return null;
+  };
+
+  /**
+   * Middleware that lets requests through only for `role` or higher. Readers need no credentials
+   * with `publicRead` unless `allowPublic` is false, e.g. for listings of client addresses.
+   * `allowQueryToken` accepts `?token=` for firewalls that cannot send headers, feeds only.
+   * Without an auth config the routes open to the public stay open and the others are only
+   * allowed from localhost, so a missing file never exposes operator actions.
+   */
+  const requireRole = (role, { allowPublic = true, allowQueryToken = false } = {}) => (req, res, next) => {
+    const current = load();
+    const publicRoute = role === 'reader' && allowPublic;
+
+    if (!current) {
+      if (publicRoute || isLocalRequest(req)) {
+        return next();
+      }
+      return res.status(403).json({ error: 'Authentication is not configured, this route is only available from localhost' });
+    }
+    if (publicRoute && current.publicRead) {
+      return next();
+    }
+
+    const identity = authenticate(req, { allowQueryToken });
+    if (!identity) {
+      res.set('WWW-Authenticate', 'Basic realm="Starlink EDL"');
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    if (!hasRole(identity, role)) {
+      return res.status(403).json({ error: `The ${role} role is required` });
+    }
+
+    req.identity = identity;
+    next();
+  };
+
+  // What the current credentials allow, for the UI login flow
+  const describe = (req) => {
+    const current = load();
+    const identity = current ? authenticate(req) : null;
+
+    return {
+      authEnabled: Boolean(current),
+      publicRead: current ? current.publicRead : true,
+      authenticated: Boolean(identity),
+      name: identity?.name ?? null,
+      role: current ? identity?.role ?? null : isLocalRequest(req) ? 'operator' : 'reader'
+    };
+  };
+
+  // Value for Access-Control-Allow-Origin, null when the origin may not call the API. This only
+  // decides which sites may read responses and send non-simple requests; see rejectCrossSite.
+  const allowedOrigin = (origin) => {
+    const origins = load()?.allowedOrigins ?? [];
+    if (origins.includes('*')) {
+      return '*';
+    }
+    return origin && origins.includes(origin) ? origin : null;
+  };
+
+  /**
+   * Middleware against cross-site request forgery. CORS does not stop a page on another site from
+   * submitting a form to the API: the browser adds cached basic auth credentials, and from a
+   * browser on the server itself the request counts as local. Browsers send an Origin header with
+   * those requests: one from an origin that is not allowed needs REQUEST_HEADER, which only the
+   * UI and allowed origins can send. Clients outside a browser send no Origin and pass.
+   */
+  const rejectCrossSite = (req, res, next) => {
+    if (!UNSAFE_METHODS.has(req.method) || !req.headers.origin || req.get(REQUEST_HEADER)) {
+      return next();
+    }
+    if (allowedOrigin(req.headers.origin)) {
+      return next();
+    }
+    res.status(403).json({ error: `Cross-site requests need the ${REQUEST_HEADER} header` });
+  };
+
+  load();
+
+  return { requireRole, describe, allowedOrigin, rejectCrossSite };
+};
@@ -0,0 +1,131 @@
+// CIDR math for summarizing prefix lists and cutting ranges out of them.
+// Prefixes are turned into address ranges, merged where they overlap or touch, and the merged
+// ranges are split back into the fewest CIDR blocks that cover exactly the same addresses.
+
+import { parseIPv6Cidr, formatIPv6 } from '../shared/ipv6.js';
+import { parseIPv4Cidr, formatIPv4 } from '../shared/ipv4.js';
+
+const parseIPv4Range = (cidr) => {
+  const parsed = parseIPv4Cidr(cidr);
+  if (!parsed) {
+    return null;
+  }
+
+  const start = BigInt(parsed.network);
+  return { start, end: start + (1n << (32n - BigInt(parsed.prefixLength))) - 1n };
+};
+
+const parseIPv6Range = (cidr) => {
+  const parsed = parseIPv6Cidr(cidr);
+  if (!parsed) {
+    return null;
+  }
+
+  const hostBits = 128n - BigInt(parsed.prefixLength);
+  return { start: parsed.network, end: parsed.network + (1n << hostBits) - 1n };
+};
+
+// Merge overlapping and adjacent ranges; contained ranges disappear into their parent
+const mergeRanges = (ranges) => {
+  const sorted = [...ranges].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+  const merged = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1n) {
+      if (range.end > last.end) {
+        last.end = range.end;
+      }
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+};
+
+// Split an address range into the smallest set of aligned CIDR blocks
+const rangeToCidrs = ({ start, end }, bits, format) => {
+  const cidrs = [];
+  let current = start;
+
+  while (current <= end) {
+    // The largest block that starts here is limited by the alignment of `current`...
+    let hostBits = 0n;
+    while (hostBits < bits && ((current >> hostBits) & 1n) === 0n) {
+      hostBits++;
+    }
+    // ...and by the end of the range
+    while (current + (1n << hostBits) - 1n > end) {
+      hostBits--;
+    }
+
+    cidrs.push(`${format(current)}/${bits - hostBits}`);
+    current += 1n << hostBits;
+  }
+
+  return cidrs;
+};
+
+const aggregate = (prefixes, parseRange, bits, format) => {
+  const ranges = prefixes.map(parseRange).filter(Boolean);
+  return mergeRanges(ranges).flatMap(range => rangeToCidrs(range, bits, format));
+};
+
+/**
+ * Collapse a list of IPv4 prefixes into the minimal equivalent list, e.g.
+ * ["10.0.0.0/24", "10.0.1.0/24", "10.0.1.128/25"] becomes ["10.0.0.0/23"].
+ * Invalid entries are skipped. The result is sorted numerically.
+ */
+export const aggregateIPv4 = (prefixes) =>
+  aggregate(prefixes, parseIPv4Range, 32n, value => formatIPv4(Number(value)));
+
+// IPv6 counterpart of aggregateIPv4, producing canonical RFC 5952 prefixes
+export const aggregateIPv6 = (prefixes) => aggregate(prefixes, parseIPv6Range, 128n, formatIPv6);
+
+// What is left of `range` after removing the sorted, merged `excluded` ranges
+const subtractRanges = (range, excluded) => {
+  const remaining = [];
+  let start = range.start;
+
+  for (const hole of excluded) {
+    if (hole.end < start || hole.start > range.end) {
+      continue;
+    }
+    if (hole.start > start) {
+      remaining.push({ start, end: hole.start - 1n });
+    }
+    start = hole.end + 1n;
+    if (start > range.end) {
+      return remaining;
+    }
+  }
+
+  remaining.push({ start, end: range.end });
+  return remaining;
+};
+
+const exclude = (prefixes, excludedPrefixes, parseRange, bits, format) => {
+  const excluded = mergeRanges(excludedPrefixes.map(parseRange).filter(Boolean));
+
+  return new Map(prefixes.map(prefix => {
+    const range = parseRange(prefix);
+    if (!range || !excluded.some(hole => hole.start <= range.end && hole.end >= range.start)) {
+      return [prefix, [prefix]];
+    }
+    return [prefix, subtractRanges(range, excluded).flatMap(rest => rangeToCidrs(rest, bits, format))];
+  }));
+};
+
+/**
+ * Remove the addresses of `excludedPrefixes` from each of `prefixes`. Returns a map from every
+ * prefix to what is left of it: the prefix itself when it does not overlap, nothing when it is
+ * covered completely, and the remaining CIDR blocks when it is split, e.g. excluding
+ * 10.0.1.0/24 from 10.0.0.0/22 leaves ["10.0.0.0/24", "10.0.2.0/23"].
+ */
+export const excludeIPv4 = (prefixes, excludedPrefixes) =>
+  exclude(prefixes, excludedPrefixes, parseIPv4Range, 32n, value => formatIPv4(Number(value)));
+
+// IPv6 counterpart of excludeIPv4
+export const excludeIPv6 = (prefixes, excludedPrefixes) =>
+  exclude(prefixes, excludedPrefixes, parseIPv6Range, 128n, formatIPv6);
@@ -0,0 +1,172 @@
+// Feed consumer tracking.
+// Every feed request is recorded per consumer (client IP and User-Agent), so firewalls that
+// stopped polling stand out. The aggregated table is kept in memory and written to disk
+// periodically; the most recent requests are kept in memory only.
+
+import { readFileSync, existsSync } from 'fs';
+import { createHash } from 'crypto';
+import { writeFileAtomic } from './storage.js';
+
+// A consumer is also stale when it missed about three of its usual polls
+const MISSED_POLLS = 3;
+
+// Smoothing factor of the poll interval estimate, recent gaps weigh more
+const INTERVAL_SMOOTHING = 0.3;
+
+const toConsumerId = (ip, userAgent) =>
+  createHash('sha256').update(`${ip}\n${userAgent}`).digest('hex').slice(0, 16);
+
+/**
+ * Create a consumer tracker persisted to `filePath`.
+ *
+ * `staleAfterMinutes` is the minimum silence before a consumer counts as stale; consumers with a
+ * longer poll interval get three of their intervals. `maxConsumers` caps the table (the least
+ * recently seen are dropped), `recentLimit` the in-memory request log and `flushIntervalMs` how
+ * often changes are written.
+ */
+export const createConsumerTracker = ({
+  filePath,
+  staleAfterMinutes = 60,
+  maxConsumers = 1000,
+  recentLimit = 200,
+  flushIntervalMs = 30 * 1000
+}) => {
+  const consumers = new Map();
+  const recent = [];
+  let dirty = false;
+
+  const load = () => {
+    if (!existsSync(filePath)) {
+      return;
+    }
+    try {
+      const saved = JSON.parse(readFileSync(filePath, 'utf-8'));
+      for (const consumer of Array.isArray(saved.consumers) ? saved.consumers : []) {
+        consumers.set(consumer.id, consumer);
+      }
+    } catch (error) {
+      console.error(`Ignoring unreadable consumer file ${filePath}:`, error.message);
+    }
+  };
+
+  const flush = () => {
+    if (!dirty) {
+      return;
+    }
+    try {
+      writeFileAtomic(filePath, JSON.stringify({ consumers: Array.from(consumers.values()) }, null, 2));
+      dirty = false;
+    } catch (error) {
+      console.error('Error writing consumer file:', error);
+    }
+  };
+
+  const dropLeastRecentlySeen = () => {
+    while (consumers.size > maxConsumers) {
+      let oldest = null;
+      for (const consumer of consumers.values()) {
+        if (!oldest || consumer.lastSeen < oldest.lastSeen) {
+          oldest = consumer;
+        }
+      }
+      consumers.delete(oldest.id);
+    }
+  };
+
+  /**
+   * Record one feed request: `{ ip, userAgent, path, route, status, etag }`. Only successful and
+   * not-modified responses count as a poll; failures (e.g. 401) are tracked separately. The
+   * per-consumer counts are keyed by `route`, the route template, so they stay bounded whatever
+   * paths a client requests.
+   */
+  const record = ({ ip: rawIp, userAgent, path, route = 'unmatched', status, etag, at = new Date() }) => {
+    const date = at.toISOString();
+    // IPv4 clients of a dual-stack socket show up as IPv4-mapped IPv6 addresses
+    const ip = (rawIp || '').replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '');
+    const agent = userAgent || '';
+    const id = toConsumerId(ip, agent);
+    const polled = status < 400;
+    // Error responses carry no feed version
+    const servedETag = polled ? etag || null : null;
+
+    recent.unshift({ date, ip, userAgent: agent, path, status, etag: servedETag, consumerId: id });
+    recent.length = Math.min(recent.length, recentLimit);
+
+    const consumer = consumers.get(id) || {
+      id,
+      ip,
+      userAgent: agent,
+      firstSeen: date,
+      lastSeen: null,
+      lastPolled: null,
+      pollIntervalSeconds: null,
+      requests: 0,
+      failures: 0,
+      lastStatus: null,
+      lastPath: null,
+      lastETag: null,
+      paths: {}
+    };
+
+    if (polled) {
+      if (consumer.lastPolled) {
+        const gapSeconds = Math.max(0, (at.getTime() - new Date(consumer.lastPolled).getTime()) / 1000);
+        consumer.pollIntervalSeconds = consumer.pollIntervalSeconds === null
+          ? Math.round(gapSeconds)
+          : Math.round((1 - INTERVAL_SMOOTHING) * consumer.pollIntervalSeconds + INTERVAL_SMOOTHING * gapSeconds);
+      }
+      consumer.lastPolled = date;
+      consumer.lastETag = servedETag || consumer.lastETag;
+    } else {
+      consumer.failures += 1;
+    }
+
+    consumer.lastSeen = date;
+    consumer.requests += 1;
+    consumer.lastStatus = status;
+    consumer.lastPath = path;
+    consumer.paths[route] = (consumer.paths[route] || 0) + 1;
+
+    consumers.set(id, consumer);
+    dropLeastRecentlySeen();
+    dirty = true;
+  };
+
+  // Stale once silent for longer than the threshold or about three of its usual poll intervals
+  const withStatus = (consumer, now) => {
+    const expectedSeconds = Math.max(staleAfterMinutes * 60, MISSED_POLLS * (consumer.pollIntervalSeconds || 0));
+    const lastPolled = consumer.lastPolled ? new Date(consumer.lastPolled).getTime() : null;
+    const silentSeconds = lastPolled === null ? null : Math.round((now - lastPolled) / 1000);
+
+    return {
+      ...consumer,
+      silentSeconds,
+      stale: silentSeconds === null || silentSeconds > expectedSeconds
+    };
+  };
+
+  // All consumers, stale ones first and otherwise most recently seen first
+  const list = (now = Date.now()) =>
+    Array.from(consumers.values())
+      .map(consumer => withStatus(consumer, now))
+      .sort((a, b) => Number(b.stale) - Number(a.stale) || b.lastSeen.localeCompare(a.lastSeen));
+
+  const getRecent = (limit = recentLimit) => recent.slice(0, limit);
+
+  const remove = (id) => {
+    const removed = consumers.delete(id);
+    if (removed) {
+      dirty = true;
+      flush();
+    }
+    return removed;
+  };
+
+  load();
+
+  const timer = setInterval(flush, flushIntervalMs);
+  // Do not keep the process alive just to flush
+  timer.unref();
+
+  return { record, list, getRecent, remove, flush, staleAfterMinutes };
+};
@@ -0,0 +1,319 @@
+// Email digest of prefix changes.
+// A daily or weekly summary per subscriber: prefixes added and removed in the period (start
+// snapshot against end snapshot of the changelog), the net count change and the upstream
+// failures recorded in the period. Sent through an SMTP relay with HTML and plain-text bodies.
+
+import { readFileSync, existsSync } from 'fs';
+import { randomUUID } from 'crypto';
+import nodemailer from 'nodemailer';
+import { writeFileAtomic } from './storage.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Length of the period covered by a digest, in days
+export const DIGEST_FREQUENCIES = { daily: 1, weekly: 7 };
+
+// Failures older than the longest period are never reported again
+const FAILURE_RETENTION_MS = 8 * DAY_MS;
+
+// Longer lists are cut in the email, the changelog in the UI has the rest
+const MAX_LISTED_PREFIXES = 200;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const escapeHtml = (text) =>
+  String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Prefixes in `after` but not in `before`
+const difference = (after, before) => {
+  const known = new Set(before);
+  return after.filter(prefix => !known.has(prefix));
+};
+
+/**
+ * Changes of one source between `from` and `to`, comparing the snapshot that was current at
+ * the start of the period with the one current at its end. A prefix added and removed again
+ * within the period does not show up.
+ */
+const summarizeSource = ({ source, historyStore }, from, to) => {
+  const start = historyStore.findAt(from.getTime());
+  const end = historyStore.findAt(to.getTime());
+  const before = { ipv4: start?.ipAddresses || [], ipv6: start?.ipv6Addresses || [] };
+  const after = { ipv4: end?.ipAddresses || [], ipv6: end?.ipv6Addresses || [] };
+
+  return {
+    source: { id: source.id, name: source.name },
+    changes: historyStore.listBetween(from.getTime(), to.getTime()).length,
+    ipv4: {
+      added: difference(after.ipv4, before.ipv4),
+      removed: difference(before.ipv4, after.ipv4),
+      before: before.ipv4.length,
+      after: after.ipv4.length
+    },
+    ipv6: {
+      added: difference(after.ipv6, before.ipv6),
+      removed: difference(before.ipv6, after.ipv6),
+      before: before.ipv6.length,
+      after: after.ipv6.length
+    }
+  };
+};
+
+const formatNet = (family) => {
+  const net = family.after - family.before;
+  return `${net > 0 ? '+' : ''}${net} (${family.before} → ${family.after})`;
+};
+
+const listForText = (prefixes) => {
+  const lines = prefixes.slice(0, MAX_LISTED_PREFIXES).map(prefix => `    ${prefix}`);
+  if (prefixes.length > MAX_LISTED_PREFIXES) {
+    lines.push(`    ... and ${prefixes.length - MAX_LISTED_PREFIXES} more`);
+  }
+  return lines;
+};
+
+const listForHtml = (prefixes, color) => {
+  const items = prefixes.slice(0, MAX_LISTED_PREFIXES).map(prefix => `<li style="font-family:monospace;color:${color}">${escapeHtml(prefix)}</li>`);
+  if (prefixes.length > MAX_LISTED_PREFIXES) {
+    items.push(`<li>... and ${prefixes.length - MAX_LISTED_PREFIXES} more</li>`);
+  }
+  return `<ul style="margin:4px 0 12px">${items.join('')}</ul>`;
+};
+
+/**
+ * Render a digest as `{ subject, text, html }`.
+ */
+export const renderDigest = (digest) => {
+  const period = `${digest.from.slice(0, 16).replace('T', ' ')} to ${digest.to.slice(0, 16).replace('T', ' ')} UTC`;
+  const changed = digest.sources.filter(summary => summary.changes > 0).length;
+  const failed = digest.failures.length;
+  const subject = [
+    `Starlink EDL ${digest.frequency} digest: `,
+    changed > 0 ? `${changed} source${changed === 1 ? '' : 's'} changed` : 'no changes',
+    failed > 0 ? `, ${failed} failed fetch${failed === 1 ? '' : 'es'}` : ''
+  ].join('');
+
+  const text = [subject, `Period: ${period}`, ''];
+  const html = [
+    `<div style="font-family:Arial,sans-serif;font-size:14px;color:#111">`,
+    `<h2 style="margin:0 0 4px">Starlink EDL ${escapeHtml(digest.frequency)} digest</h2>`,
+    `<p style="color:#555;margin:0 0 16px">${escapeHtml(period)}</p>`
+  ];
+
+  for (const summary of digest.sources) {
+    const { ipv4, ipv6 } = summary;
+    text.push(`${summary.source.name}: ${summary.changes} change${summary.changes === 1 ? '' : 's'}`);
+    text.push(`  IPv4 net ${formatNet(ipv4)}, IPv6 net ${formatNet(ipv6)}`);
+    html.push(`<h3 style="margin:16px 0 4px">${escapeHtml(summary.source.name)}</h3>`);
+    html.push(`<p style="margin:0 0 8px">${summary.changes} change${summary.changes === 1 ? '' : 's'} &middot; IPv4 net ${escapeHtml(formatNet(ipv4))} &middot; IPv6 net ${escapeHtml(formatNet(ipv6))}</p>`);
+
+    for (const [label, prefixes, color] of [
+      ['Added IPv4', ipv4.added, '#15803d'],
+      ['Removed IPv4', ipv4.removed, '#b91c1c'],
+      ['Added IPv6', ipv6.added, '#15803d'],
+      ['Removed IPv6', ipv6.removed, '#b91c1c']
+    ]) {
+      if (prefixes.length > 0) {
+        text.push(`  ${label} (${prefixes.length}):`, ...listForText(prefixes));
+        html.push(`<strong>${label} (${prefixes.length})</strong>${listForHtml(prefixes, color)}`);
+      }
+    }
+    text.push('');
+  }
+
+  text.push(`Upstream failures: ${failed}`);
+  html.push(`<h3 style="margin:16px 0 4px">Upstream failures: ${failed}</h3>`);
+  if (failed > 0) {
+    text.push(...digest.failures.map(failure => `  ${failure.date} ${failure.source}: ${failure.error}`));
+    html.push(`<ul>${digest.failures.map(failure =>
+      `<li>${escapeHtml(failure.date)} <strong>${escapeHtml(failure.source)}</strong>: ${escapeHtml(failure.error)}</li>`
+    ).join('')}</ul>`);
+  }
+  html.push('</div>');
+
+  return { subject, text: `${text.join('\n')}\n`, html: html.join('\n') };
+};
+
+/**
+ * Create the digest service. Subscribers (with the end of the last period each one received),
+ * recorded failures and the time of the last send per frequency are kept in `filePath`. `getSources()` returns `[{ source, historyStore }]`.
+ * `smtp` is `{ host, port, secure, username, password }`; without a host nothing can be sent.
+ * `sender` is the From address.
+ */
+export const createDigestService = ({ filePath, getSources, smtp = {}, sender }) => {
+  let state = { subscribers: [], failures: [], lastSent: {} };
+
+  if (existsSync(filePath)) {
+    try {
+      state = { ...state, ...JSON.parse(readFileSync(filePath, 'utf-8')) };
+    } catch (error) {
+      console.error(`Ignoring unreadable digest file ${filePath}:`, error.message);
+    }
+  }
+
+  const save = () => writeFileAtomic(filePath, JSON.stringify(state, null, 2));
+
+  const transport = smtp.host
+    ? nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      ...(smtp.username && { auth: { user: smtp.username, pass: smtp.password } })
+    })
+    : null;
+
+  const addSubscriber = ({ email, frequency }) => {
+    const address = typeof email === 'string' ? email.trim().toLowerCase() : '';
+
+    if (!EMAIL_PATTERN.test(address)) {
+      throw new Error('A valid email address is required');
+    }
+    if (!DIGEST_FREQUENCIES[frequency]) {
+      throw new Error(`frequency must be one of ${Object.keys(DIGEST_FREQUENCIES).join(', ')}`);
+    }
+    if (state.subscribers.some(subscriber => subscriber.email === address && subscriber.frequency === frequency)) {
+      throw new Error(`${address} already receives the ${frequency} digest`);
+    }
+
+    const subscriber = {
+      id: randomUUID(),
+      email: address,
+      frequency,
+      createdAt: new Date().toISOString(),
+      lastSentAt: null,
+      lastError: null
+    };
+    state.subscribers.push(subscriber);
+    save();
+    return subscriber;
+  };
+
+  const removeSubscriber = (id) => {
+    const count = state.subscribers.length;
+    state.subscribers = state.subscribers.filter(subscriber => subscriber.id !== id);
+    if (state.subscribers.length === count) {
+      return false;
+    }
+    save();
+    return true;
+  };
+
+  const recordFailure = ({ source, error, date = new Date().toISOString() }) => {
+    const cutoff = Date.now() - FAILURE_RETENTION_MS;
+    state.failures = [...state.failures, { date, source, error }]
+      .filter(failure => new Date(failure.date).getTime() >= cutoff);
+    save();
+  };
+
+  // The period starts where the last digest the subscriber received ended, so nothing is skipped
+  // when a send was missed or failed. Without a subscriber (preview, test send), or for one that
+  // never received a digest, it starts at the last send of the frequency; the first covers one period.
+  const periodStart = (frequency, now, subscriber = null) => {
+    const last = subscriber?.lastSentAt ?? state.lastSent[frequency];
+    return last ? new Date(last) : new Date(now.getTime() - DIGEST_FREQUENCIES[frequency] * DAY_MS);
+  };
+
+  const build = (frequency, now = new Date(), subscriber = null) => {
+    if (!DIGEST_FREQUENCIES[frequency]) {
+      throw new Error(`frequency must be one of ${Object.keys(DIGEST_FREQUENCIES).join(', ')}`);
+    }
+
+    const start = periodStart(frequency, now, subscriber);
+
+    return {
+      frequency,
+      from: start.toISOString(),
+      to: now.toISOString(),
+      sources: getSources().map(entry => summarizeSource(entry, start, now)),
+      failures: state.failures.filter(failure => {
+        const time = new Date(failure.date).getTime();
+        return time > start.getTime() && time <= now.getTime();
+      })
+    };
+  };
+
+  const preview = (frequency) => {
+    const digest = build(frequency);
+    return { ...digest, ...renderDigest(digest) };
+  };
+
+  /**
+   * Send the digest of `frequency` to its subscribers, or only to `to` (a test send, which does
+   * not move any period forward). Each subscriber's period only moves forward when it got the
+   * digest; one whose send failed keeps its period open and records the error as `lastError`.
+   * Resolves with `{ sent, failed }` recipient lists.
+   */
+  const send = async (frequency, { to = null } = {}) => {
+    if (!transport) {
+      throw new Error('SMTP is not configured, set SMTP_HOST');
+    }
+    if (to && !EMAIL_PATTERN.test(to)) {
+      throw new Error('A valid email address is required');
+    }
+    if (!DIGEST_FREQUENCIES[frequency]) {
+      throw new Error(`frequency must be one of ${Object.keys(DIGEST_FREQUENCIES).join(', ')}`);
+    }
+
+    const now = new Date();
+    const recipients = to
+      ? [{ email: to }]
+      : state.subscribers.filter(subscriber => subscriber.frequency === frequency);
+    // Subscribers behind after a failed send get a longer period; each period is rendered once
+    const rendered = new Map();
+    const sent = [];
+    const failed = [];
+
+    // One message per recipient so subscribers do not see each other
+    for (const recipient of recipients) {
+      const subscriber = to ? null : recipient;
+      const start = periodStart(frequency, now, subscriber).toISOString();
+      if (!rendered.has(start)) {
+        const digest = build(frequency, now, subscriber);
+        rendered.set(start, { digest, ...renderDigest(digest) });
+      }
+      const { digest, subject, text, html } = rendered.get(start);
+
+      try {
+        await transport.sendMail({ from: sender, to: recipient.email, subject, text, html });
+        sent.push(recipient.email);
+        if (subscriber) {
+          subscriber.lastSentAt = digest.to;
+          subscriber.lastError = null;
+        }
+      } catch (error) {
+        console.error(`Failed to send ${frequency} digest to ${recipient.email}:`, error.message);
+        failed.push({ email: recipient.email, error: error.message });
+        if (subscriber) {
+          // Pinned, so the period stays open even when the last send of the frequency moves on
+          subscriber.lastSentAt = digest.from;
+          subscriber.lastError = { date: now.toISOString(), error: error.message };
+        }
+      }
+    }
+
+    if (!to) {
+      if (sent.length > 0 || recipients.length === 0) {
+        state.lastSent[frequency] = now.toISOString();
+      }
+      save();
+    }
+
+    console.log(`Sent ${frequency} digest to ${sent.length} of ${recipients.length} recipient(s)`);
+    if (!to && failed.length > 0) {
+      console.warn(`${failed.length} ${frequency} digest recipient(s) failed, their period stays open until a send succeeds`);
+    }
+
+    // The earliest period start when subscribers were at different points
+    const from = Array.from(rendered.keys()).sort()[0] ?? periodStart(frequency, now).toISOString();
+    return { frequency, from, to: now.toISOString(), sent, failed };
+  };
+
+  const getStatus = () => ({
+    smtpConfigured: Boolean(transport),
+    sender,
+    subscribers: state.subscribers,
+    lastSent: state.lastSent
+  });
+
+  return { addSubscriber, removeSubscriber, recordFailure, preview, send, getStatus };
+};
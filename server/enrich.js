@@ -0,0 +1,251 @@
+// Log enrichment: tag the addresses in an uploaded CSV or plain-text log with whether they are
+// in the published prefixes, and which prefix and location matched. Works line by line on a
+// stream, so files of hundreds of MB never have to fit in memory; only one line (or one CSV
+// record whose quoted fields span lines) is buffered.
+
+import { Transform } from 'stream';
+import { StringDecoder } from 'string_decoder';
+
+export const ENRICH_FORMATS = ['csv', 'text'];
+
+// Longer lines and CSV records are rejected, a file without line breaks would otherwise be buffered whole
+const MAX_LINE_LENGTH = 1024 * 1024;
+
+// Characters around addresses in free-form log lines, e.g. "src=98.97.12.34" or "[2a0d::1]:443"
+const TOKEN_SEPARATOR_PATTERN = /[\s,;"'()[\]<>=|]+/;
+const IPV4_WITH_PORT_PATTERN = /^(\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}):\d+$/;
+
+// Fields of one CSV line and whether it ends inside a quoted field, which then continues on the
+// next line; quoted fields may contain the delimiter, line breaks and "" for a quote
+const scanCsvLine = (line, delimiter) => {
+  const fields = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return { fields, quoted };
+};
+
+// Split one CSV record, which may span lines
+export const splitCsvLine = (line, delimiter = ',') => scanCsvLine(line, delimiter).fields;
+
+const formatCsvField = (value, delimiter) =>
+  value.includes('"') || value.includes(delimiter) || /[\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const describeLocation = (geo) => (geo ? [geo.city, geo.region, geo.country].filter(Boolean).join(', ') : '');
+
+// Candidate addresses of a free-form line, in order of appearance and without duplicates
+const extractAddresses = (line) => {
+  const addresses = new Set();
+
+  for (const token of line.split(TOKEN_SEPARATOR_PATTERN)) {
+    if (token.includes('.') || token.includes(':')) {
+      addresses.add(token.match(IPV4_WITH_PORT_PATTERN)?.[1] ?? token);
+    }
+  }
+  return Array.from(addresses);
+};
+
+/**
+ * Create the transform that enriches a log. `lookup(address)` returns `{ match, prefix, geo }`,
+ * or `{ error }` when the text is not an address.
+ *
+ * - `csv`: the first line is the header. Each column listed in `columns` (header names,
+ *   case-insensitive) gets three columns appended: `<name>_starlink` (yes/no), `<name>_starlink_prefix`
+ *   and `<name>_starlink_location`. Without `columns`, the columns holding an address in the first
+ *   data row are used.
+ * - `text`: every line gets a tab and `starlink="<address> in <prefix> (<location>); ..."` listing
+ *   the matched addresses, or `starlink=no`.
+ *
+ * Lines are otherwise passed through unchanged, including their line endings. `stats` counts
+ * the lines and matched addresses once the stream has ended.
+ */
+export const createEnrichStream = ({ lookup, format = 'csv', columns = [], delimiter = ',' }) => {
+  const decoder = new StringDecoder('utf8');
+  const stats = { lines: 0, addresses: 0, matched: 0 };
+  let buffered = '';
+  let header = null;
+  let targets = null;
+  // CSV record read so far while a quoted field holds line breaks, with its first line number
+  let openRecord = null;
+
+  const check = (value) => {
+    const result = value ? lookup(value) : null;
+    if (!result || result.error) {
+      return null;
+    }
+    stats.addresses++;
+    if (result.match) {
+      stats.matched++;
+    }
+    return result;
+  };
+
+  const resolveColumns = (fields) => {
+    if (columns.length === 0) {
+      return fields.flatMap((value, index) => (value && !lookup(value.trim()).error ? [index] : []));
+    }
+
+    const names = header.map(name => name.trim().toLowerCase());
+    return columns.map(column => {
+      const index = names.indexOf(column.trim().toLowerCase());
+      if (index === -1) {
+        throw new Error(`Column "${column}" is not in the CSV header`);
+      }
+      return index;
+    });
+  };
+
+  const headerLine = () => [
+    header.line,
+    ...targets.flatMap(index => {
+      const name = header[index].trim() || `column${index + 1}`;
+      return [`${name}_starlink`, `${name}_starlink_prefix`, `${name}_starlink_location`];
+    }).map(name => formatCsvField(name, delimiter))
+  ].join(delimiter);
+
+  // Output for one CSV line. Without `columns` the header and any blank lines after it are held
+  // back until the first data row shows which columns hold addresses.
+  const enrichCsvLine = (line, ending, terminator) => {
+    const fields = splitCsvLine(line, delimiter);
+
+    if (!header) {
+      header = Object.assign(fields, { line, ending, terminator, held: [] });
+      if (columns.length > 0) {
+        targets = resolveColumns(fields);
+        return `${headerLine()}${ending}${terminator}`;
+      }
+      return '';
+    }
+
+    let output = '';
+    if (!targets) {
+      targets = resolveColumns(fields);
+      output = `${headerLine()}${header.ending}${header.terminator}${header.held.join('')}`;
+    }
+
+    const added = targets.flatMap(index => {
+      const result = check((fields[index] || '').trim());
+      if (!result) {
+        return ['', '', ''];
+      }
+      return [result.match ? 'yes' : 'no', result.prefix || '', describeLocation(result.geo)];
+    });
+
+    return `${output}${[line, ...added.map(value => formatCsvField(value, delimiter))].join(delimiter)}${ending}${terminator}`;
+  };
+
+  const enrichTextLine = (line) => {
+    const matches = extractAddresses(line)
+      .map(address => ({ address, result: check(address) }))
+      .filter(({ result }) => result?.match)
+      .map(({ address, result }) => {
+        const location = describeLocation(result.geo);
+        return `${address} in ${result.prefix}${location ? ` (${location})` : ''}`;
+      });
+
+    return `${line}\tstarlink=${matches.length > 0 ? `"${matches.join('; ').replace(/"/g, "'")}"` : 'no'}`;
+  };
+
+  // Enriched text of one line including its line ending; `terminator` is "\n" or "" for the last line.
+  // A CSV line ending inside a quoted field is held back and processed with the rest of its record.
+  const processLine = (text, terminator) => {
+    stats.lines++;
+
+    let rawLine = text;
+    if (format === 'csv') {
+      rawLine = openRecord ? `${openRecord.text}\n${text}` : text;
+      if (scanCsvLine(rawLine, delimiter).quoted) {
+        if (rawLine.length > MAX_LINE_LENGTH) {
+          throw new Error(`The record starting on line ${openRecord?.line ?? stats.lines} is longer than ${MAX_LINE_LENGTH} characters`);
+        }
+        openRecord = { text: rawLine, line: openRecord?.line ?? stats.lines };
+        return '';
+      }
+      openRecord = null;
+    }
+
+    const ending = rawLine.endsWith('\r') ? '\r' : '';
+    const line = ending ? rawLine.slice(0, -1) : rawLine;
+
+    // Blank lines have nothing to tag and are kept as they are
+    if (line.trim() === '') {
+      if (header && !targets) {
+        header.held.push(`${rawLine}${terminator}`);
+        return '';
+      }
+      return `${rawLine}${terminator}`;
+    }
+
+    return format === 'csv' ? enrichCsvLine(line, ending, terminator) : `${enrichTextLine(line)}${ending}${terminator}`;
+  };
+
+  const stream = new Transform({
+    transform(chunk, encoding, callback) {
+      try {
+        buffered += decoder.write(chunk);
+        const lines = buffered.split('\n');
+        buffered = lines.pop();
+
+        if (buffered.length > MAX_LINE_LENGTH) {
+          throw new Error(`Line ${stats.lines + lines.length + 1} is longer than ${MAX_LINE_LENGTH} characters`);
+        }
+
+        const output = lines.map(line => processLine(line, '\n')).join('');
+        if (output) {
+          this.push(output);
+        }
+        callback();
+      } catch (error) {
+        callback(error);
+      }
+    },
+
+    flush(callback) {
+      try {
+        buffered += decoder.end();
+        let output = buffered ? processLine(buffered, '') : '';
+
+        if (openRecord) {
+          throw new Error(`The quoted field on line ${openRecord.line} is never closed`);
+        }
+
+        // A CSV file without data rows comes back unchanged
+        if (header && !targets) {
+          output = `${header.line}${header.ending}${header.terminator}${header.held.join('')}`;
+        }
+        if (output) {
+          this.push(output);
+        }
+        callback();
+      } catch (error) {
+        callback(error);
+      }
+    }
+  });
+
+  stream.stats = stats;
+  return stream;
+};
@@ -0,0 +1,163 @@
+// Vendor export formats for the prefix lists.
+// Each format renders the IPv4 and IPv6 prefixes as a config snippet or import file for one
+// firewall family, named after the file it is served as under /export/. The output only
+// depends on the lists (no timestamps), so the ETag stays stable between polls.
+
+import { createHash } from 'crypto';
+import { parseIPv4Cidr, formatIPv4, prefixMask } from '../shared/ipv4.js';
+
+// Object, set and list names; every supported platform accepts these characters (nft has no dashes)
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,27}$/;
+
+// 98.97.12.0/24 → ['98.97.12.0', '255.255.255.0']
+const toNetmask = (cidr) => {
+  const { network, prefixLength } = parseIPv4Cidr(cidr);
+  return [formatIPv4(network), formatIPv4(prefixMask(prefixLength))];
+};
+
+// Per-prefix object names for platforms that need an address object for each member
+const objectName = (name, cidr) => `${name}-${cidr.replace('/', '_').replace(/:/g, '-')}`;
+
+const header = (comment, { title, ipv4, ipv6 }) => [
+  `${comment} ${title}: ${ipv4.length} IPv4 and ${ipv6.length} IPv6 prefixes, generated by Starlink IP EDL`
+];
+
+// FortiOS CLI: address objects and an address group per family
+const renderFortigate = (list) => {
+  const { name, ipv4, ipv6 } = list;
+  const lines = header('#', list);
+
+  if (ipv4.length > 0) {
+    lines.push('config firewall address');
+    for (const cidr of ipv4) {
+      const [address, mask] = toNetmask(cidr);
+      lines.push(`    edit "${objectName(name, cidr)}"`, `        set subnet ${address} ${mask}`, '    next');
+    }
+    lines.push('end', 'config firewall addrgrp', `    edit "${name}"`);
+    lines.push(`        set member ${ipv4.map(cidr => `"${objectName(name, cidr)}"`).join(' ')}`, '    next', 'end');
+  }
+
+  if (ipv6.length > 0) {
+    lines.push('config firewall address6');
+    for (const cidr of ipv6) {
+      lines.push(`    edit "${objectName(name, cidr)}"`, `        set ip6 ${cidr}`, '    next');
+    }
+    lines.push('end', 'config firewall addrgrp6', `    edit "${name}-v6"`);
+    lines.push(`        set member ${ipv6.map(cidr => `"${objectName(name, cidr)}"`).join(' ')}`, '    next', 'end');
+  }
+
+  return lines.join('\n');
+};
+
+// nftables: interval sets in their own table, flushed first so the file can be loaded again
+const renderNftables = (list) => {
+  const { name, ipv4, ipv6 } = list;
+  const lines = ['#!/usr/sbin/nft -f', ...header('#', list), '', `add table inet ${name}`];
+
+  for (const [family, type, prefixes] of [['ipv4', 'ipv4_addr', ipv4], ['ipv6', 'ipv6_addr', ipv6]]) {
+    const set = `${name}_${family}`;
+    lines.push(`add set inet ${name} ${set} { type ${type}; flags interval; auto-merge; }`, `flush set inet ${name} ${set}`);
+    if (prefixes.length > 0) {
+      lines.push(`add element inet ${name} ${set} {`, ...prefixes.map((cidr, index) => `    ${cidr}${index < prefixes.length - 1 ? ',' : ''}`), '}');
+    }
+  }
+
+  return lines.join('\n');
+};
+
+// ipset restore file, for iptables rules with -m set --match-set
+const renderIpset = ({ name, ipv4, ipv6 }) => {
+  const lines = [];
+
+  for (const [family, suffix, prefixes] of [['inet', 'v4', ipv4], ['inet6', 'v6', ipv6]]) {
+    const set = `${name}-${suffix}`;
+    lines.push(`create ${set} hash:net family ${family} -exist`, `flush ${set}`, ...prefixes.map(cidr => `add ${set} ${cidr}`));
+  }
+
+  return lines.join('\n');
+};
+
+// MikroTik RouterOS script: replaces the entries of one address list per family
+const renderMikrotik = (list) => {
+  const { name, ipv4, ipv6 } = list;
+  const lines = header('#', list);
+
+  for (const [menu, prefixes] of [['/ip firewall address-list', ipv4], ['/ipv6 firewall address-list', ipv6]]) {
+    lines.push(menu, `remove [find list="${name}"]`, ...prefixes.map(cidr => `add list="${name}" address=${cidr} comment="Starlink"`));
+  }
+
+  return lines.join('\n');
+};
+
+// Cisco ASA object group with IPv4 and IPv6 members
+const renderCisco = (list) => {
+  const { name, ipv4, ipv6 } = list;
+  return [
+    ...header('!', list),
+    `object-group network ${name}`,
+    ` description Starlink prefixes`,
+    ...ipv4.map(cidr => ` network-object ${toNetmask(cidr).join(' ')}`),
+    ...ipv6.map(cidr => ` network-object ${cidr}`)
+  ].join('\n');
+};
+
+// OpenBSD/FreeBSD pf: a persistent table definition to include from pf.conf
+const renderPf = (list) => {
+  const { name, ipv4, ipv6 } = list;
+  const prefixes = [...ipv4, ...ipv6];
+  return [
+    ...header('#', list),
+    `table <${name}> persist { \\`,
+    ...prefixes.map((cidr, index) => `    ${cidr}${index < prefixes.length - 1 ? ', \\' : ' \\'}`),
+    '}'
+  ].join('\n');
+};
+
+// Check Point Generic Data Center feed; object ids must stay the same across polls
+const renderCheckpoint = ({ name, title, ipv4, ipv6 }) => {
+  const uuid = (text) => {
+    const hex = createHash('sha256').update(text).digest('hex');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+  };
+
+  return JSON.stringify({
+    version: '1.0',
+    description: `${title}, generated by Starlink IP EDL`,
+    objects: [
+      { name: `${name} IPv4`, id: uuid(`${name}-ipv4`), description: 'Starlink IPv4 prefixes', ranges: ipv4 },
+      { name: `${name} IPv6`, id: uuid(`${name}-ipv6`), description: 'Starlink IPv6 prefixes', ranges: ipv6 }
+    ]
+  }, null, 2);
+};
+
+/**
+ * Export formats by file name: label, content type, default object name and renderer.
+ */
+export const EXPORT_FORMATS = {
+  'fortigate.conf': { label: 'Fortinet FortiGate (CLI)', contentType: 'text/plain', defaultName: 'STARLINK', render: renderFortigate },
+  'nftables.nft': { label: 'nftables (nft -f)', contentType: 'text/plain', defaultName: 'starlink', render: renderNftables },
+  'ipset.txt': { label: 'iptables ipset (ipset restore)', contentType: 'text/plain', defaultName: 'starlink', render: renderIpset },
+  'mikrotik.rsc': { label: 'MikroTik RouterOS (/import)', contentType: 'text/plain', defaultName: 'starlink', render: renderMikrotik },
+  'cisco-object-group.txt': { label: 'Cisco ASA object group', contentType: 'text/plain', defaultName: 'STARLINK', render: renderCisco },
+  'pf.conf': { label: 'pf table (pfctl)', contentType: 'text/plain', defaultName: 'starlink', render: renderPf },
+  'checkpoint.json': { label: 'Check Point Generic Data Center', contentType: 'application/json', defaultName: 'Starlink', render: renderCheckpoint }
+};
+
+/**
+ * Render the lists in the format served as `file`. `name` overrides the default object, set or
+ * list name. Throws on an unknown format or an invalid name.
+ */
+export const renderExport = (file, { name, title, ipv4, ipv6 }) => {
+  const format = EXPORT_FORMATS[file];
+  if (!format) {
+    throw new Error(`Unknown export format "${file}"`);
+  }
+
+  const objectGroupName = name || format.defaultName;
+  if (!NAME_PATTERN.test(objectGroupName)) {
+    throw new Error('name must start with a letter and contain up to 28 letters, digits or underscores');
+  }
+
+  const body = format.render({ name: objectGroupName, title, ipv4, ipv6 });
+  return { body: `${body}\n`, contentType: format.contentType };
+};
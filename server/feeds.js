@@ -0,0 +1,110 @@
+// Conditional and compressed responses for the text feeds.
+// Firewalls poll the feeds every few minutes; a strong ETag over the list content lets them
+// revalidate with If-None-Match and get an empty 304 while nothing changed.
+
+import { createHash } from 'crypto';
+import { gzipSync, brotliCompressSync, constants as zlibConstants } from 'zlib';
+
+// Bodies below this size are sent uncompressed, the headers would outweigh the savings
+const MIN_COMPRESS_BYTES = 1024;
+
+// Compressed bodies are kept per ETag, so hundreds of pollers do not compress the same list again
+const MAX_CACHED_BODIES = 64;
+
+const ENCODERS = {
+  br: (body) => brotliCompressSync(body, { params: { [zlibConstants.BROTLI_PARAM_QUALITY]: 5 } }),
+  gzip: (body) => gzipSync(body)
+};
+
+// Pick br or gzip from Accept-Encoding, honouring q=0 and preferring br on equal weight
+const negotiateEncoding = (acceptEncoding) => {
+  const weights = {};
+  for (const part of (acceptEncoding || '').split(',')) {
+    const [name, ...params] = part.trim().toLowerCase().split(';');
+    const q = params.map(param => param.trim()).find(param => param.startsWith('q='));
+    weights[name] = q ? Number(q.slice(2)) || 0 : 1;
+  }
+
+  const candidates = Object.keys(ENCODERS)
+    .map(encoding => ({ encoding, q: weights[encoding] ?? weights['*'] ?? 0 }))
+    .filter(candidate => candidate.q > 0);
+
+  return candidates.reduce((best, candidate) => (!best || candidate.q > best.q ? candidate : best), null)?.encoding ?? null;
+};
+
+// If-None-Match uses the weak comparison: W/ prefixes and encoding suffixes are ignored
+const matchesETag = (ifNoneMatch, version) =>
+  ifNoneMatch.split(',').some(tag => {
+    const value = tag.trim();
+    return value === '*' || value.replace(/^W\//, '').replace(/^"|"$/g, '').split('-')[0] === version;
+  });
+
+/**
+ * Version of a feed body: the first 16 bytes of its SHA-256 in hex. The same list always has
+ * the same version, on every instance and across restarts.
+ */
+export const feedVersion = (body) => createHash('sha256').update(body).digest('hex').slice(0, 32);
+
+/**
+ * Create the function that sends a feed. `compression` enables gzip/brotli for clients that
+ * accept it and `maxAge` is the Cache-Control max-age in seconds (0 means revalidate on every poll).
+ *
+ * The returned `sendFeed(req, res, prefixes, { lastModified })` sets ETag, Last-Modified,
+ * X-EDL-Count and X-EDL-Version and answers 304 when the client already has this version.
+ * `body` and `contentType` replace the newline-separated list, e.g. for vendor exports.
+ */
+export const createFeedResponder = ({ compression = true, maxAge = 0 } = {}) => {
+  const compressed = new Map();
+
+  const compress = (body, version, encoding) => {
+    const key = `${version}-${encoding}`;
+    if (!compressed.has(key)) {
+      if (compressed.size >= MAX_CACHED_BODIES) {
+        compressed.delete(compressed.keys().next().value);
+      }
+      compressed.set(key, ENCODERS[encoding](body));
+    }
+    return compressed.get(key);
+  };
+
+  return (req, res, prefixes, { lastModified = null, body: text = prefixes.join('\n'), contentType = 'text/plain' } = {}) => {
+    const body = Buffer.from(text, 'utf-8');
+    const version = feedVersion(body);
+    const encoding = compression && body.length >= MIN_COMPRESS_BYTES
+      ? negotiateEncoding(req.get('Accept-Encoding'))
+      : null;
+    const modifiedAt = lastModified ? new Date(lastModified) : null;
+
+    res.set({
+      'Cache-Control': `max-age=${maxAge}, must-revalidate`,
+      // A compressed body is a different representation and needs its own strong ETag
+      'ETag': encoding ? `"${version}-${encoding}"` : `"${version}"`,
+      'X-EDL-Count': String(prefixes.length),
+      'X-EDL-Version': version
+    });
+    if (compression) {
+      res.vary('Accept-Encoding');
+    }
+    if (modifiedAt && !Number.isNaN(modifiedAt.getTime())) {
+      res.set('Last-Modified', modifiedAt.toUTCString());
+    }
+
+    const ifNoneMatch = req.get('If-None-Match');
+    const ifModifiedSince = req.get('If-Modified-Since');
+    // If-Modified-Since only counts when the client sent no ETag (RFC 9110, section 13.2.2)
+    const notModified = ifNoneMatch
+      ? matchesETag(ifNoneMatch, version)
+      : Boolean(ifModifiedSince && modifiedAt && Math.floor(modifiedAt.getTime() / 1000) <= Math.floor(Date.parse(ifModifiedSince) / 1000));
+
+    if (notModified) {
+      return res.status(304).end();
+    }
+
+    res.type(contentType);
+    if (encoding) {
+      res.set('Content-Encoding', encoding);
+      return res.send(compress(body, version, encoding));
+    }
+    res.send(body);
+  };
+};
@@ -0,0 +1,80 @@
+// Geo attributes from the RFC 8805 geofeed (prefix,country,region,city,postal)
+// and filtering of prefix lists by those attributes.
+
+// Extract the geo columns of a geofeed row. Region and country codes are upper-cased,
+// the city is kept as published.
+export const parseGeoColumns = (fields) => ({
+  country: (fields[1] || '').trim().toUpperCase(),
+  region: (fields[2] || '').trim().toUpperCase(),
+  city: (fields[3] || '').trim()
+});
+
+const parseList = (value) => {
+  if (!value) {
+    return [];
+  }
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+};
+
+const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+
+/**
+ * Build a geo filter from query parameters, e.g. `?country=DE,FR&region=US-WA&city=Seattle`.
+ * Values are comma separated and matched case-insensitively. Countries must be ISO 3166-1
+ * alpha-2 codes, anything else throws. Regions match either the full ISO 3166-2 code ("US-WA")
+ * or just the subdivision part ("WA").
+ */
+export const parseGeoFilter = ({ country, region, city } = {}) => {
+  const countries = parseList(country).map(item => item.toUpperCase());
+  const invalid = countries.find(item => !COUNTRY_CODE_PATTERN.test(item));
+
+  if (invalid !== undefined) {
+    throw new Error(`Invalid country code "${invalid}", expected an ISO 3166-1 alpha-2 code such as "US"`);
+  }
+
+  return {
+    countries,
+    regions: parseList(region).map(item => item.toUpperCase()),
+    cities: parseList(city).map(item => item.toLowerCase())
+  };
+};
+
+export const isEmptyGeoFilter = (filter) =>
+  filter.countries.length === 0 && filter.regions.length === 0 && filter.cities.length === 0;
+
+// Countries of the filter without a single geofeed entry, e.g. a typo or a country Starlink does not serve
+export const findUnknownCountries = (filter, geo) => {
+  const known = new Set(Object.values(geo || {}).map(attributes => attributes.country));
+  return filter.countries.filter(country => !known.has(country));
+};
+
+const matchesRegion = (regions, region) =>
+  regions.some(wanted => wanted === region || (wanted.length > 0 && region.endsWith(`-${wanted}`)));
+
+// Keep only the prefixes whose geo attributes match every non-empty part of the filter
+export const filterPrefixesByGeo = (prefixes, geo, filter) => {
+  if (isEmptyGeoFilter(filter)) {
+    return prefixes;
+  }
+
+  return prefixes.filter(prefix => {
+    const attributes = geo?.[prefix];
+    if (!attributes) {
+      return false;
+    }
+    if (filter.countries.length > 0 && !filter.countries.includes(attributes.country)) {
+      return false;
+    }
+    if (filter.regions.length > 0 && !matchesRegion(filter.regions, attributes.region)) {
+      return false;
+    }
+    if (filter.cities.length > 0 && !filter.cities.includes(attributes.city.toLowerCase())) {
+      return false;
+    }
+    return true;
+  });
+};
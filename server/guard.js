@@ -0,0 +1,51 @@
+// Safety guard for mass removals.
+// A truncated or broken upstream response can drop most prefixes at once; publishing it would
+// remove those ranges from every firewall pulling the feed. Updates that exceed the configured
+// thresholds are held for manual approval instead.
+
+/**
+ * Check a candidate update against the thresholds.
+ *
+ * - `maxRemovedPercent`: largest share of the published IPv4 or IPv6 list that may be removed
+ * - `maxChurn`: largest number of prefixes that may be added plus removed in one update
+ *
+ * A threshold of 0 disables that check. Nothing is held while no list has been published yet.
+ * Returns the reasons the update must be held; an empty list means it can be published.
+ */
+export const evaluateUpdate = ({ previous, added, removed }, { maxRemovedPercent = 0, maxChurn = 0 }) => {
+  const reasons = [];
+
+  const families = [
+    { name: 'IPv4', previousCount: previous.ipAddresses.length, added: added.ipv4, removed: removed.ipv4 },
+    { name: 'IPv6', previousCount: previous.ipv6Addresses.length, added: added.ipv6, removed: removed.ipv6 }
+  ];
+
+  if (families.every(family => family.previousCount === 0)) {
+    return reasons;
+  }
+
+  if (maxRemovedPercent > 0) {
+    for (const family of families) {
+      if (family.previousCount === 0) {
+        continue;
+      }
+
+      const removedPercent = (family.removed.length / family.previousCount) * 100;
+      if (removedPercent > maxRemovedPercent) {
+        reasons.push(
+          `${family.removed.length} of ${family.previousCount} ${family.name} prefixes (${removedPercent.toFixed(1)}%) ` +
+          `would be removed, limit is ${maxRemovedPercent}%`
+        );
+      }
+    }
+  }
+
+  if (maxChurn > 0) {
+    const churn = families.reduce((total, family) => total + family.added.length + family.removed.length, 0);
+    if (churn > maxChurn) {
+      reasons.push(`${churn} prefixes would be added or removed, limit is ${maxChurn}`);
+    }
+  }
+
+  return reasons;
+};
@@ -0,0 +1,210 @@
+// Append-only changelog history.
+// Every update that changes the feed is stored as its own JSON file under the history directory
+// (full snapshot plus the added/removed diff). Summaries of all entries are kept in memory so
+// paging and prefix searches never have to read the snapshots.
+
+import { readFileSync, existsSync, mkdirSync, readdirSync, unlinkSync } from 'fs';
+import { resolve } from 'path';
+import { writeFileAtomic } from './storage.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// File-system safe id derived from the entry date; entries recorded in the same millisecond get
+// -1, -2, ... appended
+const toEntryId = (date) => date.replace(/[:.]/g, '-');
+
+const ENTRY_ID_PATTERN = /^[0-9TZ-]+$/;
+
+const toSummary = (entry) => ({
+  id: entry.id,
+  date: entry.date,
+  added: entry.added || [],
+  removed: entry.removed || [],
+  addedIpv6: entry.addedIpv6 || [],
+  removedIpv6: entry.removedIpv6 || [],
+  ipv4Count: entry.ipAddresses?.length ?? 0,
+  ipv6Count: entry.ipv6Addresses?.length ?? 0,
+  // Manual override changes are their own events, upstream updates have no `event`
+  ...(entry.event && { event: entry.event, override: entry.override })
+});
+
+/**
+ * Create a history store in `dir`.
+ *
+ * Retention: `maxEntries` keeps only the newest N entries and `maxAgeDays` drops entries older
+ * than that. A value of 0 disables the limit. The newest entry is never removed.
+ */
+export const createHistoryStore = ({ dir, maxEntries = 0, maxAgeDays = 0 }) => {
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const entryPath = (id) => resolve(dir, `${id}.json`);
+
+  // Newest first
+  let summaries = [];
+
+  const load = () => {
+    summaries = readdirSync(dir)
+      .filter(file => file.endsWith('.json'))
+      .flatMap(file => {
+        try {
+          return [toSummary(JSON.parse(readFileSync(resolve(dir, file), 'utf-8')))];
+        } catch (error) {
+          console.error(`Skipping unreadable history file ${file}:`, error.message);
+          return [];
+        }
+      })
+      .sort((a, b) => b.date.localeCompare(a.date) || b.id.localeCompare(a.id));
+  };
+
+  // The id of a new entry for `date`, never one already stored
+  const nextEntryId = (date) => {
+    const base = toEntryId(date);
+    let id = base;
+    for (let sequence = 1; existsSync(entryPath(id)); sequence++) {
+      id = `${base}-${sequence}`;
+    }
+    return id;
+  };
+
+  const applyRetention = () => {
+    const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * DAY_MS : null;
+
+    const expired = summaries.filter((summary, index) => {
+      if (index === 0) {
+        return false;
+      }
+      if (maxEntries > 0 && index >= maxEntries) {
+        return true;
+      }
+      return cutoff !== null && new Date(summary.date).getTime() < cutoff;
+    });
+
+    for (const summary of expired) {
+      try {
+        unlinkSync(entryPath(summary.id));
+      } catch (error) {
+        console.error(`Failed to remove expired history entry ${summary.id}:`, error.message);
+      }
+    }
+
+    if (expired.length > 0) {
+      const expiredIds = new Set(expired.map(summary => summary.id));
+      summaries = summaries.filter(summary => !expiredIds.has(summary.id));
+      console.log(`History retention removed ${expired.length} entr${expired.length === 1 ? 'y' : 'ies'}`);
+    }
+  };
+
+  const append = (entry) => {
+    const stored = { id: nextEntryId(entry.date), ...entry };
+    writeFileAtomic(entryPath(stored.id), JSON.stringify(stored, null, 2));
+
+    summaries = [toSummary(stored), ...summaries];
+    applyRetention();
+
+    return stored;
+  };
+
+  const get = (id) => {
+    if (!ENTRY_ID_PATTERN.test(id) || !existsSync(entryPath(id))) {
+      return null;
+    }
+    return JSON.parse(readFileSync(entryPath(id), 'utf-8'));
+  };
+
+  /**
+   * Page through entry summaries, newest first. `prefix` limits the result to
+   * entries that added or removed that exact prefix.
+   */
+  const list = ({ page = 1, pageSize = 10, prefix } = {}) => {
+    const matching = prefix
+      ? summaries.filter(summary =>
+          [summary.added, summary.removed, summary.addedIpv6, summary.removedIpv6].some(list => list.includes(prefix))
+        )
+      : summaries;
+
+    const pageCount = Math.max(1, Math.ceil(matching.length / pageSize));
+    const currentPage = Math.min(Math.max(1, page), pageCount);
+    const start = (currentPage - 1) * pageSize;
+
+    return {
+      entries: matching.slice(start, start + pageSize),
+      total: matching.length,
+      page: currentPage,
+      pageSize,
+      pageCount
+    };
+  };
+
+  // Full entry that was current at `timestamp` (the newest entry recorded at or before it)
+  const findAt = (timestamp) => {
+    const summary = summaries.find(candidate => new Date(candidate.date).getTime() <= timestamp);
+    return summary ? get(summary.id) : null;
+  };
+
+  // Summaries of the entries recorded after `fromTime` and up to `toTime`, newest first
+  const listBetween = (fromTime, toTime) =>
+    summaries.filter(summary => {
+      const time = new Date(summary.date).getTime();
+      return time > fromTime && time <= toTime;
+    });
+
+  // Import entries kept in the data file by older versions; already stored dates are skipped
+  const importLegacy = (entries) => {
+    const known = new Set(summaries.map(summary => summary.id));
+    let imported = 0;
+
+    for (const entry of [...entries].reverse()) {
+      if (entry?.date && !known.has(toEntryId(entry.date))) {
+        append(entry);
+        imported++;
+      }
+    }
+
+    return imported;
+  };
+
+  // Date each prefix was first added, counted from the oldest retained entry; prefixes that were
+  // already listed before it are missing
+  const firstSeenDates = () => {
+    const dates = new Map();
+    for (const summary of [...summaries].reverse()) {
+      for (const prefix of [...summary.added, ...summary.addedIpv6]) {
+        if (!dates.has(prefix)) {
+          dates.set(prefix, summary.date);
+        }
+      }
+    }
+    return dates;
+  };
+
+  // Date of the newest entry that added or removed prefixes; override events can leave the lists as they were
+  const lastChangeDate = () =>
+    summaries.find(summary =>
+      [summary.added, summary.removed, summary.addedIpv6, summary.removedIpv6].some(list => list.length > 0)
+    )?.date ?? null;
+
+  // Change the limits, e.g. after a settings change, and prune right away
+  const setRetention = (limits) => {
+    maxEntries = limits.maxEntries ?? maxEntries;
+    maxAgeDays = limits.maxAgeDays ?? maxAgeDays;
+    applyRetention();
+  };
+
+  load();
+  applyRetention();
+
+  return {
+    append,
+    get,
+    findAt,
+    list,
+    listBetween,
+    importLegacy,
+    firstSeenDates,
+    lastChangeDate,
+    setRetention,
+    count: () => summaries.length
+  };
+};
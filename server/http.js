@@ -0,0 +1,185 @@
+// Outbound HTTP with timeouts, retries, proxies and custom TLS settings.
+// node-fetch v3 ignores a `timeout` option, so every attempt gets its own AbortController.
+
+import fetch from 'node-fetch';
+import http from 'http';
+import https from 'https';
+import { readFileSync } from 'fs';
+import { rootCertificates } from 'tls';
+import { HttpProxyAgent } from 'http-proxy-agent';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+
+// Split a NO_PROXY entry into host and optional port; a bare IPv6 address has no port
+const parseNoProxyEntry = (entry) => {
+  const bracketed = entry.match(/^\[([^\]]+)\](?::(\d+))?$/);
+  if (bracketed) {
+    return [bracketed[1], bracketed[2]];
+  }
+  const parts = entry.split(':');
+  return parts.length === 2 ? parts : [entry];
+};
+
+/**
+ * Whether `url` bypasses the proxy according to a NO_PROXY list: `*`, host names, domain
+ * suffixes (`example.com` and `.example.com` both match `api.example.com`) and optional ports.
+ */
+export const isProxyBypassed = (url, noProxy) => {
+  const entries = (noProxy || '').split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean);
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+  return entries.some(entry => {
+    if (entry === '*') {
+      return true;
+    }
+
+    const [entryHost, entryPort] = parseNoProxyEntry(entry);
+    if (!entryHost || (entryPort && entryPort !== port)) {
+      return false;
+    }
+
+    const domain = entryHost.replace(/^\*?\./, '');
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  });
+};
+
+// https-proxy-agent applies its options to the connection to the proxy only; the extra CA and
+// client certificate also have to reach the TLS connection to the target inside the tunnel
+class TunnelAgent extends HttpsProxyAgent {
+  constructor(proxy, tls) {
+    super(proxy, tls);
+    this.targetTls = tls;
+  }
+
+  connect(req, opts) {
+    return super.connect(req, { ...opts, ...this.targetTls });
+  }
+}
+
+/**
+ * Build the `agent` option for node-fetch from the outbound settings:
+ *
+ * - `httpProxy` / `httpsProxy`: proxy URLs for http and https targets, `noProxy` for exceptions
+ * - `proxyUsername` / `proxyPassword`: proxy credentials, instead of putting them in the URL
+ * - `caFile`: PEM bundle trusted in addition to the built-in roots, e.g. a TLS inspection CA
+ * - `certFile` / `keyFile` / `keyPassphrase`: client certificate for mutual TLS
+ *
+ * Returns a function from target URL to agent and a `describe(url)` helper for diagnostics.
+ */
+export const createOutboundAgent = ({
+  httpProxy,
+  httpsProxy,
+  noProxy,
+  proxyUsername,
+  proxyPassword,
+  caFile,
+  certFile,
+  keyFile,
+  keyPassphrase
+} = {}) => {
+  const tls = {
+    ...(caFile && { ca: [...rootCertificates, readFileSync(caFile, 'utf-8')] }),
+    ...(certFile && { cert: readFileSync(certFile, 'utf-8') }),
+    ...(keyFile && { key: readFileSync(keyFile, 'utf-8') }),
+    ...(keyPassphrase && { passphrase: keyPassphrase })
+  };
+
+  const withCredentials = (proxyUrl) => {
+    const url = new URL(proxyUrl);
+    if (proxyUsername) {
+      url.username = encodeURIComponent(proxyUsername);
+      url.password = encodeURIComponent(proxyPassword || '');
+    }
+    return url;
+  };
+
+  // One agent per route and protocol, reused across requests
+  const agents = {
+    direct: {
+      'http:': new http.Agent(),
+      'https:': new https.Agent(tls)
+    },
+    proxied: {
+      'http:': httpProxy ? new HttpProxyAgent(withCredentials(httpProxy)) : null,
+      'https:': httpsProxy ? new TunnelAgent(withCredentials(httpsProxy), tls) : null
+    }
+  };
+
+  const proxyFor = (url) => {
+    const proxy = url.protocol === 'https:' ? httpsProxy : httpProxy;
+    return proxy && !isProxyBypassed(url, noProxy) ? proxy : null;
+  };
+
+  const agentFor = (url) =>
+    proxyFor(url) ? agents.proxied[url.protocol] : agents.direct[url.protocol];
+
+  // Route of a request without credentials, safe to log or return from the API
+  agentFor.describe = (url) => {
+    const proxy = proxyFor(new URL(url));
+    if (!proxy) {
+      return 'direct';
+    }
+    const { protocol, host } = new URL(proxy);
+    return `proxy ${protocol}//${host}`;
+  };
+
+  return agentFor;
+};
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Network errors, timeouts, rate limiting and server errors are worth another attempt
+const isRetryableStatus = (status) => status === 408 || status === 429 || status >= 500;
+
+/**
+ * Fetch `url`, retrying up to `retries` more times with exponential backoff
+ * (`backoffMs`, then twice that, ...). Each attempt, including reading its body, is aborted
+ * after `timeoutMs`. Resolves with `{ response, body, attempts, durationMs }` for the first
+ * response that is not retryable (which may still be an error status), `body` being its text;
+ * rejects once every attempt failed.
+ */
+export const fetchWithRetry = async (url, {
+  label = url,
+  timeoutMs = 10000,
+  retries = 2,
+  backoffMs = 1000,
+  ...init
+} = {}) => {
+  const startedAt = Date.now();
+  const maxAttempts = retries + 1;
+  let lastError = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const attemptStartedAt = Date.now();
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      console.log(`${label}: attempt ${attempt}/${maxAttempts} returned HTTP ${response.status} in ${Date.now() - attemptStartedAt}ms`);
+
+      if (!isRetryableStatus(response.status) || attempt === maxAttempts) {
+        // Still under the deadline, an upstream that stalls after the headers would hang here otherwise
+        const body = await response.text();
+        return { response, body, attempts: attempt, durationMs: Date.now() - startedAt };
+      }
+      // Discard the body of a response that is retried, releasing its connection
+      controller.abort();
+      lastError = new Error(`HTTP ${response.status}: ${response.statusText}`);
+    } catch (error) {
+      lastError = error.name === 'AbortError' ? new Error(`Timed out after ${timeoutMs}ms`) : error;
+      console.warn(`${label}: attempt ${attempt}/${maxAttempts} failed: ${lastError.message}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (attempt < maxAttempts) {
+      await sleep(backoffMs * 2 ** (attempt - 1));
+    }
+  }
+
+  const error = new Error(`${lastError.message} (after ${maxAttempts} attempt${maxAttempts === 1 ? '' : 's'})`);
+  error.attempts = maxAttempts;
+  error.durationMs = Date.now() - startedAt;
+  throw error;
+};
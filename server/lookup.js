@@ -0,0 +1,89 @@
+// Longest-prefix-match lookup of single addresses, e.g. to check whether an address seen in
+// a log belongs to Starlink. Prefixes are kept in a binary trie per address family, keyed by
+// their network bits, so a lookup visits at most 32 or 128 nodes whatever the list size.
+
+import { parseIPv6, parseIPv6Cidr } from '../shared/ipv6.js';
+import { parseIPv4, parseIPv4Cidr } from '../shared/ipv4.js';
+
+// Address families as BigInt values, so both share one trie implementation
+const FAMILIES = {
+  ipv4: {
+    bits: 32,
+    parseAddress: (text) => {
+      const value = parseIPv4(text);
+      return value === null ? null : BigInt(value);
+    },
+    parseCidr: (text) => {
+      const cidr = parseIPv4Cidr(text);
+      return cidr && { network: BigInt(cidr.network), prefixLength: cidr.prefixLength };
+    }
+  },
+  ipv6: {
+    bits: 128,
+    parseAddress: parseIPv6,
+    parseCidr: parseIPv6Cidr
+  }
+};
+
+const createTrie = (bits) => {
+  const root = { children: [null, null], prefix: null };
+
+  const bitAt = (value, index) => Number((value >> BigInt(bits - 1 - index)) & 1n);
+
+  const insert = ({ network, prefixLength }, prefix) => {
+    let node = root;
+    for (let index = 0; index < prefixLength; index++) {
+      const bit = bitAt(network, index);
+      node.children[bit] ??= { children: [null, null], prefix: null };
+      node = node.children[bit];
+    }
+    node.prefix = prefix;
+  };
+
+  // The most specific prefix containing `value`, null when none does
+  const match = (value) => {
+    let node = root;
+    let best = root.prefix;
+    for (let index = 0; index < bits && node; index++) {
+      node = node.children[bitAt(value, index)];
+      if (node?.prefix) {
+        best = node.prefix;
+      }
+    }
+    return best;
+  };
+
+  return { insert, match };
+};
+
+/**
+ * Build the lookup index of the IPv4 and IPv6 prefix lists. `lookup(address)` returns the family
+ * of the address and the most specific prefix containing it (`prefix: null` when none does), or
+ * null when the address is neither a valid IPv4 nor IPv6 address. Invalid prefixes are skipped.
+ */
+export const createPrefixIndex = ({ ipAddresses = [], ipv6Addresses = [] }) => {
+  const tries = {};
+
+  for (const [family, prefixes] of [['ipv4', ipAddresses], ['ipv6', ipv6Addresses]]) {
+    tries[family] = createTrie(FAMILIES[family].bits);
+    for (const prefix of prefixes) {
+      const cidr = FAMILIES[family].parseCidr(prefix);
+      if (cidr) {
+        tries[family].insert(cidr, prefix);
+      }
+    }
+  }
+
+  const lookup = (address) => {
+    const text = String(address).trim();
+    const family = text.includes(':') ? 'ipv6' : 'ipv4';
+    const value = FAMILIES[family].parseAddress(text);
+
+    if (value === null) {
+      return null;
+    }
+    return { family, prefix: tries[family].match(value) };
+  };
+
+  return { lookup };
+};
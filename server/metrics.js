@@ -0,0 +1,115 @@
+// Prometheus metrics in the text exposition format (version 0.0.4).
+// Counters and histograms are updated as things happen; gauges are read from the current state
+// by a collect callback on every scrape, so they can never drift from the data files.
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Upstream fetches take from a few hundred milliseconds up to the timeout times the attempts
+export const FETCH_DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const escapeLabelValue = (value) =>
+  String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const escapeHelp = (text) => text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+
+const formatValue = (value) => {
+  if (value === Infinity) {
+    return '+Inf';
+  }
+  if (value === -Infinity) {
+    return '-Inf';
+  }
+  return Number.isNaN(value) ? 'NaN' : String(value);
+};
+
+const formatLabels = (labels) => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const sampleLine = (name, labels, value) => `${name}${formatLabels(labels)} ${formatValue(value)}`;
+
+// Series are stored per label combination; the key keeps the label order of `labelNames`
+const seriesKey = (labelNames, labels) => JSON.stringify(labelNames.map(name => String(labels[name] ?? '')));
+
+const pickLabels = (labelNames, labels) =>
+  Object.fromEntries(labelNames.map(name => [name, String(labels[name] ?? '')]));
+
+/**
+ * Create a metrics registry.
+ *
+ * - `counter({ name, help, labelNames })` returns `{ inc(labels, value = 1) }`
+ * - `histogram({ name, help, labelNames, buckets })` returns `{ observe(labels, value) }`
+ * - `gauge({ name, help, collect })` where `collect()` returns `[{ labels, value }]` at scrape time
+ *
+ * `render()` returns the exposition text for all registered metrics.
+ */
+export const createMetricsRegistry = () => {
+  const renderers = [];
+
+  const header = (name, help, type) => [`# HELP ${name} ${escapeHelp(help)}`, `# TYPE ${name} ${type}`];
+
+  const counter = ({ name, help, labelNames = [] }) => {
+    const series = new Map();
+
+    renderers.push(() => [
+      ...header(name, help, 'counter'),
+      ...Array.from(series.values()).map(({ labels, value }) => sampleLine(name, labels, value))
+    ]);
+
+    return {
+      inc: (labels = {}, value = 1) => {
+        const key = seriesKey(labelNames, labels);
+        const current = series.get(key) || { labels: pickLabels(labelNames, labels), value: 0 };
+        current.value += value;
+        series.set(key, current);
+      }
+    };
+  };
+
+  const histogram = ({ name, help, labelNames = [], buckets }) => {
+    const series = new Map();
+    const bounds = [...buckets].sort((a, b) => a - b);
+
+    renderers.push(() => [
+      ...header(name, help, 'histogram'),
+      ...Array.from(series.values()).flatMap(({ labels, counts, sum, count }) => [
+        ...bounds.map((bound, index) => sampleLine(`${name}_bucket`, { ...labels, le: bound }, counts[index])),
+        sampleLine(`${name}_bucket`, { ...labels, le: '+Inf' }, count),
+        sampleLine(`${name}_sum`, labels, sum),
+        sampleLine(`${name}_count`, labels, count)
+      ])
+    ]);
+
+    return {
+      observe: (labels, value) => {
+        const key = seriesKey(labelNames, labels);
+        const current = series.get(key) || {
+          labels: pickLabels(labelNames, labels),
+          counts: bounds.map(() => 0),
+          sum: 0,
+          count: 0
+        };
+        bounds.forEach((bound, index) => {
+          if (value <= bound) {
+            current.counts[index] += 1;
+          }
+        });
+        current.sum += value;
+        current.count += 1;
+        series.set(key, current);
+      }
+    };
+  };
+
+  const gauge = ({ name, help, collect }) => {
+    renderers.push(() => [
+      ...header(name, help, 'gauge'),
+      ...collect().map(({ labels = {}, value }) => sampleLine(name, labels, value))
+    ]);
+  };
+
+  const render = () => `${renderers.flatMap(renderer => renderer()).join('\n')}\n`;
+
+  return { counter, histogram, gauge, render };
+};
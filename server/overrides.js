@@ -0,0 +1,194 @@
+// Manual allow/deny overrides of the primary source.
+// "include" entries are always published, "exclude" entries are cut out of the upstream
+// prefixes (an upstream prefix that only partly overlaps is split). Every entry records a
+// reason and an author and may expire; expired entries stay listed but no longer apply.
+
+import { readFileSync, existsSync } from 'fs';
+import { randomUUID } from 'crypto';
+import { writeFileAtomic } from './storage.js';
+import { excludeIPv4, excludeIPv6 } from './cidr.js';
+import { canonicalizeIPv6Cidr, compareIPv6Cidrs } from '../shared/ipv6.js';
+import { validateIPv4Cidr, compareIPv4Cidrs } from '../shared/ipv4.js';
+
+export const OVERRIDE_ACTIONS = ['include', 'exclude'];
+
+const MAX_REASON_LENGTH = 500;
+
+// Canonical spelling and family of an IPv4 or IPv6 prefix
+const parsePrefix = (text) => {
+  const input = typeof text === 'string' ? text.trim() : '';
+
+  if (input.includes(':')) {
+    const cidr = canonicalizeIPv6Cidr(input);
+    if (!cidr) {
+      throw new Error(`Invalid IPv6 prefix "${input}"`);
+    }
+    return { cidr, family: 'ipv6' };
+  }
+
+  const result = validateIPv4Cidr(input);
+  if (!result.valid) {
+    throw new Error(result.reason);
+  }
+  return { cidr: result.cidr.text, family: 'ipv4' };
+};
+
+const isActive = (entry, now) => !entry.expiresAt || new Date(entry.expiresAt).getTime() > now;
+
+/**
+ * Create the override store persisted to `filePath`.
+ */
+export const createOverrideStore = ({ filePath }) => {
+  let entries = [];
+
+  const load = () => {
+    if (!existsSync(filePath)) {
+      return;
+    }
+    try {
+      const saved = JSON.parse(readFileSync(filePath, 'utf-8'));
+      entries = Array.isArray(saved.overrides) ? saved.overrides : [];
+    } catch (error) {
+      console.error(`Ignoring unreadable override file ${filePath}:`, error.message);
+    }
+  };
+
+  const save = () => {
+    writeFileAtomic(filePath, JSON.stringify({ overrides: entries }, null, 2));
+  };
+
+  // Every entry with whether it still applies, newest first
+  const list = (now = Date.now()) => entries
+    .map(entry => ({ ...entry, active: isActive(entry, now) }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const add = ({ action, cidr, reason, author, expiresAt }) => {
+    if (!OVERRIDE_ACTIONS.includes(action)) {
+      throw new Error(`action must be one of ${OVERRIDE_ACTIONS.join(', ')}`);
+    }
+
+    const prefix = parsePrefix(cidr);
+    const trimmedReason = typeof reason === 'string' ? reason.trim() : '';
+    const trimmedAuthor = typeof author === 'string' ? author.trim() : '';
+
+    if (!trimmedReason) {
+      throw new Error('A reason is required');
+    }
+    if (trimmedReason.length > MAX_REASON_LENGTH) {
+      throw new Error(`reason must be at most ${MAX_REASON_LENGTH} characters`);
+    }
+    if (!trimmedAuthor) {
+      throw new Error('An author is required');
+    }
+
+    let expiry = null;
+    if (expiresAt) {
+      const time = new Date(expiresAt).getTime();
+      if (Number.isNaN(time)) {
+        throw new Error('expiresAt must be an ISO date');
+      }
+      if (time <= Date.now()) {
+        throw new Error('expiresAt must be in the future');
+      }
+      expiry = new Date(time).toISOString();
+    }
+
+    const existing = entries.find(entry => entry.cidr === prefix.cidr && isActive(entry, Date.now()));
+    if (existing) {
+      throw new Error(`${prefix.cidr} already has an active ${existing.action} override`);
+    }
+
+    const entry = {
+      id: randomUUID(),
+      action,
+      cidr: prefix.cidr,
+      family: prefix.family,
+      reason: trimmedReason,
+      author: trimmedAuthor,
+      createdAt: new Date().toISOString(),
+      expiresAt: expiry
+    };
+    entries.push(entry);
+    save();
+    return entry;
+  };
+
+  // The removed entry, null when there is none with that id
+  const remove = (id) => {
+    const entry = entries.find(candidate => candidate.id === id);
+    if (!entry) {
+      return null;
+    }
+    entries = entries.filter(candidate => candidate.id !== id);
+    save();
+    return entry;
+  };
+
+  // Entries that expired since the last call, so each expiry is handled once
+  const takeExpired = (now = Date.now()) => {
+    const expired = entries.filter(entry => !entry.expiredAt && !isActive(entry, now));
+    if (expired.length === 0) {
+      return [];
+    }
+
+    const expiredAt = new Date(now).toISOString();
+    entries = entries.map(entry => expired.includes(entry) ? { ...entry, expiredAt } : entry);
+    save();
+    return expired;
+  };
+
+  /**
+   * Apply the active overrides to upstream lists. Geo attributes of a split prefix carry over
+   * to its pieces. Includes already covered by the published prefixes are skipped. `included`
+   * lists the published prefixes that only come from overrides, `excluded` the upstream prefixes
+   * that were removed or split.
+   */
+  const apply = ({ ipAddresses, ipv6Addresses = [], geo = {} }, now = Date.now()) => {
+    const active = entries.filter(entry => isActive(entry, now));
+    const byAction = (action, family) =>
+      active.filter(entry => entry.action === action && entry.family === family).map(entry => entry.cidr);
+
+    const nextGeo = { ...geo };
+    const included = [];
+    const excluded = [];
+
+    const build = (prefixes, family, excludeFamily, compare) => {
+      const published = new Set();
+
+      for (const [prefix, remaining] of excludeFamily(prefixes, byAction('exclude', family))) {
+        if (remaining.length !== 1 || remaining[0] !== prefix) {
+          excluded.push(prefix);
+        }
+        for (const piece of remaining) {
+          published.add(piece);
+          if (piece !== prefix && geo[prefix]) {
+            nextGeo[piece] = geo[prefix];
+          }
+        }
+      }
+
+      // An include already covered by published prefixes would only add a redundant entry
+      for (const prefix of byAction('include', family)) {
+        const [uncovered] = excludeFamily([prefix], Array.from(published)).values();
+        if (uncovered.length > 0) {
+          published.add(prefix);
+          included.push(prefix);
+        }
+      }
+
+      return Array.from(published).sort(compare);
+    };
+
+    return {
+      ipAddresses: build(ipAddresses, 'ipv4', excludeIPv4, compareIPv4Cidrs),
+      ipv6Addresses: build(ipv6Addresses, 'ipv6', excludeIPv6, compareIPv6Cidrs),
+      geo: nextGeo,
+      included,
+      excluded
+    };
+  };
+
+  load();
+
+  return { list, add, remove, takeExpired, apply };
+};
@@ -0,0 +1,393 @@
+// Push mode for Palo Alto Networks firewalls and Panorama.
+// For firewalls that cannot pull the EDL, the prefixes are written into address objects (and
+// optionally the static members of an address group) through the PAN-OS XML API, followed by
+// an optional commit. Devices are configured in config/panos.json.
+
+import https from 'https';
+import { readFileSync, existsSync } from 'fs';
+import { randomUUID, createHash } from 'crypto';
+import { rootCertificates } from 'tls';
+import { fetchWithRetry } from './http.js';
+import { writeFileAtomic, createMutex } from './storage.js';
+
+export const PANOS_DEVICE_TYPES = ['firewall', 'panorama'];
+
+export const PANOS_FAMILIES = ['ipv4', 'ipv6'];
+
+const DEVICE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+// PAN-OS object names: up to 63 characters, starting with an alphanumeric character
+const MAX_OBJECT_NAME_LENGTH = 63;
+const OBJECT_PREFIX_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,19}$/;
+const GROUP_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 ._-]{0,62}$/;
+const LOCATION_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 ._-]{0,62}$/;
+
+// Static members of an address group, the limit of most PAN-OS platforms
+const DEFAULT_MAX_GROUP_MEMBERS = 2500;
+
+// Objects per set or delete request, keeps the requests well below the API size limits
+const SET_BATCH_SIZE = 500;
+const DELETE_BATCH_SIZE = 100;
+
+// Marks the objects created by a push, only those are ever deleted
+const DESCRIPTION = 'Managed by Starlink IP EDL';
+
+const escapeXml = (text) =>
+  String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const unescapeXml = (text) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+const validateDevice = (device, index) => {
+  const label = `PAN-OS device #${index + 1}${device?.id ? ` "${device.id}"` : ''}`;
+
+  if (!device || typeof device !== 'object') {
+    throw new Error(`${label} must be an object`);
+  }
+  if (!DEVICE_ID_PATTERN.test(device.id || '')) {
+    throw new Error(`${label}: id must be lower-case letters, digits and dashes`);
+  }
+  if (!/^https?:\/\//.test(device.url || '')) {
+    throw new Error(`${label}: url must be an http or https URL`);
+  }
+  if (!device.apiKey) {
+    throw new Error(`${label}: apiKey is required`);
+  }
+
+  const type = device.type || 'firewall';
+  if (!PANOS_DEVICE_TYPES.includes(type)) {
+    throw new Error(`${label}: type must be one of ${PANOS_DEVICE_TYPES.join(', ')}`);
+  }
+  if (type === 'panorama' && !LOCATION_PATTERN.test(device.deviceGroup || '')) {
+    throw new Error(`${label}: deviceGroup is required for Panorama`);
+  }
+  if (type === 'firewall' && device.vsys && !LOCATION_PATTERN.test(device.vsys)) {
+    throw new Error(`${label}: invalid vsys`);
+  }
+
+  const objectPrefix = device.objectPrefix || 'starlink-';
+  if (!OBJECT_PREFIX_PATTERN.test(objectPrefix)) {
+    throw new Error(`${label}: objectPrefix must be up to 20 letters, digits, dots, dashes or underscores`);
+  }
+  if (device.addressGroup && !GROUP_NAME_PATTERN.test(device.addressGroup)) {
+    throw new Error(`${label}: invalid addressGroup name`);
+  }
+
+  const maxGroupMembers = device.maxGroupMembers ?? DEFAULT_MAX_GROUP_MEMBERS;
+  if (!Number.isInteger(maxGroupMembers) || maxGroupMembers < 1) {
+    throw new Error(`${label}: maxGroupMembers must be a positive whole number`);
+  }
+
+  const families = device.families || PANOS_FAMILIES;
+  if (!Array.isArray(families) || families.length === 0 || families.some(family => !PANOS_FAMILIES.includes(family))) {
+    throw new Error(`${label}: families must be a list of ${PANOS_FAMILIES.join(', ')}`);
+  }
+
+  return {
+    id: device.id,
+    name: device.name || device.id,
+    url: device.url.replace(/\/+$/, ''),
+    apiKey: device.apiKey,
+    type,
+    vsys: type === 'firewall' ? device.vsys || 'vsys1' : null,
+    deviceGroup: type === 'panorama' ? device.deviceGroup : null,
+    objectPrefix,
+    addressGroup: device.addressGroup || null,
+    maxGroupMembers,
+    // Source ids whose prefixes are pushed, the primary source when empty
+    sources: Array.isArray(device.sources) ? device.sources : [],
+    families,
+    commit: device.commit === true,
+    // Firewalls usually have self-signed management certificates
+    caFile: device.caFile || null,
+    insecure: device.insecure === true
+  };
+};
+
+/**
+ * Read the device list from `configPath` (`{ "devices": [...] }`). Without the file nothing is
+ * pushed. Invalid configs throw, like the sources config.
+ */
+export const loadPanosDevices = (configPath) => {
+  if (!existsSync(configPath)) {
+    return [];
+  }
+
+  const raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+  const devices = (Array.isArray(raw.devices) ? raw.devices : []).map(validateDevice);
+
+  const ids = new Set();
+  for (const device of devices) {
+    if (ids.has(device.id)) {
+      throw new Error(`Duplicate PAN-OS device id "${device.id}" in ${configPath}`);
+    }
+    ids.add(device.id);
+  }
+
+  return devices;
+};
+
+// Config location of the address objects: a vsys on a firewall, a device group on Panorama
+const baseXpath = (device) => device.type === 'panorama'
+  ? `/config/devices/entry[@name='localhost.localdomain']/device-group/entry[@name='${device.deviceGroup}']`
+  : `/config/devices/entry[@name='localhost.localdomain']/vsys/entry[@name='${device.vsys}']`;
+
+// 98.97.12.0/24 becomes starlink-98.97.12.0_24, 2605:59c8::/32 starlink-2605-59c8--_32. A name
+// that would be too long, e.g. a long IPv6 prefix, ends in a hash of the prefix instead, so it is
+// the same on every push.
+export const objectName = (prefix, cidr) => {
+  const name = `${prefix}${cidr.replace('/', '_').replace(/:/g, '-')}`;
+  if (name.length <= MAX_OBJECT_NAME_LENGTH) {
+    return name;
+  }
+  const hash = createHash('sha256').update(cidr).digest('hex');
+  return `${prefix}h-${hash}`.slice(0, MAX_OBJECT_NAME_LENGTH);
+};
+
+const chunk = (items, size) => {
+  const chunks = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+};
+
+// Message of an XML API response, the API nests it in <msg>, <line> or <result><msg>
+const responseMessage = (xml) => {
+  const msg = xml.match(/<msg>([\s\S]*?)<\/msg>/)?.[1] ?? xml.match(/<result>([\s\S]*?)<\/result>/)?.[1] ?? '';
+  return unescapeXml(msg.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim());
+};
+
+// Address objects (name → { cidr, description }) in a config response
+const parseAddressEntries = (xml) => {
+  const entries = new Map();
+  for (const [, name, body] of xml.matchAll(/<entry name="([^"]+)"[^>]*>([\s\S]*?)<\/entry>/g)) {
+    entries.set(unescapeXml(name), {
+      cidr: unescapeXml(body.match(/<ip-netmask>([^<]*)<\/ip-netmask>/)?.[1] ?? ''),
+      description: unescapeXml(body.match(/<description>([^<]*)<\/description>/)?.[1] ?? '')
+    });
+  }
+  return entries;
+};
+
+const parseMembers = (xml) =>
+  Array.from(xml.matchAll(/<member>([^<]*)<\/member>/g), ([, member]) => unescapeXml(member));
+
+/**
+ * Create the pusher for `devices`. `getPrefixes(device)` returns `{ ipv4, ipv6 }` for the
+ * device's sources. The newest `maxLogEntries` pushes are kept in `logFilePath`; `request`
+ * holds the fetchWithRetry options (timeout, backoff, agent).
+ */
+export const createPanosPusher = ({ devices, getPrefixes, logFilePath, maxLogEntries = 200, request = {} }) => {
+  let pushes = [];
+
+  if (existsSync(logFilePath)) {
+    try {
+      pushes = JSON.parse(readFileSync(logFilePath, 'utf-8')).pushes || [];
+    } catch (error) {
+      console.error(`Ignoring unreadable PAN-OS push log ${logFilePath}:`, error.message);
+    }
+  }
+
+  const logPush = (push) => {
+    pushes = [push, ...pushes].slice(0, maxLogEntries);
+    try {
+      writeFileAtomic(logFilePath, JSON.stringify({ pushes }, null, 2));
+    } catch (error) {
+      console.error('Error writing PAN-OS push log:', error);
+    }
+    return push;
+  };
+
+  // Devices with their own TLS settings get a dedicated agent and are connected directly
+  const agents = new Map(devices.filter(device => device.caFile || device.insecure).map(device => [
+    device.id,
+    new https.Agent({
+      ...(device.caFile && { ca: [...rootCertificates, readFileSync(device.caFile, 'utf-8')] }),
+      rejectUnauthorized: !device.insecure
+    })
+  ]));
+
+  // Pushes to one device never overlap
+  const locks = new Map(devices.map(device => [device.id, createMutex()]));
+
+  // One XML API call, resolves with the response body and throws on an error response
+  const callApi = async (device, params) => {
+    const { response, body: xml } = await fetchWithRetry(`${device.url}/api/`, {
+      ...request,
+      ...(agents.has(device.id) && { agent: agents.get(device.id) }),
+      label: `PAN-OS ${device.id}`,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'X-PAN-KEY': device.apiKey
+      },
+      body: new URLSearchParams(params).toString()
+    });
+    const status = xml.match(/<response[^>]*status="(\w+)"/)?.[1];
+
+    if (!response.ok || status !== 'success') {
+      const message = responseMessage(xml) || `HTTP ${response.status}: ${response.statusText}`;
+      throw new Error(`PAN-OS ${params.type}${params.action ? ` ${params.action}` : ''} failed: ${message}`);
+    }
+    return xml;
+  };
+
+  // Commit on a firewall; on Panorama commit and push to the device group. Returns the job ids.
+  const commit = async (device) => {
+    const jobs = [];
+    const description = `<description>${escapeXml(DESCRIPTION)}</description>`;
+    const jobOf = (xml) => xml.match(/<job>(\d+)<\/job>/)?.[1] ?? null;
+
+    jobs.push(jobOf(await callApi(device, { type: 'commit', cmd: `<commit>${description}</commit>` })));
+
+    if (device.type === 'panorama') {
+      jobs.push(jobOf(await callApi(device, {
+        type: 'commit',
+        action: 'all',
+        cmd: `<commit-all><shared-policy><device-group><entry name="${escapeXml(device.deviceGroup)}"/></device-group>${description}</shared-policy></commit-all>`
+      })));
+    }
+
+    // No job id means there was nothing to commit
+    return jobs.filter(Boolean);
+  };
+
+  const pushDevice = async (device, trigger) => {
+    const startedAt = Date.now();
+    const push = { id: randomUUID(), device: device.id, trigger, date: new Date(startedAt).toISOString() };
+
+    try {
+      const prefixes = getPrefixes(device);
+      const cidrs = device.families.flatMap(family => prefixes[family] || []);
+
+      // Pushing nothing would delete every object; an empty list is never intended
+      if (cidrs.length === 0) {
+        throw new Error('No prefixes to push');
+      }
+
+      // Checked before anything is changed, PAN-OS would refuse the group edit halfway through
+      if (device.addressGroup && cidrs.length > device.maxGroupMembers) {
+        throw new Error(`${cidrs.length} prefixes exceed the limit of ${device.maxGroupMembers} members of address group ${device.addressGroup}`);
+      }
+
+      const base = baseXpath(device);
+      const desired = new Map(cidrs.map(cidr => [objectName(device.objectPrefix, cidr), cidr]));
+      const existing = parseAddressEntries(await callApi(device, { type: 'config', action: 'get', xpath: `${base}/address` }));
+      // The operator's own objects may share the prefix, only objects created by a push are managed
+      const managed = Array.from(existing)
+        .filter(([name, { description }]) => name.startsWith(device.objectPrefix) && description === DESCRIPTION)
+        .map(([name]) => name);
+
+      const toSet = Array.from(desired).filter(([name, cidr]) => {
+        const entry = existing.get(name);
+        return entry?.cidr !== cidr || entry.description !== DESCRIPTION;
+      });
+      const toDelete = managed.filter(name => !desired.has(name));
+
+      for (const batch of chunk(toSet, SET_BATCH_SIZE)) {
+        await callApi(device, {
+          type: 'config',
+          action: 'set',
+          xpath: `${base}/address`,
+          element: batch.map(([name, cidr]) =>
+            `<entry name="${escapeXml(name)}"><ip-netmask>${escapeXml(cidr)}</ip-netmask><description>${escapeXml(DESCRIPTION)}</description></entry>`
+          ).join('')
+        });
+      }
+
+      // The group is replaced before stale objects are deleted, PAN-OS refuses to delete referenced objects
+      let groupUpdated = false;
+      if (device.addressGroup) {
+        const groupXpath = `${base}/address-group/entry[@name='${device.addressGroup}']`;
+        const members = parseMembers(await callApi(device, { type: 'config', action: 'get', xpath: groupXpath }));
+        const wanted = Array.from(desired.keys());
+
+        if (members.length !== wanted.length || members.some(member => !desired.has(member))) {
+          await callApi(device, {
+            type: 'config',
+            action: 'edit',
+            xpath: groupXpath,
+            element: `<entry name="${escapeXml(device.addressGroup)}"><static>${wanted.map(name => `<member>${escapeXml(name)}</member>`).join('')}</static><description>${escapeXml(DESCRIPTION)}</description></entry>`
+          });
+          groupUpdated = true;
+        }
+      }
+
+      for (const batch of chunk(toDelete, DELETE_BATCH_SIZE)) {
+        await callApi(device, {
+          type: 'config',
+          action: 'delete',
+          xpath: `${base}/address/entry[${batch.map(name => `@name='${name}'`).join(' or ')}]`
+        });
+      }
+
+      const changed = toSet.length > 0 || toDelete.length > 0 || groupUpdated;
+      const jobs = device.commit && changed ? await commit(device) : [];
+
+      console.log(`PAN-OS ${device.id}: ${desired.size} objects, ${toSet.length} set, ${toDelete.length} deleted${jobs.length > 0 ? `, commit job ${jobs.join(', ')}` : ''}`);
+
+      return logPush({
+        ...push,
+        success: true,
+        total: desired.size,
+        set: toSet.length,
+        deleted: toDelete.length,
+        groupUpdated,
+        committed: jobs.length > 0,
+        commitJobs: jobs,
+        durationMs: Date.now() - startedAt
+      });
+    } catch (error) {
+      console.error(`PAN-OS ${device.id} push failed:`, error.message);
+      return logPush({ ...push, success: false, error: error.message, durationMs: Date.now() - startedAt });
+    }
+  };
+
+  const lastPush = (id) => pushes.find(entry => entry.device === id) || null;
+
+  /**
+   * Push to the devices with the given ids, or to all devices. Resolves with one push log
+   * entry per device and never rejects.
+   */
+  const push = (ids = null, trigger = 'manual') => {
+    const targets = ids ? devices.filter(device => ids.includes(device.id)) : devices;
+    return Promise.all(targets.map(device =>
+      locks.get(device.id).runExclusive(() => pushDevice(device, trigger))
+    ));
+  };
+
+  // After a change of `sourceId`, push to the devices that use it
+  const pushChange = (sourceId, primarySourceId) => push(
+    devices
+      .filter(device => device.sources.length === 0 ? sourceId === primarySourceId : device.sources.includes(sourceId))
+      .map(device => device.id),
+    'change'
+  );
+
+  // Devices whose last push failed are retried after every refresh, not only on the next change
+  const retryFailed = () => push(
+    devices.filter(device => lastPush(device.id)?.success === false).map(device => device.id),
+    'retry'
+  );
+
+  const describe = () => devices.map(({ id, name, url, type, vsys, deviceGroup, objectPrefix, addressGroup, maxGroupMembers, sources, families, commit: commits }) => ({
+    id,
+    name,
+    target: new URL(url).origin,
+    type,
+    vsys,
+    deviceGroup,
+    objectPrefix,
+    addressGroup,
+    maxGroupMembers,
+    sources,
+    families,
+    commit: commits,
+    lastPush: lastPush(id)
+  }));
+
+  const getPushes = (limit = maxLogEntries) => pushes.slice(0, limit);
+
+  return { push, pushChange, retryFailed, describe, getPushes };
+};
@@ -0,0 +1,158 @@
+// Named feeds.
+// Each named feed is published at /feeds/<name>.txt and built from one or more sources by its own
+// filter pipeline: overrides, geo include/exclude, prefix length range and aggregation. Every named
+// feed keeps its own list and changelog, so its ETag only changes when its own list does.
+
+import { readFileSync, existsSync } from 'fs';
+import { parseGeoFilter, isEmptyGeoFilter, filterPrefixesByGeo } from './geo.js';
+import { aggregateIPv4, aggregateIPv6 } from './cidr.js';
+import { compareIPv6Cidrs } from '../shared/ipv6.js';
+import { compareIPv4Cidrs } from '../shared/ipv4.js';
+
+export const FEED_FAMILIES = ['ipv4', 'ipv6'];
+
+const FEED_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+const MAX_PREFIX_LENGTH = { ipv4: 32, ipv6: 128 };
+
+const validateGeoFilter = (value, label, field) => {
+  if (value === undefined || value === null) {
+    return parseGeoFilter();
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${label}: ${field} must be an object with country, region and city`);
+  }
+  try {
+    return parseGeoFilter(value);
+  } catch (error) {
+    throw new Error(`${label}: ${field}: ${error.message}`);
+  }
+};
+
+const validatePrefixLength = (value, family, label) => {
+  const max = MAX_PREFIX_LENGTH[family];
+  const range = { min: value?.min ?? 0, max: value?.max ?? max };
+
+  if (value !== undefined && (typeof value !== 'object' || value === null || Array.isArray(value))) {
+    throw new Error(`${label}: prefixLength must be an object with min and max`);
+  }
+  for (const bound of ['min', 'max']) {
+    if (!Number.isInteger(range[bound]) || range[bound] < 0 || range[bound] > max) {
+      throw new Error(`${label}: prefixLength.${bound} must be a whole number from 0 to ${max}`);
+    }
+  }
+  if (range.min > range.max) {
+    throw new Error(`${label}: prefixLength.min must not be greater than prefixLength.max`);
+  }
+  return range;
+};
+
+const validateFeed = (feed, index, sourceIds) => {
+  const label = `Feed #${index + 1}${feed?.name ? ` "${feed.name}"` : ''}`;
+
+  if (!feed || typeof feed !== 'object') {
+    throw new Error(`${label} must be an object`);
+  }
+  if (!FEED_NAME_PATTERN.test(feed.name || '')) {
+    throw new Error(`${label}: name must be lower-case letters, digits and dashes`);
+  }
+
+  const family = feed.family ?? 'ipv4';
+  if (!FEED_FAMILIES.includes(family)) {
+    throw new Error(`${label}: family must be one of ${FEED_FAMILIES.join(', ')}`);
+  }
+
+  // Without a list the feed is built from the primary source
+  const feedSources = feed.sources ?? [sourceIds[0]];
+  if (!Array.isArray(feedSources) || feedSources.length === 0) {
+    throw new Error(`${label}: sources must be a non-empty list of source ids`);
+  }
+  for (const id of feedSources) {
+    if (!sourceIds.includes(id)) {
+      throw new Error(`${label}: unknown source "${id}"`);
+    }
+  }
+
+  for (const field of ['aggregate', 'overrides']) {
+    if (feed[field] !== undefined && typeof feed[field] !== 'boolean') {
+      throw new Error(`${label}: ${field} must be true or false`);
+    }
+  }
+
+  return {
+    name: feed.name,
+    title: feed.title || feed.name,
+    description: feed.description || '',
+    family,
+    sources: Array.from(new Set(feedSources)),
+    include: validateGeoFilter(feed.include, label, 'include'),
+    exclude: validateGeoFilter(feed.exclude, label, 'exclude'),
+    prefixLength: validatePrefixLength(feed.prefixLength, family, label),
+    aggregate: feed.aggregate ?? false,
+    // Manual overrides only exist for the primary source; false publishes its upstream lists
+    overrides: feed.overrides ?? true
+  };
+};
+
+/**
+ * Read the named feeds from `configPath` (`{ "feeds": [...] }`). `sourceIds` are the ids of the
+ * configured sources, the first being the primary one. Without the file there are no named
+ * feeds. Invalid configs throw, like the sources config.
+ */
+export const loadFeeds = (configPath, sourceIds) => {
+  if (!existsSync(configPath)) {
+    return [];
+  }
+
+  const raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+  const feeds = (Array.isArray(raw.feeds) ? raw.feeds : []).map((feed, index) =>
+    validateFeed(feed, index, sourceIds)
+  );
+
+  const names = new Set();
+  for (const feed of feeds) {
+    if (names.has(feed.name)) {
+      throw new Error(`Duplicate feed name "${feed.name}" in ${configPath}`);
+    }
+    names.add(feed.name);
+  }
+
+  return feeds;
+};
+
+const prefixLengthOf = (prefix) => Number(prefix.slice(prefix.indexOf('/') + 1));
+
+/**
+ * Run the pipeline of a named feed. `inputs` holds `{ prefixes, geo }` for each of its sources,
+ * already with or without the overrides as the feed asks. The union is filtered by geo (include,
+ * then exclude) and by prefix length, and aggregated last, so an aggregated prefix can be shorter
+ * than `prefixLength.min`. Prefixes without geo attributes never match a geo filter.
+ */
+export const buildFeedPrefixes = (feed, inputs) => {
+  const merged = new Set();
+  const geo = {};
+
+  for (const input of inputs) {
+    input.prefixes.forEach(prefix => merged.add(prefix));
+    Object.assign(geo, input.geo);
+  }
+
+  let prefixes = filterPrefixesByGeo(Array.from(merged), geo, feed.include);
+
+  if (!isEmptyGeoFilter(feed.exclude)) {
+    const excluded = new Set(filterPrefixesByGeo(prefixes, geo, feed.exclude));
+    prefixes = prefixes.filter(prefix => !excluded.has(prefix));
+  }
+
+  prefixes = prefixes
+    .filter(prefix => {
+      const length = prefixLengthOf(prefix);
+      return length >= feed.prefixLength.min && length <= feed.prefixLength.max;
+    })
+    .sort(feed.family === 'ipv6' ? compareIPv6Cidrs : compareIPv4Cidrs);
+
+  if (!feed.aggregate) {
+    return prefixes;
+  }
+  return feed.family === 'ipv6' ? aggregateIPv6(prefixes) : aggregateIPv4(prefixes);
+};
@@ -0,0 +1,352 @@
+// In-process scheduler for periodic refreshes.
+// Supports a fixed interval or a 5-field cron expression (minute hour day-of-month month day-of-week,
+// evaluated in server local time), optional random jitter, and guarantees runs never overlap.
+
+// setTimeout only accepts delays up to ~24.8 days, longer waits are chained
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+// Parse a single cron field ("*", "5", "1-5", "*/15", "0-30/10", "1,15") into a set of values
+const parseCronField = (value, { name, min, max }) => {
+  const values = new Set();
+
+  for (const part of value.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in cron ${name} field`);
+    }
+
+    let start;
+    let end;
+
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      [start, end] = range.split('-').map(Number);
+    } else {
+      start = Number(range);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid value "${part}" in cron ${name} field (allowed ${min}-${max})`);
+    }
+
+    for (let i = start; i <= end; i += step) {
+      values.add(i);
+    }
+  }
+
+  return values;
+};
+
+export const parseCron = (expression) => {
+  const parts = String(expression).trim().split(/\s+/);
+
+  if (parts.length !== CRON_FIELDS.length) {
+    throw new Error(`Cron expression must have ${CRON_FIELDS.length} fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseCronField(part, CRON_FIELDS[i]));
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // Standard cron semantics: when both day fields are restricted, either one may match
+    dayOfMonthRestricted: parts[2] !== '*',
+    dayOfWeekRestricted: parts[4] !== '*'
+  };
+};
+
+const matchesDay = (cron, date) => {
+  const domMatch = cron.daysOfMonth.has(date.getDate());
+  const dowMatch = cron.daysOfWeek.has(date.getDay());
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+};
+
+// Find the first minute strictly after `from` that matches the cron expression
+export const nextCronDate = (cron, from = new Date()) => {
+  const date = new Date(from.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  // Five years is enough to find any valid date (e.g. Feb 29 on a given weekday)
+  const limit = from.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  return null;
+};
+
+// Find the last minute at or before `from` that matches the cron expression
+export const previousCronDate = (cron, from = new Date()) => {
+  const date = new Date(from.getTime());
+  date.setSeconds(0, 0);
+
+  const limit = from.getTime() - 5 * 366 * 24 * 60 * 60 * 1000;
+
+  // Each step moves to the last minute of the previous month, day or hour
+  while (date.getTime() >= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setDate(1);
+      date.setHours(0, -1, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setHours(0, -1, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getHours())) {
+      date.setMinutes(-1, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() - 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  return null;
+};
+
+/**
+ * Create a scheduler that runs `task` on an interval or cron expression.
+ *
+ * Only one run is ever in flight: scheduled ticks that fire while a run is still
+ * going are skipped, and `runNow()` returns the in-flight run instead of starting another.
+ * `configure()` changes the schedule of a running scheduler, e.g. after a settings change.
+ */
+export const createScheduler = ({ task, intervalMinutes, cron, jitterSeconds = 0, enabled = true, name = 'scheduler' }) => {
+  let parsedCron = cron ? parseCron(cron) : null;
+
+  if (!parsedCron && !(intervalMinutes > 0)) {
+    throw new Error(`${name}: an interval in minutes or a cron expression is required`);
+  }
+
+  let timer = null;
+  let nextRunAt = null;
+  let inFlight = null;
+  let lastRun = null;
+  let started = false;
+
+  const computeNextRun = () => {
+    const now = new Date();
+    const base = parsedCron
+      ? nextCronDate(parsedCron, now)
+      : new Date(now.getTime() + intervalMinutes * 60 * 1000);
+
+    if (!base) {
+      return null;
+    }
+
+    const jitterMs = jitterSeconds > 0 ? Math.floor(Math.random() * jitterSeconds * 1000) : 0;
+    return new Date(base.getTime() + jitterMs);
+  };
+
+  const run = (trigger) => {
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const startedAt = new Date();
+    console.log(`[${name}] Starting ${trigger} run`);
+
+    inFlight = (async () => {
+      try {
+        const result = await task();
+        lastRun = {
+          trigger,
+          startedAt: startedAt.toISOString(),
+          finishedAt: new Date().toISOString(),
+          success: true,
+          result
+        };
+        return result;
+      } catch (error) {
+        lastRun = {
+          trigger,
+          startedAt: startedAt.toISOString(),
+          finishedAt: new Date().toISOString(),
+          success: false,
+          error: error.message
+        };
+        throw error;
+      } finally {
+        inFlight = null;
+        // Re-arm when the timer was used up by this run or dropped by configure() during it
+        if (!timer) {
+          scheduleNext();
+        }
+      }
+    })();
+
+    return inFlight;
+  };
+
+  const arm = (target) => {
+    const delay = Math.max(0, target.getTime() - Date.now());
+
+    timer = setTimeout(() => {
+      if (delay > MAX_TIMEOUT_MS) {
+        arm(target);
+        return;
+      }
+      tick();
+    }, Math.min(delay, MAX_TIMEOUT_MS));
+
+    // Never keep the process alive just for the scheduler
+    timer.unref?.();
+  };
+
+  const disarm = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    nextRunAt = null;
+  };
+
+  const scheduleNext = () => {
+    disarm();
+
+    if (!started || !enabled) {
+      return;
+    }
+
+    nextRunAt = computeNextRun();
+
+    if (!nextRunAt) {
+      console.warn(`[${name}] Cron expression never matches, no further runs scheduled`);
+      return;
+    }
+
+    arm(nextRunAt);
+  };
+
+  // The run schedules the next one when it finishes, including a run already in progress
+  const tick = async () => {
+    timer = null;
+
+    if (inFlight) {
+      console.warn(`[${name}] Previous run still in progress, skipping scheduled run`);
+      return;
+    }
+
+    try {
+      await run('scheduled');
+    } catch (error) {
+      console.error(`[${name}] Scheduled run failed:`, error.message);
+    }
+  };
+
+  const start = () => {
+    if (started) {
+      return;
+    }
+    started = true;
+    scheduleNext();
+  };
+
+  const stop = () => {
+    started = false;
+    disarm();
+  };
+
+  // Replace the schedule; the next run is computed from now. Throws on an invalid cron expression.
+  const configure = (options) => {
+    const nextCron = options.cron !== undefined ? options.cron : cron;
+    const nextInterval = options.intervalMinutes ?? intervalMinutes;
+    const nextParsedCron = nextCron ? parseCron(nextCron) : null;
+
+    if (!nextParsedCron && !(nextInterval > 0)) {
+      throw new Error(`${name}: an interval in minutes or a cron expression is required`);
+    }
+
+    cron = nextCron;
+    parsedCron = nextParsedCron;
+    intervalMinutes = nextInterval;
+    jitterSeconds = options.jitterSeconds ?? jitterSeconds;
+    enabled = options.enabled ?? enabled;
+
+    // The timer of the old schedule must not fire; a run in progress arms the new one when it finishes
+    if (inFlight) {
+      disarm();
+    } else {
+      scheduleNext();
+    }
+  };
+
+  // Minutes between the scheduled run before `at` and the one after it, the interval in interval
+  // mode; null when the cron expression never matches
+  const periodMinutes = (at = new Date()) => {
+    if (!parsedCron) {
+      return intervalMinutes;
+    }
+    const previous = previousCronDate(parsedCron, at);
+    const next = nextCronDate(parsedCron, at);
+    return previous && next ? Math.round((next.getTime() - previous.getTime()) / 60000) : null;
+  };
+
+  const getStatus = () => ({
+    enabled,
+    mode: parsedCron ? 'cron' : 'interval',
+    intervalMinutes: parsedCron ? null : intervalMinutes,
+    cron: parsedCron ? cron : null,
+    jitterSeconds,
+    running: inFlight !== null,
+    nextRunAt: nextRunAt ? nextRunAt.toISOString() : null,
+    lastRun
+  });
+
+  return {
+    start,
+    stop,
+    configure,
+    runNow: (trigger = 'manual') => run(trigger),
+    periodMinutes,
+    getStatus
+  };
+};
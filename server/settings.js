@@ -0,0 +1,187 @@
+// Server settings that can be changed while the server runs.
+// The environment variables provide the defaults; values saved through PUT /api/settings are
+// stored in config/config.json and take precedence. Only values that differ from the defaults
+// are written, so a setting nobody touched keeps following its environment variable.
+
+import { readFileSync, existsSync } from 'fs';
+import { writeFileAtomic } from './storage.js';
+import { parseCron } from './scheduler.js';
+
+/**
+ * Type and allowed range of every setting, by group. `upstream.url` replaces the URL (or file)
+ * of the primary source; null uses the one from the sources config.
+ */
+export const SETTINGS_SCHEMA = {
+  refresh: {
+    enabled: { type: 'boolean' },
+    intervalMinutes: { type: 'integer', min: 1, max: 7 * 24 * 60 },
+    cron: { type: 'cron', nullable: true },
+    jitterSeconds: { type: 'integer', min: 0, max: 3600 }
+  },
+  history: {
+    maxEntries: { type: 'integer', min: 0 },
+    maxAgeDays: { type: 'integer', min: 0 }
+  },
+  upstream: {
+    url: { type: 'url', nullable: true }
+  },
+  safety: {
+    maxRemovedPercent: { type: 'number', min: 0, max: 100 },
+    maxChurn: { type: 'integer', min: 0 }
+  }
+};
+
+const isObject = (value) => Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const cloneSettings = (settings) =>
+  Object.fromEntries(Object.entries(settings).map(([group, values]) => [group, { ...values }]));
+
+// Why `value` is not allowed for `field`, null when it is
+const checkValue = (value, field) => {
+  if (value === null) {
+    return field.nullable ? null : 'must not be empty';
+  }
+
+  switch (field.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+    case 'integer':
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return 'must be a number';
+      }
+      if (field.type === 'integer' && !Number.isInteger(value)) {
+        return 'must be a whole number';
+      }
+      if (field.min !== undefined && value < field.min) {
+        return `must be at least ${field.min}`;
+      }
+      if (field.max !== undefined && value > field.max) {
+        return `must be at most ${field.max}`;
+      }
+      return null;
+    case 'cron':
+      if (typeof value !== 'string') {
+        return 'must be a cron expression';
+      }
+      try {
+        parseCron(value);
+        return null;
+      } catch (error) {
+        return `is invalid (${error.message})`;
+      }
+    case 'url':
+      try {
+        return ['http:', 'https:'].includes(new URL(value).protocol) ? null : 'must be an http or https URL';
+      } catch {
+        return 'must be an http or https URL';
+      }
+    default:
+      return 'has an unknown type';
+  }
+};
+
+// `base` with the values of `patch`; every value the patch sets is validated
+const applyPatch = (base, patch) => {
+  const merged = cloneSettings(base);
+  const errors = [];
+
+  if (!isObject(patch)) {
+    return { merged, errors: [{ field: '', message: 'settings must be an object' }] };
+  }
+
+  for (const [group, values] of Object.entries(patch)) {
+    if (!SETTINGS_SCHEMA[group]) {
+      errors.push({ field: group, message: 'is not a known settings group' });
+      continue;
+    }
+    if (!isObject(values)) {
+      errors.push({ field: group, message: 'must be an object' });
+      continue;
+    }
+
+    for (const [key, value] of Object.entries(values)) {
+      const field = SETTINGS_SCHEMA[group][key];
+      const message = field ? checkValue(value, field) : 'is not a known setting';
+
+      if (message) {
+        errors.push({ field: `${group}.${key}`, message });
+      } else {
+        merged[group][key] = value;
+      }
+    }
+  }
+
+  return { merged, errors };
+};
+
+const toError = (errors, prefix = 'Invalid settings') =>
+  Object.assign(new Error(`${prefix}: ${errors.map(({ field, message }) => `${field} ${message}`.trim()).join('; ')}`), {
+    details: errors
+  });
+
+// The values that differ from the defaults, in the same groups
+const diffSettings = (settings, defaults) => {
+  const overrides = {};
+
+  for (const [group, values] of Object.entries(settings)) {
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== defaults[group][key]) {
+        overrides[group] = { ...overrides[group], [key]: value };
+      }
+    }
+  }
+
+  return overrides;
+};
+
+// The groups with at least one value that differs between two settings objects
+export const changedGroups = (settings, previous) =>
+  Object.keys(SETTINGS_SCHEMA).filter(group =>
+    Object.keys(SETTINGS_SCHEMA[group]).some(key => settings[group]?.[key] !== previous[group]?.[key])
+  );
+
+/**
+ * Create the settings store. `defaults` has a value for every field of SETTINGS_SCHEMA;
+ * `onChange(settings, previous)` runs after every saved update so the caller can apply it.
+ * An invalid settings file throws, like the other config files.
+ */
+export const createSettingsStore = ({ filePath, defaults, onChange }) => {
+  const saved = existsSync(filePath) ? JSON.parse(readFileSync(filePath, 'utf-8')) : {};
+  const initial = applyPatch(defaults, saved);
+
+  if (initial.errors.length > 0) {
+    throw toError(initial.errors, `Invalid settings in ${filePath}`);
+  }
+
+  let settings = initial.merged;
+
+  const get = () => cloneSettings(settings);
+
+  // Current values, defaults and the dotted names of the fields overridden in the settings file
+  const describe = () => ({
+    settings: get(),
+    defaults: cloneSettings(defaults),
+    overridden: Object.entries(diffSettings(settings, defaults))
+      .flatMap(([group, values]) => Object.keys(values).map(key => `${group}.${key}`))
+  });
+
+  // Merge `patch` (e.g. { refresh: { intervalMinutes: 60 } }) into the settings, save and apply.
+  // Throws with `details` listing each invalid field; nothing is changed then.
+  const update = (patch) => {
+    const { merged, errors } = applyPatch(settings, patch);
+
+    if (errors.length > 0) {
+      throw toError(errors);
+    }
+
+    const previous = settings;
+    writeFileAtomic(filePath, JSON.stringify(diffSettings(merged, defaults), null, 2));
+    settings = merged;
+
+    onChange?.(get(), cloneSettings(previous));
+    return describe();
+  };
+
+  return { get, describe, update };
+};
@@ -0,0 +1,222 @@
+// Upstream sources.
+// Each source is a named list of prefixes read from a URL or a local file in one of the
+// supported formats. The first source is the primary one behind /ipv4.txt and /ipv6.txt;
+// every source also gets its own feeds and changelog.
+
+import { readFileSync, existsSync, statSync } from 'fs';
+import { resolve } from 'path';
+import { fetchWithRetry } from './http.js';
+
+export const SOURCE_FORMATS = ['geofeed', 'cidr', 'json'];
+
+// Used when no sources config exists, matches what earlier versions fetched
+export const DEFAULT_SOURCES = [
+  {
+    id: 'starlink',
+    name: 'Starlink',
+    url: 'https://geoip.starlinkisp.net/feed.csv',
+    format: 'geofeed',
+    tag: 'starlink'
+  }
+];
+
+const SOURCE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+const validateSource = (source, index, baseDir) => {
+  const label = `Source #${index + 1}${source?.id ? ` "${source.id}"` : ''}`;
+
+  if (!source || typeof source !== 'object') {
+    throw new Error(`${label} must be an object`);
+  }
+  if (!SOURCE_ID_PATTERN.test(source.id || '')) {
+    throw new Error(`${label}: id must be lower-case letters, digits and dashes`);
+  }
+  if (Boolean(source.url) === Boolean(source.path)) {
+    throw new Error(`${label}: exactly one of url and path is required`);
+  }
+  if (!SOURCE_FORMATS.includes(source.format)) {
+    throw new Error(`${label}: format must be one of ${SOURCE_FORMATS.join(', ')}`);
+  }
+
+  return {
+    id: source.id,
+    name: source.name || source.id,
+    url: source.url || null,
+    // Relative paths are resolved against the directory of the config file
+    path: source.path ? resolve(baseDir, source.path) : null,
+    format: source.format,
+    tag: source.tag || null
+  };
+};
+
+/**
+ * Read the source list from `configPath` (`{ "sources": [...] }`). Without the file the
+ * Starlink geofeed is the only source. Invalid configs throw, so a typo never silently
+ * drops a feed.
+ */
+export const loadSources = (configPath) => {
+  if (!existsSync(configPath)) {
+    return DEFAULT_SOURCES.map(source => ({ ...source, path: null }));
+  }
+
+  const raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+  const baseDir = resolve(configPath, '..');
+  const sources = (Array.isArray(raw.sources) ? raw.sources : []).map((source, index) =>
+    validateSource(source, index, baseDir)
+  );
+
+  if (sources.length === 0) {
+    throw new Error(`${configPath} does not list any sources`);
+  }
+
+  const ids = new Set();
+  for (const source of sources) {
+    if (ids.has(source.id)) {
+      throw new Error(`Duplicate source id "${source.id}" in ${configPath}`);
+    }
+    ids.add(source.id);
+  }
+
+  return sources;
+};
+
+// Where a source is read from, for logs and the UI
+export const describeLocation = (source) => source.url || source.path;
+
+/**
+ * Read a source. `validators` (`{ etag, lastModified }`) from the previous read make the request
+ * conditional; when the source is unchanged the result has `notModified: true` and no content.
+ * File sources use their modification time as the validator. `agent` carries the proxy and TLS
+ * settings for URL sources.
+ *
+ * Resolves with `{ content, notModified, validators, attempts, durationMs }`. Failed reads reject
+ * with an error that also carries `attempts` and `durationMs`.
+ */
+export const readSource = async (source, { validators = null, timeoutMs, retries, backoffMs, agent } = {}) => {
+  const startedAt = Date.now();
+
+  if (source.path) {
+    try {
+      const lastModified = statSync(source.path).mtime.toUTCString();
+      const notModified = validators?.lastModified === lastModified;
+      return {
+        content: notModified ? null : readFileSync(source.path, 'utf-8'),
+        notModified,
+        validators: { etag: null, lastModified },
+        attempts: 1,
+        durationMs: Date.now() - startedAt
+      };
+    } catch (error) {
+      throw Object.assign(new Error(`Failed to read ${source.name} from ${source.path}: ${error.message}`), {
+        attempts: 1,
+        durationMs: Date.now() - startedAt
+      });
+    }
+  }
+
+  console.log(`Attempting to fetch ${source.name} data...`);
+
+  const headers = {
+    'Accept': 'text/csv,text/plain,application/json,*/*',
+    'User-Agent': 'Mozilla/5.0 (compatible; StarlinkIPExtractor/1.0)'
+  };
+  if (validators?.etag) {
+    headers['If-None-Match'] = validators.etag;
+  }
+  if (validators?.lastModified) {
+    headers['If-Modified-Since'] = validators.lastModified;
+  }
+
+  let attempts = 0;
+
+  try {
+    const result = await fetchWithRetry(source.url, { label: source.name, headers, timeoutMs, retries, backoffMs, agent });
+    const { response, body: content } = result;
+    attempts = result.attempts;
+
+    if (response.status === 304) {
+      console.log(`${source.name} data not modified since the last fetch`);
+      return { content: null, notModified: true, validators, attempts, durationMs: Date.now() - startedAt };
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    console.log(`Successfully fetched ${source.name} data`);
+
+    return {
+      content,
+      notModified: false,
+      validators: {
+        etag: response.headers.get('etag'),
+        lastModified: response.headers.get('last-modified')
+      },
+      attempts,
+      durationMs: Date.now() - startedAt
+    };
+  } catch (error) {
+    console.error(`Failed to fetch ${source.name} data:`, error.message);
+    throw Object.assign(new Error(`Failed to fetch ${source.name} data: ${error.message}`), {
+      attempts: error.attempts ?? attempts,
+      durationMs: Date.now() - startedAt
+    });
+  }
+};
+
+// RFC 8805 geofeed: prefix,country,region,city,postal
+const geofeedRows = (text) =>
+  text.split('\n').flatMap((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      return [];
+    }
+    const fields = trimmed.split(',');
+    return [{ line: index + 1, text: trimmed, prefix: fields[0].trim(), fields }];
+  });
+
+// One prefix per line; anything after the first whitespace, "#" or ";" is a comment
+const cidrListRows = (text) =>
+  text.split('\n').flatMap((line, index) => {
+    const trimmed = line.replace(/[#;].*$/, '').trim();
+    if (!trimmed) {
+      return [];
+    }
+    return [{ line: index + 1, text: line.trim(), prefix: trimmed.split(/\s+/)[0] }];
+  });
+
+const JSON_PREFIX_KEYS = ['prefix', 'cidr', 'ip_prefix', 'ipv6_prefix', 'network'];
+
+// A JSON array of prefixes or of objects holding one, optionally wrapped as { "prefixes": [...] }
+const jsonRows = (text) => {
+  const parsed = JSON.parse(text);
+  const items = Array.isArray(parsed) ? parsed : parsed?.prefixes;
+
+  if (!Array.isArray(items)) {
+    throw new Error('JSON source must be an array or an object with a "prefixes" array');
+  }
+
+  return items.map((item, index) => {
+    const key = item && typeof item === 'object' ? JSON_PREFIX_KEYS.find(name => typeof item[name] === 'string') : null;
+    const prefix = typeof item === 'string' ? item : key ? item[key] : '';
+    return { line: index + 1, text: JSON.stringify(item).slice(0, 200), prefix: prefix.trim() };
+  });
+};
+
+/**
+ * Split source content into rows of `{ line, text, prefix, fields? }`. Only geofeed rows
+ * carry `fields` (the CSV columns holding the geo attributes). `line` is the line number, or
+ * the array position for JSON sources.
+ */
+export const extractPrefixRows = (text, format) => {
+  switch (format) {
+    case 'geofeed':
+      return geofeedRows(text);
+    case 'cidr':
+      return cidrListRows(text);
+    case 'json':
+      return jsonRows(text);
+    default:
+      throw new Error(`Unsupported source format "${format}"`);
+  }
+};
@@ -0,0 +1,46 @@
+// Crash-safe file writes and serialization of data updates.
+// Files are written to a temporary file next to the target and renamed over it, so readers
+// (and express.static) only ever see the old or the new content, never a partial write.
+
+import { openSync, writeSync, fsyncSync, closeSync, renameSync, rmSync } from 'fs';
+import { dirname, basename, resolve } from 'path';
+
+/**
+ * Replace `path` with `content` atomically. The temporary file is a dotfile in the same
+ * directory (rename is only atomic within one file system, and static serving skips dotfiles).
+ */
+export const writeFileAtomic = (path, content) => {
+  const tempPath = resolve(dirname(path), `.${basename(path)}.${process.pid}.tmp`);
+
+  const fd = openSync(tempPath, 'w');
+  try {
+    writeSync(fd, content);
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+
+  try {
+    renameSync(tempPath, path);
+  } catch (error) {
+    rmSync(tempPath, { force: true });
+    throw error;
+  }
+};
+
+/**
+ * Promise based mutex. `runExclusive(task)` waits for every earlier task to settle before
+ * starting `task` and resolves or rejects with its result.
+ */
+export const createMutex = () => {
+  let tail = Promise.resolve();
+
+  const runExclusive = (task) => {
+    const run = tail.then(() => task());
+    // A failed task must not block the ones queued after it
+    tail = run.catch(() => {});
+    return run;
+  };
+
+  return { runExclusive };
+};
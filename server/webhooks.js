@@ -0,0 +1,270 @@
+// Outbound webhook notifications.
+// Webhooks are configured in config/webhooks.json and fire when a source's list changes, when
+// a fetch fails and when the safety guard holds an update. Deliveries run in the background
+// with retries and are recorded in a delivery log shown in the UI.
+
+import { readFileSync, existsSync } from 'fs';
+import { createHmac, randomUUID } from 'crypto';
+import { fetchWithRetry } from './http.js';
+import { writeFileAtomic } from './storage.js';
+
+export const WEBHOOK_EVENTS = ['change', 'failure', 'held'];
+
+export const WEBHOOK_FORMATS = ['json', 'slack', 'teams'];
+
+const WEBHOOK_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+// Slack and Teams messages list at most this many prefixes per direction
+const MAX_LISTED_PREFIXES = 10;
+
+const validateWebhook = (webhook, index) => {
+  const label = `Webhook #${index + 1}${webhook?.id ? ` "${webhook.id}"` : ''}`;
+
+  if (!webhook || typeof webhook !== 'object') {
+    throw new Error(`${label} must be an object`);
+  }
+  if (!WEBHOOK_ID_PATTERN.test(webhook.id || '')) {
+    throw new Error(`${label}: id must be lower-case letters, digits and dashes`);
+  }
+  if (!/^https?:\/\//.test(webhook.url || '')) {
+    throw new Error(`${label}: url must be an http or https URL`);
+  }
+
+  const format = webhook.format || 'json';
+  if (!WEBHOOK_FORMATS.includes(format)) {
+    throw new Error(`${label}: format must be one of ${WEBHOOK_FORMATS.join(', ')}`);
+  }
+
+  const events = webhook.events || WEBHOOK_EVENTS;
+  if (!Array.isArray(events) || events.some(event => !WEBHOOK_EVENTS.includes(event))) {
+    throw new Error(`${label}: events must be a list of ${WEBHOOK_EVENTS.join(', ')}`);
+  }
+
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    format,
+    events,
+    // Only notify about these source ids, all sources when empty
+    sources: Array.isArray(webhook.sources) ? webhook.sources : [],
+    secret: webhook.secret || null,
+    retries: Number.isInteger(webhook.retries) ? webhook.retries : 3
+  };
+};
+
+/**
+ * Read the webhook list from `configPath` (`{ "webhooks": [...] }`). Without the file no
+ * notifications are sent. Invalid configs throw, like the sources config.
+ */
+export const loadWebhooks = (configPath) => {
+  if (!existsSync(configPath)) {
+    return [];
+  }
+
+  const raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+  const webhooks = (Array.isArray(raw.webhooks) ? raw.webhooks : []).map(validateWebhook);
+
+  const ids = new Set();
+  for (const webhook of webhooks) {
+    if (ids.has(webhook.id)) {
+      throw new Error(`Duplicate webhook id "${webhook.id}" in ${configPath}`);
+    }
+    ids.add(webhook.id);
+  }
+
+  return webhooks;
+};
+
+// Slack and Teams webhook URLs are credentials, only the origin is shown
+const describeTarget = (url) => new URL(url).origin;
+
+const listPrefixes = (prefixes) => {
+  const shown = prefixes.slice(0, MAX_LISTED_PREFIXES).join(', ');
+  return prefixes.length > MAX_LISTED_PREFIXES ? `${shown} and ${prefixes.length - MAX_LISTED_PREFIXES} more` : shown;
+};
+
+// Title and detail lines shared by the Slack and Teams messages
+const describeEvent = (event) => {
+  const { source, data } = event;
+
+  switch (event.type) {
+    case 'change':
+      return {
+        title: `${data.test ? 'Test: ' : ''}${source.name}: IP list changed`,
+        lines: [
+          `IPv4: ${data.added.length} added, ${data.removed.length} removed (${data.ipv4Count} total)`,
+          `IPv6: ${data.addedIpv6.length} added, ${data.removedIpv6.length} removed (${data.ipv6Count} total)`,
+          ...(data.added.length > 0 ? [`Added: ${listPrefixes(data.added)}`] : []),
+          ...(data.removed.length > 0 ? [`Removed: ${listPrefixes(data.removed)}`] : []),
+          ...(data.approved ? ['Published after approval'] : []),
+          ...(data.override ? [`Override ${data.override.change}: ${data.override.action} ${data.override.cidr} by ${data.override.author} (${data.override.reason})`] : [])
+        ]
+      };
+    case 'failure':
+      return {
+        title: `${source.name}: fetch failed`,
+        lines: [data.error, ...(data.attempts ? [`Attempts: ${data.attempts}`] : [])]
+      };
+    case 'held':
+      return {
+        title: `${source.name}: update held for approval`,
+        lines: [
+          ...data.reasons,
+          `IPv4: ${data.added.length} added, ${data.removed.length} removed`,
+          'Approve or reject it in the UI or with POST /api/pending/approve | reject'
+        ]
+      };
+    default:
+      return { title: `${source.name}: ${event.type}`, lines: [] };
+  }
+};
+
+const buildPayload = (format, event) => {
+  if (format === 'json') {
+    return { event: event.type, id: event.id, timestamp: event.timestamp, source: event.source, ...event.data };
+  }
+
+  const { title, lines } = describeEvent(event);
+
+  if (format === 'slack') {
+    return { text: `*${title}*\n${lines.join('\n')}` };
+  }
+
+  // Teams workflows and connectors both accept an Adaptive Card wrapped in a message
+  return {
+    type: 'message',
+    attachments: [{
+      contentType: 'application/vnd.microsoft.card.adaptive',
+      content: {
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        type: 'AdaptiveCard',
+        version: '1.4',
+        body: [
+          { type: 'TextBlock', text: title, weight: 'Bolder', size: 'Medium', wrap: true },
+          ...lines.map(line => ({ type: 'TextBlock', text: line, wrap: true, spacing: 'Small' }))
+        ]
+      }
+    }]
+  };
+};
+
+/**
+ * Create the notifier for `webhooks`. `logFilePath` keeps the newest `maxLogEntries`
+ * deliveries; `request` holds the fetchWithRetry options (timeout, backoff, agent).
+ *
+ * `notify(type, source, data)` starts the deliveries in the background and returns a promise of
+ * their log entries, which never rejects.
+ */
+export const createWebhookNotifier = ({ webhooks, logFilePath, maxLogEntries = 200, request = {} }) => {
+  let deliveries = [];
+
+  if (existsSync(logFilePath)) {
+    try {
+      deliveries = JSON.parse(readFileSync(logFilePath, 'utf-8')).deliveries || [];
+    } catch (error) {
+      console.error(`Ignoring unreadable webhook delivery log ${logFilePath}:`, error.message);
+    }
+  }
+
+  const logDelivery = (delivery) => {
+    deliveries = [delivery, ...deliveries].slice(0, maxLogEntries);
+    try {
+      writeFileAtomic(logFilePath, JSON.stringify({ deliveries }, null, 2));
+    } catch (error) {
+      console.error('Error writing webhook delivery log:', error);
+    }
+    return delivery;
+  };
+
+  const deliver = async (webhook, event) => {
+    const body = JSON.stringify(buildPayload(webhook.format, event));
+    const headers = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'StarlinkIPExtractor-Webhook/1.0',
+      'X-EDL-Event': event.type,
+      'X-EDL-Delivery': event.id
+    };
+    if (webhook.secret) {
+      headers['X-EDL-Signature-256'] = `sha256=${createHmac('sha256', webhook.secret).update(body).digest('hex')}`;
+    }
+
+    const delivery = {
+      id: event.id,
+      webhook: webhook.id,
+      event: event.type,
+      source: event.source.id,
+      date: event.timestamp
+    };
+
+    try {
+      const { response, attempts, durationMs } = await fetchWithRetry(webhook.url, {
+        ...request,
+        label: `Webhook ${webhook.id}`,
+        method: 'POST',
+        headers,
+        body,
+        retries: webhook.retries
+      });
+
+      return logDelivery({
+        ...delivery,
+        success: response.ok,
+        status: response.status,
+        attempts,
+        durationMs,
+        ...(!response.ok && { error: `HTTP ${response.status}: ${response.statusText}` })
+      });
+    } catch (error) {
+      console.error(`Webhook ${webhook.id} failed:`, error.message);
+      return logDelivery({ ...delivery, success: false, status: null, attempts: error.attempts, durationMs: error.durationMs, error: error.message });
+    }
+  };
+
+  const subscribers = (type, sourceId) => webhooks.filter(webhook =>
+    webhook.events.includes(type) && (webhook.sources.length === 0 || webhook.sources.includes(sourceId))
+  );
+
+  const notify = (type, source, data, targets = subscribers(type, source.id)) => {
+    const event = {
+      id: randomUUID(),
+      type,
+      timestamp: new Date().toISOString(),
+      source: { id: source.id, name: source.name },
+      data
+    };
+
+    // Each webhook gets its own delivery, a slow endpoint does not delay the others
+    return Promise.all(targets.map(webhook => deliver(webhook, event)));
+  };
+
+  // Send a sample change event to one webhook, for checking the configuration
+  const sendTest = (id, source) => {
+    const webhook = webhooks.find(candidate => candidate.id === id);
+    if (!webhook) {
+      return null;
+    }
+    return notify('change', source, {
+      test: true,
+      added: ['192.0.2.0/24'],
+      removed: [],
+      addedIpv6: [],
+      removedIpv6: [],
+      ipv4Count: 1,
+      ipv6Count: 0
+    }, [webhook]);
+  };
+
+  const describe = () => webhooks.map(({ id, url, format, events, sources, secret, retries }) => ({
+    id,
+    target: describeTarget(url),
+    format,
+    events,
+    sources,
+    signed: Boolean(secret),
+    retries
+  }));
+
+  const getDeliveries = (limit = maxLogEntries) => deliveries.slice(0, limit);
+
+  return { notify, sendTest, describe, getDeliveries };
+};
@@ -0,0 +1,20 @@
+export interface IPv4Cidr {
+  /** Network address as an unsigned 32-bit number, host bits cleared */
+  network: number;
+  prefixLength: number;
+  /** Canonical "a.b.c.d/n" spelling */
+  text: string;
+}
+
+export type IPv4CidrValidation =
+  | { valid: true; cidr: IPv4Cidr; hostBitsSet: boolean }
+  | { valid: false; reason: string };
+
+export function parseIPv4(address: string): number | null;
+export function formatIPv4(value: number): string;
+export function prefixMask(prefixLength: number): number;
+export function validateIPv4Cidr(text: string): IPv4CidrValidation;
+export function parseIPv4Cidr(text: string): IPv4Cidr | null;
+export function cidrSize(prefixLength: number): number;
+export function compareIPv4Cidrs(a: string, b: string): number;
+export function sortIPv4Cidrs(prefixes: string[]): string[];
@@ -0,0 +1,95 @@
+// IPv4 address and CIDR parsing shared by the server (server.js) and the client (src/).
+// Plain JavaScript so Node can import it without a build step; types live in ipv4.d.ts.
+
+const OCTET_PATTERN = /^\d{1,3}$/;
+const PREFIX_PATTERN = /^\d{1,2}$/;
+
+// Parse a dotted-quad IPv4 address into an unsigned 32-bit number, or null if invalid
+export const parseIPv4 = (address) => {
+  const octets = String(address).trim().split('.');
+
+  if (octets.length !== 4) {
+    return null;
+  }
+
+  let value = 0;
+  for (const octet of octets) {
+    // Leading zeros are rejected because some parsers read them as octal
+    if (!OCTET_PATTERN.test(octet) || (octet.length > 1 && octet.startsWith('0')) || Number(octet) > 255) {
+      return null;
+    }
+    value = value * 256 + Number(octet);
+  }
+
+  return value;
+};
+
+export const formatIPv4 = (value) =>
+  [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff].join('.');
+
+// Netmask for a prefix length as an unsigned 32-bit number
+export const prefixMask = (prefixLength) =>
+  prefixLength === 0 ? 0 : (0xffffffff << (32 - prefixLength)) >>> 0;
+
+/**
+ * Validate an IPv4 CIDR prefix. Returns the parsed network or a human readable reason.
+ * Prefixes with host bits set ("10.0.0.5/24") are accepted and normalized to their network
+ * address, with `hostBitsSet` flagging that the input was not already canonical.
+ */
+export const validateIPv4Cidr = (text) => {
+  const input = String(text).trim();
+  const parts = input.split('/');
+
+  if (parts.length === 1) {
+    return { valid: false, reason: 'Missing prefix length' };
+  }
+  if (parts.length > 2) {
+    return { valid: false, reason: 'More than one "/" in prefix' };
+  }
+
+  const [addressText, prefixText] = parts;
+  const address = parseIPv4(addressText);
+
+  if (address === null) {
+    return { valid: false, reason: `Invalid IPv4 address "${addressText}"` };
+  }
+  if (!PREFIX_PATTERN.test(prefixText) || Number(prefixText) > 32) {
+    return { valid: false, reason: `Invalid prefix length "/${prefixText}" (allowed 0-32)` };
+  }
+
+  const prefixLength = Number(prefixText);
+  const network = (address & prefixMask(prefixLength)) >>> 0;
+
+  return {
+    valid: true,
+    cidr: {
+      network,
+      prefixLength,
+      text: `${formatIPv4(network)}/${prefixLength}`
+    },
+    hostBitsSet: network !== address
+  };
+};
+
+// Parse a CIDR prefix, returning null instead of a reason when it is invalid
+export const parseIPv4Cidr = (text) => {
+  const result = validateIPv4Cidr(text);
+  return result.valid ? result.cidr : null;
+};
+
+// Number of addresses covered by a prefix length
+export const cidrSize = (prefixLength) => 2 ** (32 - prefixLength);
+
+// Comparator ordering prefixes numerically by network address, then by prefix length
+export const compareIPv4Cidrs = (a, b) => {
+  const left = parseIPv4Cidr(a);
+  const right = parseIPv4Cidr(b);
+
+  // Invalid entries sort last so they stay visible instead of disappearing in the middle
+  if (!left || !right) {
+    return left ? -1 : right ? 1 : String(a).localeCompare(String(b));
+  }
+  return left.network - right.network || left.prefixLength - right.prefixLength;
+};
+
+export const sortIPv4Cidrs = (prefixes) => [...prefixes].sort(compareIPv4Cidrs);
@@ -0,0 +1,11 @@
+export interface IPv6Cidr {
+  /** Network address, host bits cleared */
+  network: bigint;
+  prefixLength: number;
+}
+
+export function parseIPv6(address: string): bigint | null;
+export function formatIPv6(value: bigint): string;
+export function parseIPv6Cidr(cidr: string): IPv6Cidr | null;
+export function canonicalizeIPv6Cidr(cidr: string): string | null;
+export function compareIPv6Cidrs(a: string, b: string): number;
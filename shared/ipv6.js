@@ -0,0 +1,154 @@
+// IPv6 address and prefix helpers shared by the server and the client (src/).
+// Addresses are handled as BigInt so prefixes can be masked, compared and sorted numerically.
+// Plain JavaScript like ipv4.js; types live in ipv6.d.ts.
+
+const IPV6_BITS = 128n;
+const GROUP_PATTERN = /^[0-9a-f]{1,4}$/i;
+const IPV4_TAIL_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+// Groups of one side of "::"; `ipv4Tail` allows an embedded IPv4 address as the last part
+const parseGroups = (text, ipv4Tail) => {
+  if (text === '') {
+    return [];
+  }
+
+  const parts = text.split(':');
+  const groups = [];
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+
+    // An embedded IPv4 address (e.g. ::ffff:192.0.2.1) is only allowed at the end of the address
+    const ipv4Match = ipv4Tail && i === parts.length - 1 ? part.match(IPV4_TAIL_PATTERN) : null;
+    if (ipv4Match) {
+      const octets = ipv4Match.slice(1).map(Number);
+      if (octets.some(octet => octet > 255)) {
+        return null;
+      }
+      groups.push((octets[0] << 8) | octets[1], (octets[2] << 8) | octets[3]);
+      continue;
+    }
+
+    if (!GROUP_PATTERN.test(part)) {
+      return null;
+    }
+    groups.push(parseInt(part, 16));
+  }
+
+  return groups;
+};
+
+// Parse an IPv6 address into a BigInt, or return null if it is not valid
+export const parseIPv6 = (address) => {
+  const text = String(address).trim();
+  const halves = text.split('::');
+
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const head = parseGroups(halves[0], halves.length === 1);
+  const tail = halves.length === 2 ? parseGroups(halves[1], true) : [];
+
+  if (!head || !tail) {
+    return null;
+  }
+
+  let groups;
+  if (halves.length === 2) {
+    const missing = 8 - head.length - tail.length;
+    // "::" must stand for at least one zero group
+    if (missing < 1) {
+      return null;
+    }
+    groups = [...head, ...new Array(missing).fill(0), ...tail];
+  } else {
+    groups = head;
+  }
+
+  if (groups.length !== 8) {
+    return null;
+  }
+
+  return groups.reduce((value, group) => (value << 16n) | BigInt(group), 0n);
+};
+
+// Format a BigInt as a canonical RFC 5952 IPv6 address
+export const formatIPv6 = (value) => {
+  const groups = [];
+  for (let i = 7; i >= 0; i--) {
+    groups.push(Number((value >> BigInt(i * 16)) & 0xffffn));
+  }
+
+  // Find the longest run of two or more zero groups; the first one wins a tie
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8; i++) {
+    if (groups[i] !== 0) {
+      continue;
+    }
+    let length = 0;
+    while (i + length < 8 && groups[i + length] === 0) {
+      length++;
+    }
+    if (length > bestLength && length >= 2) {
+      bestStart = i;
+      bestLength = length;
+    }
+    i += length;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+
+  if (bestStart === -1) {
+    return hex.join(':');
+  }
+
+  const head = hex.slice(0, bestStart).join(':');
+  const tail = hex.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+};
+
+/**
+ * Parse an IPv6 CIDR prefix. Host bits are cleared so equivalent spellings
+ * ("2001:DB8:0::1/32", "2001:db8::/32") produce the same network.
+ */
+export const parseIPv6Cidr = (cidr) => {
+  const [address, prefixText, ...rest] = String(cidr).trim().split('/');
+
+  if (rest.length > 0 || prefixText === undefined || !/^\d{1,3}$/.test(prefixText)) {
+    return null;
+  }
+
+  const prefixLength = Number(prefixText);
+  if (prefixLength > 128) {
+    return null;
+  }
+
+  const value = parseIPv6(address);
+  if (value === null) {
+    return null;
+  }
+
+  const hostBits = IPV6_BITS - BigInt(prefixLength);
+  const network = (value >> hostBits) << hostBits;
+
+  return { network, prefixLength };
+};
+
+// Return the canonical spelling of an IPv6 prefix, or null if it is not valid
+export const canonicalizeIPv6Cidr = (cidr) => {
+  const parsed = parseIPv6Cidr(cidr);
+  return parsed ? `${formatIPv6(parsed.network)}/${parsed.prefixLength}` : null;
+};
+
+// Comparator for canonical IPv6 prefixes: by network address, then prefix length
+export const compareIPv6Cidrs = (a, b) => {
+  const left = parseIPv6Cidr(a);
+  const right = parseIPv6Cidr(b);
+
+  if (left.network !== right.network) {
+    return left.network < right.network ? -1 : 1;
+  }
+  return left.prefixLength - right.prefixLength;
+};
@@ -2,27 +2,83 @@ import React, { useRef, useState, useEffect } from 'react';
 import { CSVView } from './components/views/CSVView';
 import { MainView } from './components/views/MainView';
 import { ChangelogView } from './components/views/ChangelogView';
+import { ConsumersView } from './components/views/ConsumersView';
+import { WebhooksView } from './components/views/WebhooksView';
+import { PanosView } from './components/views/PanosView';
 import { SettingsView } from './components/views/SettingsView';
+import { OverridesView } from './components/views/OverridesView';
+import { FeedsView } from './components/views/FeedsView';
+import { LookupView } from './components/views/LookupView';
+import { EnrichView } from './components/views/EnrichView';
+import { LoginModal } from './components/auth/LoginModal';
 import { useStarlinkData } from './hooks/useStarlinkData';
+import { useAuth } from './hooks/useAuth';
 
 function App() {
   const [copiedToClipboard, setCopiedToClipboard] = useState(false);
   const [isCSVView, setIsCSVView] = useState(false);
   const [showTutorial, setShowTutorial] = useState(false);
+  const [showLogin, setShowLogin] = useState(false);
+  const [showConsumers, setShowConsumers] = useState(false);
+  const [showWebhooks, setShowWebhooks] = useState(false);
+  const [showPanos, setShowPanos] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showOverrides, setShowOverrides] = useState(false);
+  const [showFeeds, setShowFeeds] = useState(false);
+  const [showLookup, setShowLookup] = useState(false);
+  const [showEnrich, setShowEnrich] = useState(false);
   const csvDownloadRef = useRef<HTMLAnchorElement>(null);
   
   const {
     ipAddresses,
+    ipv6Addresses,
     isLoading,
     fetchSuccess,
     error,
     lastUpdated,
     changelog,
+    changelogTotal,
     showChangelog,
+    schedule,
+    stats,
+    pendingUpdate,
+    sources,
+    overrideOrigins,
     fetchData,
+    approvePendingUpdate,
+    rejectPendingUpdate,
+    reload,
     toggleChangelog
   } = useStarlinkData();
 
+  const { status: authStatus, isOperator, needsLogin, login, logout } = useAuth();
+
+  // Ask for credentials when the server does not allow anonymous reads
+  useEffect(() => {
+    if (needsLogin) {
+      setShowLogin(true);
+    }
+  }, [needsLogin]);
+
+  const handleLogin = async (token: string) => {
+    await login(token);
+    reload();
+  };
+
+  const handleLogout = () => {
+    logout();
+    reload();
+  };
+
+  // Refreshing and resolving held updates need the operator role, otherwise ask to log in first
+  const asOperator = (action: () => void) => () => {
+    if (isOperator) {
+      action();
+    } else {
+      setShowLogin(true);
+    }
+  };
+
   const handleCopyToClipboard = () => {
     navigator.clipboard.writeText(ipAddresses.join('\n'))
       .then(() => {
@@ -53,7 +109,47 @@ function App() {
   
   // Render changelog view if that mode is active
   if (showChangelog) {
-    return <ChangelogView changelog={changelog} onBack={toggleChangelog} />;
+    return <ChangelogView onBack={toggleChangelog} />;
+  }
+  
+  // Render feed consumers view if that mode is active
+  if (showConsumers) {
+    return <ConsumersView isOperator={isOperator} onBack={() => setShowConsumers(false)} />;
+  }
+  
+  // Render webhooks view if that mode is active
+  if (showWebhooks) {
+    return <WebhooksView isOperator={isOperator} onBack={() => setShowWebhooks(false)} />;
+  }
+  
+  // Render firewall push view if that mode is active
+  if (showPanos) {
+    return <PanosView isOperator={isOperator} onBack={() => setShowPanos(false)} />;
+  }
+  
+  // Render overrides view if that mode is active; override changes republish the feed right away
+  if (showOverrides) {
+    return <OverridesView isOperator={isOperator} authorName={authStatus?.name ?? null} onBack={() => { setShowOverrides(false); reload(); }} />;
+  }
+  
+  // Render named feeds view if that mode is active
+  if (showFeeds) {
+    return <FeedsView onBack={() => setShowFeeds(false)} />;
+  }
+  
+  // Render address lookup view if that mode is active
+  if (showLookup) {
+    return <LookupView onBack={() => setShowLookup(false)} />;
+  }
+  
+  // Render log enrichment view if that mode is active
+  if (showEnrich) {
+    return <EnrichView onBack={() => setShowEnrich(false)} />;
+  }
+  
+  // Render settings view if that mode is active; the schedule shown on the main view may have changed
+  if (showSettings) {
+    return <SettingsView isOperator={isOperator} onBack={() => { setShowSettings(false); reload(); }} />;
   }
 
   return (
@@ -61,21 +157,44 @@ function App() {
       {/* Hidden download link for CSV */}
       <a ref={csvDownloadRef} className="hidden"></a>
 
+      {showLogin && <LoginModal onLogin={handleLogin} onClose={() => setShowLogin(false)} />}
+
       <MainView
         ipAddresses={ipAddresses}
+        ipv6Addresses={ipv6Addresses}
+        stats={stats}
         isLoading={isLoading}
         error={error}
         fetchSuccess={fetchSuccess}
         lastUpdated={lastUpdated}
+        nextScheduledRefresh={schedule?.enabled ? schedule.nextRunAt : null}
+        lastFetchResult={schedule?.lastRun?.result ?? null}
+        pendingUpdate={pendingUpdate}
+        sources={sources}
+        overrideOrigins={overrideOrigins}
         copiedToClipboard={copiedToClipboard}
         showTutorial={showTutorial}
         changelog={changelog}
-        onRefresh={fetchData}
+        changelogTotal={changelogTotal}
+        authStatus={authStatus}
+        onRefresh={asOperator(fetchData)}
         onCopy={handleCopyToClipboard}
         onViewCSV={() => setIsCSVView(true)}
         onDownload={handleDownloadCSV}
         onToggleTutorial={() => setShowTutorial(!showTutorial)}
         onViewChangelog={toggleChangelog}
+        onViewConsumers={() => setShowConsumers(true)}
+        onViewWebhooks={() => setShowWebhooks(true)}
+        onViewPanos={() => setShowPanos(true)}
+        onViewSettings={() => setShowSettings(true)}
+        onViewOverrides={() => setShowOverrides(true)}
+        onViewFeeds={() => setShowFeeds(true)}
+        onViewLookup={() => setShowLookup(true)}
+        onViewEnrich={() => setShowEnrich(true)}
+        onApprovePending={asOperator(approvePendingUpdate)}
+        onRejectPending={asOperator(rejectPendingUpdate)}
+        onLogin={() => setShowLogin(true)}
+        onLogout={handleLogout}
       />
     </>
   );
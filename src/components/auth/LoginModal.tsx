@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { KeyRound, AlertTriangle } from 'lucide-react';
+
+interface LoginModalProps {
+  onLogin: (token: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export const LoginModal: React.FC<LoginModalProps> = ({ onLogin, onClose }) => {
+  const [token, setToken] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token.trim() || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      await onLogin(token);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black bg-opacity-70 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div 
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        transition={{ type: "spring", damping: 20 }}
+        className="bg-gray-900 rounded-xl p-6 max-w-md w-full shadow-2xl border border-gray-800"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center mb-4">
+          <div className="bg-blue-900 rounded-full p-2 mr-3">
+            <KeyRound className="h-5 w-5 text-blue-400" />
+          </div>
+          <h2 className="text-2xl font-bold text-white">Log in</h2>
+        </div>
+        
+        <p className="text-sm text-gray-300 mb-4">
+          Enter an API token from the server's auth configuration. Operator tokens can refresh the feed
+          and approve held updates.
+        </p>
+        
+        <form onSubmit={handleSubmit}>
+          <input
+            type="password"
+            value={token}
+            onChange={e => setToken(e.target.value)}
+            placeholder="API token"
+            autoFocus
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm font-mono text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          
+          {error && (
+            <div className="mt-3 flex items-center text-sm text-red-300">
+              <AlertTriangle className="h-4 w-4 mr-1.5 text-red-400" />
+              {error}
+            </div>
+          )}
+          
+          <div className="flex gap-2 mt-6">
+            <motion.button
+              type="submit"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              disabled={isSubmitting || !token.trim()}
+              className="flex-1 py-2 px-4 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-60 transition-colors"
+            >
+              {isSubmitting ? 'Checking...' : 'Log in'}
+            </motion.button>
+            <motion.button
+              type="button"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={onClose}
+              className="py-2 px-4 bg-gray-800 border border-gray-700 text-gray-300 rounded-lg font-medium hover:bg-gray-700 transition-colors"
+            >
+              Cancel
+            </motion.button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+};
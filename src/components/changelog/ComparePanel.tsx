@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { GitCompare, Plus, Minus, X } from 'lucide-react';
+import { ChangelogDiff } from '../../hooks/useStarlinkData';
+
+// One side of a comparison: a changelog entry picked from the list, or a typed local date/time
+export interface CompareEndpoint {
+  kind: 'entry' | 'time';
+  reference: string;
+  label: string;
+}
+
+interface ComparePanelProps {
+  from: CompareEndpoint | null;
+  to: CompareEndpoint | null;
+  onChangeFrom: (endpoint: CompareEndpoint | null) => void;
+  onChangeTo: (endpoint: CompareEndpoint | null) => void;
+  loadDiff: (from: string, to?: string) => Promise<ChangelogDiff>;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const EndpointInput: React.FC<{
+  label: string;
+  endpoint: CompareEndpoint | null;
+  placeholder: string;
+  onChange: (endpoint: CompareEndpoint | null) => void;
+}> = ({ label, endpoint, placeholder, onChange }) => (
+  <div className="flex-1">
+    <label className="block text-xs font-medium text-gray-400 mb-1">{label}</label>
+    {endpoint?.kind === 'entry' ? (
+      <div className="flex items-center justify-between bg-gray-700 border border-gray-600 rounded-md py-1.5 px-3 text-sm text-white">
+        <span className="truncate">{endpoint.label}</span>
+        <button onClick={() => onChange(null)} className="ml-2 text-gray-400 hover:text-white">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    ) : (
+      <input
+        type="datetime-local"
+        value={endpoint?.reference ?? ''}
+        title={placeholder}
+        onChange={(e) => onChange(e.target.value ? { kind: 'time', reference: e.target.value, label: e.target.value } : null)}
+        className="w-full bg-gray-700 border border-gray-600 rounded-md py-1.5 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-white"
+      />
+    )}
+  </div>
+);
+
+export const ComparePanel: React.FC<ComparePanelProps> = ({ from, to, onChangeFrom, onChangeTo, loadDiff }) => {
+  const [diff, setDiff] = useState<ChangelogDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleCompare = async () => {
+    if (!from) return;
+
+    setIsComparing(true);
+    setError('');
+
+    try {
+      // Typed values are local times; the server expects an absolute timestamp
+      const toReference = (endpoint: CompareEndpoint) =>
+        endpoint.kind === 'time' ? new Date(endpoint.reference).toISOString() : endpoint.reference;
+
+      setDiff(await loadDiff(toReference(from), to ? toReference(to) : undefined));
+    } catch (err) {
+      setDiff(null);
+      setError(err instanceof Error ? err.message : 'Failed to compare');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const renderList = (title: string, prefixes: string[], tone: 'green' | 'red') => (
+    <div>
+      <h4 className={`flex items-center text-sm font-medium mb-2 ${tone === 'green' ? 'text-green-400' : 'text-red-400'}`}>
+        {tone === 'green' ? <Plus className="h-4 w-4 mr-1" /> : <Minus className="h-4 w-4 mr-1" />}
+        {title}
+        <span className="ml-2 text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded-full">{prefixes.length}</span>
+      </h4>
+      {prefixes.length === 0 ? (
+        <p className="text-gray-400 text-sm italic">None</p>
+      ) : (
+        <div className="bg-gray-800 border border-gray-700 rounded-lg p-2 max-h-48 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 gap-1">
+          {prefixes.map(prefix => (
+            <div key={prefix} className={`font-mono text-xs px-2 py-1 rounded bg-gray-700 truncate ${tone === 'green' ? 'text-green-300' : 'text-red-300'}`}>
+              {prefix}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-900 rounded-xl shadow-lg p-4 border border-gray-800 mb-6">
+      <div className="flex items-center mb-3">
+        <GitCompare className="h-5 w-5 text-blue-400 mr-2" />
+        <h3 className="text-lg font-medium text-white">Compare Versions</h3>
+      </div>
+      <p className="text-sm text-gray-400 mb-3">
+        Pick two entries with the <b>From</b>/<b>To</b> buttons below or enter dates. Leave <b>To</b> empty to compare with the latest list.
+      </p>
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <EndpointInput label="From" endpoint={from} placeholder="Select an entry or date" onChange={onChangeFrom} />
+        <EndpointInput label="To" endpoint={to} placeholder="Latest" onChange={onChangeTo} />
+        <motion.button
+          onClick={handleCompare}
+          disabled={!from || isComparing}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          className="inline-flex items-center justify-center px-4 py-2 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {isComparing ? 'Comparing...' : 'Compare'}
+        </motion.button>
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-300">{error}</p>}
+
+      {diff && (
+        <div className="mt-4 space-y-3">
+          <p className="text-sm text-gray-300">
+            {formatDate(diff.from.date)} ({diff.from.ipv4Count} prefixes) &rarr; {formatDate(diff.to.date)} ({diff.to.ipv4Count} prefixes)
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderList('Added IPv4', diff.added, 'green')}
+            {renderList('Removed IPv4', diff.removed, 'red')}
+            {(diff.addedIpv6.length > 0 || diff.removedIpv6.length > 0) && (
+              <>
+                {renderList('Added IPv6', diff.addedIpv6, 'green')}
+                {renderList('Removed IPv6', diff.removedIpv6, 'red')}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
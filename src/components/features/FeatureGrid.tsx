@@ -6,8 +6,8 @@ import { Link } from 'react-router-dom';
 export const FeatureGrid: React.FC = () => {
   const features = [
     {
-      title: 'IPv4 Only',
-      description: 'Extracts only IPv4 addresses in CIDR notation'
+      title: 'Dual Stack',
+      description: 'Extracts IPv4 and IPv6 prefixes into separate feeds'
     },
     {
       title: 'Server Automatic',
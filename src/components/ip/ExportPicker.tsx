@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { FileDown } from 'lucide-react';
+import { useExports } from '../../hooks/useExports';
+
+// Format picker for the vendor exports under /export/
+export const ExportPicker: React.FC = () => {
+  const [selected, setSelected] = useState('');
+  const [aggregate, setAggregate] = useState(false);
+
+  const { formats, error, download } = useExports();
+  const format = formats.find(candidate => candidate.file === selected) || formats[0];
+
+  if (formats.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={format.file}
+        onChange={(e) => setSelected(e.target.value)}
+        className="bg-gray-800 border border-gray-700 rounded-lg py-1.5 px-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="Export format"
+      >
+        {formats.map(candidate => (
+          <option key={candidate.file} value={candidate.file}>{candidate.label}</option>
+        ))}
+      </select>
+
+      <label className="flex items-center text-xs text-gray-400" title="Merge adjacent and contained prefixes">
+        <input
+          type="checkbox"
+          checked={aggregate}
+          onChange={(e) => setAggregate(e.target.checked)}
+          className="mr-1 rounded bg-gray-700 border-gray-600"
+        />
+        Aggregated
+      </label>
+
+      <motion.button
+        onClick={() => download(format, { aggregate })}
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        className="inline-flex items-center px-3 py-1.5 border border-blue-700 rounded-lg text-sm font-medium text-blue-300 bg-blue-900 bg-opacity-30 hover:bg-blue-800 hover:bg-opacity-30 transition-all"
+      >
+        <FileDown className="mr-1.5 h-4 w-4" />
+        Export
+      </motion.button>
+
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </div>
+  );
+};
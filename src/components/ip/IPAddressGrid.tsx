@@ -3,20 +3,57 @@ import { AlertTriangle } from 'lucide-react';
 import { IPAddressItem } from './IPAddressItem';
 import { PaginationButton } from '../ui/PaginationButton';
 import { Tooltip } from '../ui/Tooltip';
+import { parseIPv4, parseIPv4Cidr, prefixMask } from '../../../shared/ipv4';
+import { parseIPv6, parseIPv6Cidr } from '../../../shared/ipv6';
 
 interface IPAddressGridProps {
   ipAddresses: string[];
+  ipv6Addresses: string[];
+  // Prefixes that come from include overrides instead of upstream
+  overrideIncluded?: string[];
 }
 
-export const IPAddressGrid: React.FC<IPAddressGridProps> = ({ ipAddresses }) => {
+// Prefixes that contain a typed host address, most specific first. Null when the search term is
+// not a host address of that family, so the substring search applies instead.
+const findContainingPrefixes = (prefixes: string[], term: string, family: 'ipv4' | 'ipv6') => {
+  if (family === 'ipv4') {
+    const address = parseIPv4(term);
+    if (address === null) {
+      return null;
+    }
+    return prefixes
+      .map(prefix => ({ prefix, cidr: parseIPv4Cidr(prefix) }))
+      .filter(({ cidr }) => cidr && (address & prefixMask(cidr.prefixLength)) >>> 0 === cidr.network)
+      .sort((a, b) => (b.cidr?.prefixLength ?? 0) - (a.cidr?.prefixLength ?? 0))
+      .map(({ prefix }) => prefix);
+  }
+
+  const address = term.includes(':') && !term.includes('/') ? parseIPv6(term) : null;
+  if (address === null) {
+    return null;
+  }
+  return prefixes
+    .map(prefix => ({ prefix, cidr: parseIPv6Cidr(prefix) }))
+    .filter(({ cidr }) => {
+      const hostBits = BigInt(128 - (cidr?.prefixLength ?? 0));
+      return cidr && (address >> hostBits) << hostBits === cidr.network;
+    })
+    .sort((a, b) => (b.cidr?.prefixLength ?? 0) - (a.cidr?.prefixLength ?? 0))
+    .map(({ prefix }) => prefix);
+};
+
+export const IPAddressGrid: React.FC<IPAddressGridProps> = ({ ipAddresses, ipv6Addresses, overrideIncluded = [] }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
+  const [activeTab, setActiveTab] = useState<'ipv4' | 'ipv6'>('ipv4');
   const itemsPerPage = 50;
   
-  // Filter IP addresses based on search term
-  const filteredIps = searchTerm 
-    ? ipAddresses.filter(ip => ip.includes(searchTerm)) 
-    : ipAddresses;
+  const tabAddresses = activeTab === 'ipv4' ? ipAddresses : ipv6Addresses;
+  
+  // A host address shows the prefixes containing it, anything else filters by substring
+  const containingIps = searchTerm ? findContainingPrefixes(tabAddresses, searchTerm.trim(), activeTab) : null;
+  const filteredIps = containingIps
+    ?? (searchTerm ? tabAddresses.filter(ip => ip.toLowerCase().includes(searchTerm.toLowerCase())) : tabAddresses);
   
   // Calculate pagination
   const pageCount = Math.ceil(filteredIps.length / itemsPerPage);
@@ -64,8 +101,33 @@ export const IPAddressGrid: React.FC<IPAddressGridProps> = ({ ipAddresses }) =>
   
   const pageNumbers = getPageNumbers();
   
+  const selectTab = (tab: 'ipv4' | 'ipv6') => {
+    setActiveTab(tab);
+    setCurrentPage(1);
+  };
+  
   return (
     <div className="space-y-3">
+      {/* Address family tabs */}
+      <div className="flex items-center space-x-2 bg-gray-800 rounded-lg p-1 w-fit">
+        <button 
+          onClick={() => selectTab('ipv4')} 
+          className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+            activeTab === 'ipv4' ? 'bg-blue-600 text-white' : 'text-gray-300 hover:text-white'
+          }`}
+        >
+          IPv4 <span className="ml-1 text-xs opacity-80">{ipAddresses.length}</span>
+        </button>
+        <button 
+          onClick={() => selectTab('ipv6')} 
+          className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+            activeTab === 'ipv6' ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:text-white'
+          }`}
+        >
+          IPv6 <span className="ml-1 text-xs opacity-80">{ipv6Addresses.length}</span>
+        </button>
+      </div>
+      
       {/* Search bar */}
       <div className="relative">
         <input
@@ -75,7 +137,7 @@ export const IPAddressGrid: React.FC<IPAddressGridProps> = ({ ipAddresses }) =>
             setSearchTerm(e.target.value);
             setCurrentPage(1);
           }}
-          placeholder="Search IP addresses..."
+          placeholder={activeTab === 'ipv4' ? 'Search IPv4 prefixes or enter an address...' : 'Search IPv6 prefixes or enter an address...'}
           className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 pl-9 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-white placeholder-gray-400"
         />
         <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -85,11 +147,17 @@ export const IPAddressGrid: React.FC<IPAddressGridProps> = ({ ipAddresses }) =>
         </div>
       </div>
       
+      {containingIps && containingIps.length > 0 && (
+        <p className="text-xs text-gray-400">
+          Prefixes containing <span className="font-mono text-white">{searchTerm.trim()}</span>, most specific first
+        </p>
+      )}
+      
       {/* IP Address grid */}
       <div className="bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2 p-2">
           {visibleIps.map((ip, idx) => (
-            <IPAddressItem key={idx} ip={ip} />
+            <IPAddressItem key={idx} ip={ip} fromOverride={overrideIncluded.includes(ip)} />
           ))}
         </div>
         
@@ -99,7 +167,11 @@ export const IPAddressGrid: React.FC<IPAddressGridProps> = ({ ipAddresses }) =>
             <AlertTriangle className="h-12 w-12 text-yellow-500 mb-3" />
             <h3 className="text-lg font-medium text-white">No matches found</h3>
             <p className="text-gray-400 mt-2">
-              No IP addresses match your search criteria
+              {tabAddresses.length === 0
+                ? `No ${activeTab === 'ipv4' ? 'IPv4' : 'IPv6'} addresses in the current feed`
+                : containingIps
+                  ? `No published prefix contains ${searchTerm.trim()}`
+                  : 'No IP addresses match your search criteria'}
             </p>
           </div>
         )}
@@ -1,12 +1,48 @@
 import React from 'react';
+import { parseIPv4Cidr, formatIPv4 } from '../../../shared/ipv4';
 
 interface IPAddressItemProps {
   ip: string;
+  // Published because of an include override rather than upstream
+  fromOverride?: boolean;
 }
 
-export const IPAddressItem: React.FC<IPAddressItemProps> = ({ ip }) => {
+const OverrideBadge = () => (
+  <span className="mr-2 text-xs bg-amber-900 bg-opacity-50 text-amber-300 px-1.5 py-0.5 rounded" title="Added by a manual override">
+    override
+  </span>
+);
+
+export const IPAddressItem: React.FC<IPAddressItemProps> = ({ ip, fromOverride = false }) => {
   const [address, cidr] = ip.split('/');
-  const octets = address.split('.');
+  
+  if (address.includes(':')) {
+    return (
+      <div className="flex items-center py-1.5 px-2 rounded-md hover:bg-gray-700 transition-colors group">
+        <div className="flex-1 font-mono truncate">
+          <span className="text-blue-300">{address}</span>
+          <span className="text-yellow-300">/{cidr}</span>
+        </div>
+        {fromOverride && <OverrideBadge />}
+        <span className="text-xs text-gray-400 group-hover:opacity-100 opacity-0 transition-opacity">
+          {parseInt(cidr) === 128 ? 'Single IP' : `${128-parseInt(cidr)} bit mask`}
+        </span>
+      </div>
+    );
+  }
+  
+  const parsed = parseIPv4Cidr(ip);
+  
+  if (!parsed) {
+    return (
+      <div className="flex items-center py-1.5 px-2 rounded-md hover:bg-gray-700 transition-colors group">
+        <div className="flex-1 font-mono text-red-300 truncate">{ip}</div>
+        <span className="text-xs text-red-400">Invalid</span>
+      </div>
+    );
+  }
+  
+  const octets = formatIPv4(parsed.network).split('.');
   
   return (
     <div className="flex items-center py-1.5 px-2 rounded-md hover:bg-gray-700 transition-colors group">
@@ -17,10 +53,11 @@ export const IPAddressItem: React.FC<IPAddressItemProps> = ({ ip }) => {
         <span className="text-green-300">
           {octets[2]}.{octets[3]}
         </span>
-        <span className="text-yellow-300">/{cidr}</span>
+        <span className="text-yellow-300">/{parsed.prefixLength}</span>
       </div>
+      {fromOverride && <OverrideBadge />}
       <span className="text-xs text-gray-400 group-hover:opacity-100 opacity-0 transition-opacity">
-        {parseInt(cidr) === 32 ? 'Single IP' : `${32-parseInt(cidr)} bit mask`}
+        {parsed.prefixLength === 32 ? 'Single IP' : `${32-parsed.prefixLength} bit mask`}
       </span>
     </div>
   );
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Mail, Eye, Send, Trash2, UserPlus, X } from 'lucide-react';
+import { DigestFrequency, DigestPreview, useDigest } from '../../hooks/useDigest';
+
+interface DigestPanelProps {
+  isOperator: boolean;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const FREQUENCIES: DigestFrequency[] = ['daily', 'weekly'];
+
+// Email digest subscribers, schedules, preview and manual sends (operator only)
+export const DigestPanel: React.FC<DigestPanelProps> = ({ isOperator }) => {
+  const [email, setEmail] = useState('');
+  const [testAddress, setTestAddress] = useState('');
+  const [frequency, setFrequency] = useState<DigestFrequency>('daily');
+  const [preview, setPreview] = useState<DigestPreview | null>(null);
+  const [actionError, setActionError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const { status, error, addSubscriber, removeSubscriber, loadPreview, sendNow } = useDigest(isOperator);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setActionError('');
+    setNotice('');
+    try {
+      await action();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubscribe = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      await addSubscriber(email, frequency);
+      setEmail('');
+    });
+  };
+
+  const handleSend = (target: DigestFrequency) => runAction(async () => {
+    const result = await sendNow(target);
+    setNotice(`${target} digest sent to ${result.sent.length} subscriber${result.sent.length === 1 ? '' : 's'}` +
+      (result.failed.length > 0 ? `, ${result.failed.length} failed` : ''));
+  });
+
+  const handleTestSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      const result = await sendNow(frequency, testAddress);
+      setNotice(result.failed.length > 0
+        ? `Test digest to ${testAddress} failed: ${result.failed[0].error}`
+        : `Test ${frequency} digest sent to ${testAddress}`);
+    });
+  };
+
+  const handlePreview = (target: DigestFrequency) => runAction(async () => {
+    setPreview(await loadPreview(target));
+  });
+
+  return (
+    <div className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 overflow-hidden mb-6">
+      <div className="p-4 bg-gray-800 flex items-center">
+        <Mail className="h-4 w-4 text-blue-400 mr-2" />
+        <h3 className="text-lg font-medium text-white">Email Digest</h3>
+      </div>
+
+      {!isOperator ? (
+        <div className="p-6 text-center text-sm text-gray-400">Log in as an operator to manage digest subscribers.</div>
+      ) : (
+        <div className="p-4 space-y-4">
+          {(error || actionError) && (
+            <div className="bg-red-900 bg-opacity-40 border-l-4 border-red-500 rounded-lg p-3 text-sm text-red-300">
+              {error || actionError}
+            </div>
+          )}
+          {notice && (
+            <div className="bg-green-900 bg-opacity-40 border-l-4 border-green-500 rounded-lg p-3 text-sm text-green-300">
+              {notice}
+            </div>
+          )}
+
+          {status && !status.smtpConfigured && (
+            <div className="bg-orange-900 bg-opacity-40 border-l-4 border-orange-500 rounded-lg p-3 text-sm text-orange-300">
+              No SMTP relay configured. Set <span className="font-mono">SMTP_HOST</span> to send digests.
+            </div>
+          )}
+
+          {status && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {FREQUENCIES.map(target => (
+                <div key={target} className="bg-gray-800 border border-gray-700 rounded-lg p-3">
+                  <div className="font-medium text-white capitalize">{target}</div>
+                  <div className="text-sm text-gray-400">
+                    {status.schedules[target].enabled && status.schedules[target].nextRunAt
+                      ? <>Next: {formatDate(status.schedules[target].nextRunAt as string)}</>
+                      : 'Not scheduled'}
+                    {status.lastSent[target] && <> &middot; last: {formatDate(status.lastSent[target] as string)}</>}
+                  </div>
+                  <div className="flex items-center space-x-2 mt-2">
+                    <button
+                      onClick={() => handlePreview(target)}
+                      disabled={isBusy}
+                      className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+                    >
+                      <Eye className="h-3 w-3 mr-1" />
+                      Preview
+                    </button>
+                    <button
+                      onClick={() => handleSend(target)}
+                      disabled={isBusy || !status.smtpConfigured}
+                      className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium text-blue-300 bg-blue-900 bg-opacity-40 hover:bg-blue-800 disabled:opacity-50"
+                    >
+                      <Send className="h-3 w-3 mr-1" />
+                      Send now
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleSubscribe} className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="cab@example.com"
+              required
+              className="flex-1 bg-gray-700 border border-gray-600 rounded-md py-1.5 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-white placeholder-gray-400"
+            />
+            <select
+              value={frequency}
+              onChange={(e) => setFrequency(e.target.value as DigestFrequency)}
+              className="bg-gray-700 border border-gray-600 rounded-md py-1.5 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-white"
+            >
+              {FREQUENCIES.map(target => <option key={target} value={target}>{target}</option>)}
+            </select>
+            <motion.button
+              type="submit"
+              disabled={isBusy}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="inline-flex items-center justify-center px-3 py-1.5 border border-transparent rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 transition-all"
+            >
+              <UserPlus className="-ml-0.5 mr-1.5 h-4 w-4" />
+              Subscribe
+            </motion.button>
+          </form>
+
+          {status?.smtpConfigured && (
+            <form onSubmit={handleTestSend} className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="email"
+                value={testAddress}
+                onChange={(e) => setTestAddress(e.target.value)}
+                placeholder="Send a test to..."
+                required
+                className="flex-1 bg-gray-700 border border-gray-600 rounded-md py-1.5 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-white placeholder-gray-400"
+              />
+              <button
+                type="submit"
+                disabled={isBusy}
+                className="inline-flex items-center justify-center px-3 py-1.5 border border-blue-700 rounded-lg text-sm font-medium text-blue-300 bg-blue-900 bg-opacity-40 hover:bg-blue-800 disabled:opacity-50"
+              >
+                <Send className="-ml-0.5 mr-1.5 h-4 w-4" />
+                Send test ({frequency})
+              </button>
+            </form>
+          )}
+
+          {status && status.subscribers.length > 0 && (
+            <div className="divide-y divide-gray-800 border border-gray-800 rounded-lg">
+              {status.subscribers.map(subscriber => (
+                <div key={subscriber.id} className="px-3 py-2 flex items-center justify-between text-sm">
+                  <div>
+                    <span className="text-white">{subscriber.email}</span>
+                    <span className="ml-2 text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded-full">{subscriber.frequency}</span>
+                    {subscriber.lastError && (
+                      <div className="text-xs text-red-400 mt-0.5" title={subscriber.lastError.error}>
+                        Last send failed {formatDate(subscriber.lastError.date)}, the next digest covers the missed period
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => runAction(() => removeSubscriber(subscriber.id))}
+                    disabled={isBusy}
+                    title="Unsubscribe"
+                    className="text-gray-400 hover:text-red-400 disabled:opacity-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {preview && (
+            <div className="border border-gray-700 rounded-lg overflow-hidden">
+              <div className="px-3 py-2 bg-gray-800 flex items-center justify-between">
+                <span className="text-sm font-medium text-white truncate">{preview.subject}</span>
+                <button onClick={() => setPreview(null)} className="ml-2 text-gray-400 hover:text-white">
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+              <pre className="p-3 text-xs text-gray-300 max-h-80 overflow-auto whitespace-pre-wrap">{preview.text}</pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -46,7 +46,7 @@ export const TutorialModal: React.FC<TutorialModalProps> = ({ onClose }) => {
             <div>
               <h3 className="font-semibold text-lg text-blue-300">How to Use the Data</h3>
               <ol className="list-decimal ml-5 space-y-1 text-gray-300">
-                <li>Visit <b>/ipv4.txt</b> for a direct plain text feed</li>
+                <li>Visit <b>/ipv4.txt</b> or <b>/ipv6.txt</b> for a direct plain text feed</li>
                 <li>Download the text file using the <b>Download Text</b> button</li>
                 <li>Copy all IP addresses using the <b>Copy</b> button</li>
                 <li>Paste into your Palo Alto firewall configuration</li>
@@ -65,7 +65,7 @@ export const TutorialModal: React.FC<TutorialModalProps> = ({ onClose }) => {
                 <li>Updates automatically every 24 hours</li>
                 <li>Direct text endpoint at /ipv4.txt always available</li>
                 <li>Uses multiple CORS proxies for reliable access</li>
-                <li>Shows only IPv4 addresses in CIDR notation</li>
+                <li>Separate IPv4 and IPv6 feeds in CIDR notation</li>
                 <li>Download as a simple text file for immediate use</li>
                 <li>IP changelog tracks all address changes over time</li>
               </ul>
@@ -1,24 +1,44 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Clock, Download, Plus, Minus, Filter } from 'lucide-react';
-import { ChangelogEntry } from '../../hooks/useStarlinkData';
+import { ArrowLeft, Clock, Download, Plus, Minus, Search, X } from 'lucide-react';
+import { ChangelogEntry, ChangelogSummary, OverrideChange } from '../../hooks/useStarlinkData';
+import { useChangelog } from '../../hooks/useChangelog';
+import { ComparePanel, CompareEndpoint } from '../changelog/ComparePanel';
 import { PaginationButton } from '../ui/PaginationButton';
 import { Tooltip } from '../ui/Tooltip';
 
 interface ChangelogViewProps {
-  changelog: ChangelogEntry[];
   onBack: () => void;
 }
 
-export const ChangelogView: React.FC<ChangelogViewProps> = ({ changelog, onBack }) => {
-  const [currentPage, setCurrentPage] = useState(1);
+// e.g. "Exclude 14.1.66.0/25 added by ops: wrong geolocation"
+const describeOverride = (override: OverrideChange) =>
+  `${override.action === 'include' ? 'Include' : 'Exclude'} ${override.cidr} ${override.change} by ${override.author}: ${override.reason}`;
+
+export const ChangelogView: React.FC<ChangelogViewProps> = ({ onBack }) => {
   const [selectedEntry, setSelectedEntry] = useState<ChangelogEntry | null>(null);
   const [filterType, setFilterType] = useState<'all' | 'added' | 'removed'>('all');
+  const [searchInput, setSearchInput] = useState('');
+  const [entryError, setEntryError] = useState('');
+  const [compareFrom, setCompareFrom] = useState<CompareEndpoint | null>(null);
+  const [compareTo, setCompareTo] = useState<CompareEndpoint | null>(null);
+  
+  const {
+    entries: visibleEntries,
+    total,
+    page: currentPage,
+    pageCount,
+    pageSize: itemsPerPage,
+    prefixFilter,
+    isLoading,
+    error,
+    goToPage,
+    filterByPrefix,
+    loadEntry,
+    loadDiff
+  } = useChangelog();
   
-  const itemsPerPage = 10;
-  const pageCount = Math.ceil(changelog.length / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const visibleEntries = changelog.slice(startIndex, startIndex + itemsPerPage);
   
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -65,10 +85,6 @@ export const ChangelogView: React.FC<ChangelogViewProps> = ({ changelog, onBack
     return pageNumbers;
   };
   
-  const goToPage = (page: number) => {
-    setCurrentPage(page);
-  };
-  
   const pageNumbers = getPageNumbers();
 
   const handleDownloadEntry = (entry: ChangelogEntry) => {
@@ -95,8 +111,32 @@ export const ChangelogView: React.FC<ChangelogViewProps> = ({ changelog, onBack
     URL.revokeObjectURL(url);
   };
   
-  const handleViewEntry = (entry: ChangelogEntry) => {
-    setSelectedEntry(entry);
+  // List entries carry no snapshot, so the full entry is loaded on demand
+  const withFullEntry = async (summary: ChangelogSummary, action: (entry: ChangelogEntry) => void) => {
+    setEntryError('');
+    try {
+      action(await loadEntry(summary.id));
+    } catch (err) {
+      setEntryError(err instanceof Error ? err.message : 'Failed to load changelog entry');
+    }
+  };
+  
+  const handleViewEntry = (summary: ChangelogSummary) => withFullEntry(summary, setSelectedEntry);
+  
+  const toCompareEndpoint = (summary: ChangelogSummary): CompareEndpoint => ({
+    kind: 'entry',
+    reference: summary.id,
+    label: formatDate(summary.date)
+  });
+  
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    filterByPrefix(searchInput);
+  };
+  
+  const clearSearch = () => {
+    setSearchInput('');
+    filterByPrefix('');
   };
   
   return (
@@ -137,7 +177,13 @@ export const ChangelogView: React.FC<ChangelogViewProps> = ({ changelog, onBack
           Track changes to Starlink IP addresses over time. The changelog shows when addresses were added or removed.
         </motion.p>
         
-        {changelog.length === 0 ? (
+        {(error || entryError) && (
+          <div className="bg-red-900 bg-opacity-40 border-l-4 border-red-500 rounded-lg p-4 mb-6 text-sm text-red-300">
+            {error || entryError}
+          </div>
+        )}
+        
+        {total === 0 && !prefixFilter && !isLoading ? (
           <div className="bg-gray-900 rounded-xl shadow-lg p-8 border border-gray-800 text-center">
             <h2 className="text-xl font-semibold text-white mb-3">No Changes Recorded Yet</h2>
             <p className="text-gray-300">
@@ -151,7 +197,13 @@ export const ChangelogView: React.FC<ChangelogViewProps> = ({ changelog, onBack
                 <h2 className="text-xl font-semibold text-white">Changes on {formatDate(selectedEntry.date)}</h2>
                 <p className="text-sm text-gray-400">
                   {selectedEntry.added.length} addresses added, {selectedEntry.removed.length} addresses removed
+                  {selectedEntry.addedIpv6 && (
+                    <> &middot; IPv6: {selectedEntry.addedIpv6.length} added, {selectedEntry.removedIpv6?.length ?? 0} removed</>
+                  )}
                 </p>
+                {selectedEntry.override && (
+                  <p className="text-sm text-amber-300 mt-1">Manual override: {describeOverride(selectedEntry.override)}</p>
+                )}
               </div>
               
               <div className="flex items-center space-x-2">
@@ -254,6 +306,28 @@ export const ChangelogView: React.FC<ChangelogViewProps> = ({ changelog, onBack
                 </div>
               ) : null}
               
+              {(selectedEntry.addedIpv6?.length || selectedEntry.removedIpv6?.length) ? (
+                <div>
+                  <h3 className="text-lg font-medium text-indigo-400 mb-2">IPv6 Changes</h3>
+                  <div className="bg-gray-800 border border-gray-700 rounded-lg p-3">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      {filterType !== 'removed' && selectedEntry.addedIpv6?.map((ip, idx) => (
+                        <div key={`v6-added-${idx}`} className="font-mono text-sm text-green-300 bg-gray-700 px-2 py-1 rounded truncate">
+                          <Plus className="h-3 w-3 inline mr-1" />
+                          {ip}
+                        </div>
+                      ))}
+                      {filterType !== 'added' && selectedEntry.removedIpv6?.map((ip, idx) => (
+                        <div key={`v6-removed-${idx}`} className="font-mono text-sm text-red-300 bg-gray-700 px-2 py-1 rounded truncate">
+                          <Minus className="h-3 w-3 inline mr-1" />
+                          {ip}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              ) : null}
+              
               {filterType === 'all' && (
                 <div className="mt-4">
                   <h3 className="text-lg font-medium text-blue-400 mb-2">
@@ -286,26 +360,62 @@ export const ChangelogView: React.FC<ChangelogViewProps> = ({ changelog, onBack
           </div>
         ) : (
           <>
+            <ComparePanel
+              from={compareFrom}
+              to={compareTo}
+              onChangeFrom={setCompareFrom}
+              onChangeTo={setCompareTo}
+              loadDiff={loadDiff}
+            />
+            
             <div className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 overflow-hidden">
               <div className="grid grid-cols-1 divide-y divide-gray-800">
-                <div className="p-4 bg-gray-800 flex items-center justify-between">
+                <div className="p-4 bg-gray-800 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
                   <h3 className="text-lg font-medium text-white">IP Address Change History</h3>
                   
-                  <div className="flex items-center space-x-2">
-                    <span className="text-sm text-gray-400">
-                      {changelog.length} change{changelog.length !== 1 ? 's' : ''} recorded
+                  <div className="flex items-center space-x-3">
+                    <form onSubmit={handleSearch} className="relative">
+                      <input
+                        type="text"
+                        value={searchInput}
+                        onChange={(e) => setSearchInput(e.target.value)}
+                        placeholder="Find prefix, e.g. 98.97.12.0/24"
+                        className="w-64 bg-gray-700 border border-gray-600 rounded-md py-1.5 px-3 pl-8 pr-8 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-white placeholder-gray-400"
+                      />
+                      <Search className="absolute left-2.5 top-2 h-4 w-4 text-gray-400 pointer-events-none" />
+                      {prefixFilter && (
+                        <button type="button" onClick={clearSearch} className="absolute right-2 top-2 text-gray-400 hover:text-white">
+                          <X className="h-4 w-4" />
+                        </button>
+                      )}
+                    </form>
+                    <span className="text-sm text-gray-400 whitespace-nowrap">
+                      {total} change{total !== 1 ? 's' : ''} {prefixFilter ? 'matching' : 'recorded'}
                     </span>
                   </div>
                 </div>
                 
+                {prefixFilter && total === 0 && !isLoading && (
+                  <div className="p-6 text-center text-sm text-gray-400">
+                    No recorded change added or removed <span className="font-mono text-white">{prefixFilter}</span>
+                  </div>
+                )}
+                
                 {visibleEntries.map((entry, idx) => (
                   <div key={idx} className="p-4 hover:bg-gray-800 transition-colors flex flex-col sm:flex-row sm:items-center sm:justify-between">
                     <div className="mb-3 sm:mb-0">
                       <div className="flex items-center">
                         <Clock className="h-4 w-4 text-blue-400 mr-2" />
                         <span className="font-medium text-white">{formatDate(entry.date)}</span>
+                        {entry.event === 'override' && (
+                          <span className="ml-2 text-xs bg-amber-900 bg-opacity-50 text-amber-300 px-2 py-0.5 rounded-full">Override</span>
+                        )}
                       </div>
                       
+                      {entry.override && (
+                        <div className="mt-1 text-sm text-amber-200 break-words">{describeOverride(entry.override)}</div>
+                      )}
+                      
                       <div className="flex items-center mt-1 text-sm">
                         <div className="flex items-center mr-4 text-green-400">
                           <Plus className="h-3 w-3 mr-1" />
@@ -315,10 +425,34 @@ export const ChangelogView: React.FC<ChangelogViewProps> = ({ changelog, onBack
                           <Minus className="h-3 w-3 mr-1" />
                           {entry.removed.length} removed
                         </div>
+                        {(entry.addedIpv6?.length || entry.removedIpv6?.length) ? (
+                          <div className="flex items-center ml-4 text-indigo-300">
+                            IPv6: +{entry.addedIpv6?.length ?? 0} / -{entry.removedIpv6?.length ?? 0}
+                          </div>
+                        ) : null}
                       </div>
                     </div>
                     
                     <div className="flex items-center space-x-2">
+                      <div className="flex items-center bg-gray-800 rounded-lg p-0.5">
+                        <button
+                          onClick={() => setCompareFrom(toCompareEndpoint(entry))}
+                          className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+                            compareFrom?.reference === entry.id ? 'bg-blue-600 text-white' : 'text-gray-300 hover:text-white'
+                          }`}
+                        >
+                          From
+                        </button>
+                        <button
+                          onClick={() => setCompareTo(toCompareEndpoint(entry))}
+                          className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+                            compareTo?.reference === entry.id ? 'bg-blue-600 text-white' : 'text-gray-300 hover:text-white'
+                          }`}
+                        >
+                          To
+                        </button>
+                      </div>
+                      
                       <motion.button
                         onClick={() => handleViewEntry(entry)}
                         whileHover={{ scale: 1.05 }}
@@ -329,7 +463,7 @@ export const ChangelogView: React.FC<ChangelogViewProps> = ({ changelog, onBack
                       </motion.button>
                       
                       <motion.button
-                        onClick={() => handleDownloadEntry(entry)}
+                        onClick={() => withFullEntry(entry, handleDownloadEntry)}
                         whileHover={{ scale: 1.05 }}
                         whileTap={{ scale: 0.95 }}
                         className="inline-flex items-center px-3 py-1.5 border border-gray-700 rounded-lg text-sm font-medium text-gray-300 bg-gray-800 hover:bg-gray-700 transition-all"
@@ -349,9 +483,9 @@ export const ChangelogView: React.FC<ChangelogViewProps> = ({ changelog, onBack
                       <span>
                         Showing <span className="font-medium text-white">{startIndex + 1}</span> to{" "}
                         <span className="font-medium text-white">
-                          {Math.min(startIndex + itemsPerPage, changelog.length)}
+                          {Math.min(startIndex + itemsPerPage, total)}
                         </span> of{" "}
-                        <span className="font-medium text-white">{changelog.length}</span> entries
+                        <span className="font-medium text-white">{total}</span> entries
                       </span>
                     </div>
                     
@@ -419,7 +553,8 @@ export const ChangelogView: React.FC<ChangelogViewProps> = ({ changelog, onBack
               <p className="text-sm text-gray-300">
                 This changelog tracks changes to Starlink IPv4 addresses over time. Each entry shows
                 which addresses were added or removed during updates. You can view details for any change
-                and download specific versions of the IP address list.
+                and download specific versions of the IP address list. Search for a prefix to find out
+                when it first appeared or was removed.
               </p>
             </div>
           </>
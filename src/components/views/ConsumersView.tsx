@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, AlertTriangle, CheckCircle, RefreshCw, Server, Trash2 } from 'lucide-react';
+import { FeedConsumer, useConsumers } from '../../hooks/useConsumers';
+
+interface ConsumersViewProps {
+  isOperator: boolean;
+  onBack: () => void;
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+// "42 s", "15 min", "3 h", "2 d"
+const formatDuration = (seconds: number) => {
+  if (seconds < 60) {
+    return `${seconds} s`;
+  }
+  if (seconds < 3600) {
+    return `${Math.round(seconds / 60)} min`;
+  }
+  if (seconds < 86400) {
+    return `${Math.round(seconds / 3600)} h`;
+  }
+  return `${Math.round(seconds / 86400)} d`;
+};
+
+export const ConsumersView: React.FC<ConsumersViewProps> = ({ isOperator, onBack }) => {
+  const [showStaleOnly, setShowStaleOnly] = useState(false);
+  const [removeError, setRemoveError] = useState('');
+
+  const {
+    consumers,
+    staleCount,
+    staleAfterMinutes,
+    requests,
+    isLoading,
+    error,
+    reload,
+    removeConsumer
+  } = useConsumers();
+
+  const visibleConsumers = showStaleOnly ? consumers.filter(consumer => consumer.stale) : consumers;
+
+  const handleRemove = async (consumer: FeedConsumer) => {
+    setRemoveError('');
+    try {
+      await removeConsumer(consumer.id);
+    } catch (err) {
+      setRemoveError(err instanceof Error ? err.message : 'Failed to remove consumer');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black bg-opacity-95 text-white">
+      <div className="absolute inset-0 overflow-hidden z-0">
+        <div className="absolute inset-0 bg-[url('https://images.unsplash.com/photo-1534996858221-380b92700493?ixlib=rb-4.0.3&auto=format&fit=crop&w=1951&q=80')] bg-cover opacity-20"></div>
+        <div className="absolute inset-0 bg-gradient-to-b from-transparent via-black to-black"></div>
+      </div>
+
+      <div className="max-w-5xl mx-auto py-10 px-4 sm:px-6 relative z-10">
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center mb-6"
+        >
+          <motion.button
+            onClick={onBack}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="inline-flex items-center px-3 py-2 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gray-800 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all mr-4"
+          >
+            <ArrowLeft className="-ml-1 mr-2 h-4 w-4" />
+            Back to Main View
+          </motion.button>
+
+          <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-blue-600 tracking-tight">
+            Feed Consumers
+          </h1>
+        </motion.div>
+
+        <motion.p
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="mb-6 text-gray-300"
+        >
+          Firewalls and other clients polling the feeds, identified by address and User-Agent. A consumer is stale when it
+          has not fetched a feed for {staleAfterMinutes ?? '...'} minutes or three of its usual poll intervals, whichever is longer.
+        </motion.p>
+
+        {(error || removeError) && (
+          <div className="bg-red-900 bg-opacity-40 border-l-4 border-red-500 rounded-lg p-4 mb-6 text-sm text-red-300">
+            {error || removeError}
+          </div>
+        )}
+
+        {consumers.length === 0 && !isLoading ? (
+          <div className="bg-gray-900 rounded-xl shadow-lg p-8 border border-gray-800 text-center">
+            <h2 className="text-xl font-semibold text-white mb-3">No Consumers Yet</h2>
+            <p className="text-gray-300">
+              Consumers show up here once they fetch <span className="font-mono">/ipv4.txt</span> or any other feed.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 overflow-hidden mb-6">
+            <div className="grid grid-cols-1 divide-y divide-gray-800">
+              <div className="p-4 bg-gray-800 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <h3 className="text-lg font-medium text-white">
+                  Consumers
+                  {staleCount > 0 && (
+                    <span className="ml-2 text-sm bg-orange-900 text-orange-300 px-2 py-0.5 rounded-full">
+                      {staleCount} stale
+                    </span>
+                  )}
+                </h3>
+
+                <div className="flex items-center space-x-3">
+                  <div className="flex items-center space-x-2 bg-gray-700 rounded-lg p-1">
+                    <button
+                      onClick={() => setShowStaleOnly(false)}
+                      className={`px-2 py-1 rounded-md text-sm font-medium transition-colors ${
+                        !showStaleOnly ? 'bg-blue-600 text-white' : 'text-gray-300 hover:text-white'
+                      }`}
+                    >
+                      All
+                    </button>
+                    <button
+                      onClick={() => setShowStaleOnly(true)}
+                      className={`px-2 py-1 rounded-md text-sm font-medium transition-colors ${
+                        showStaleOnly ? 'bg-orange-600 text-white' : 'text-gray-300 hover:text-white'
+                      }`}
+                    >
+                      Stale
+                    </button>
+                  </div>
+                  <button onClick={reload} className="text-gray-400 hover:text-white" title="Reload">
+                    <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+                  </button>
+                </div>
+              </div>
+
+              {visibleConsumers.map(consumer => (
+                <div key={consumer.id} className="p-4 hover:bg-gray-800 transition-colors flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center">
+                      {consumer.stale ? (
+                        <AlertTriangle className="h-4 w-4 text-orange-400 mr-2 flex-shrink-0" />
+                      ) : (
+                        <CheckCircle className="h-4 w-4 text-green-400 mr-2 flex-shrink-0" />
+                      )}
+                      <span className="font-mono text-white">{consumer.ip}</span>
+                      <span className="ml-2 text-sm text-gray-400 truncate">{consumer.userAgent || 'No User-Agent'}</span>
+                    </div>
+
+                    <div className="mt-1 text-sm text-gray-400">
+                      {consumer.lastPolled ? (
+                        <>
+                          Last fetch {formatDate(consumer.lastPolled)}
+                          {consumer.silentSeconds !== null && <> ({formatDuration(consumer.silentSeconds)} ago)</>}
+                        </>
+                      ) : (
+                        'Never fetched a feed successfully'
+                      )}
+                      {consumer.pollIntervalSeconds !== null && <> &middot; polls every ~{formatDuration(consumer.pollIntervalSeconds)}</>}
+                      <> &middot; {consumer.requests} request{consumer.requests !== 1 ? 's' : ''}</>
+                      {consumer.failures > 0 && <span className="text-red-400"> &middot; {consumer.failures} failed</span>}
+                    </div>
+
+                    <div className="mt-1 text-xs text-gray-500 font-mono truncate">
+                      {consumer.lastStatus} {consumer.lastPath}
+                      {consumer.lastETag && <> &middot; {consumer.lastETag}</>}
+                    </div>
+                  </div>
+
+                  {isOperator && (
+                    <motion.button
+                      onClick={() => handleRemove(consumer)}
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      title="Forget this consumer"
+                      className="inline-flex items-center px-3 py-1.5 border border-gray-700 rounded-lg text-sm font-medium text-gray-300 bg-gray-800 hover:bg-gray-700 transition-all self-start sm:self-auto"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </motion.button>
+                  )}
+                </div>
+              ))}
+
+              {showStaleOnly && visibleConsumers.length === 0 && (
+                <div className="p-6 text-center text-sm text-gray-400">Every consumer is polling on schedule</div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {requests.length > 0 && (
+          <div className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 overflow-hidden">
+            <div className="p-4 bg-gray-800 flex items-center">
+              <Server className="h-4 w-4 text-blue-400 mr-2" />
+              <h3 className="text-lg font-medium text-white">Recent Feed Requests</h3>
+            </div>
+            <div className="max-h-96 overflow-y-auto divide-y divide-gray-800">
+              {requests.map((request, idx) => (
+                <div key={idx} className="px-4 py-2 text-sm flex flex-wrap items-center gap-x-3">
+                  <span className="text-gray-400">{formatDate(request.date)}</span>
+                  <span className={request.status < 400 ? 'text-green-400' : 'text-red-400'}>{request.status}</span>
+                  <span className="font-mono text-white">{request.path}</span>
+                  <span className="font-mono text-gray-400">{request.ip}</span>
+                  <span className="text-gray-500 truncate">{request.userAgent}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, FileSearch, Upload } from 'lucide-react';
+import { EnrichFormat, useEnrich } from '../../hooks/useEnrich';
+
+interface EnrichViewProps {
+  onBack: () => void;
+}
+
+const inputClassName = 'bg-gray-700 border border-gray-600 rounded-md py-1.5 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-white placeholder-gray-400';
+
+const DELIMITERS = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: 'tab', label: 'Tab' }
+];
+
+export const EnrichView: React.FC<EnrichViewProps> = ({ onBack }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<EnrichFormat>('csv');
+  const [columns, setColumns] = useState('');
+  const [delimiter, setDelimiter] = useState(',');
+  const { isLoading, error, enrich } = useEnrich();
+
+  const selectFile = (selected: File | null) => {
+    setFile(selected);
+    if (selected) {
+      setFormat(selected.name.toLowerCase().endsWith('.csv') ? 'csv' : 'text');
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (file) {
+      enrich(file, {
+        format,
+        columns: columns.split(',').map(column => column.trim()).filter(Boolean),
+        delimiter
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black bg-opacity-95 text-white">
+      <div className="absolute inset-0 overflow-hidden z-0">
+        <div className="absolute inset-0 bg-[url('https://images.unsplash.com/photo-1534996858221-380b92700493?ixlib=rb-4.0.3&auto=format&fit=crop&w=1951&q=80')] bg-cover opacity-20"></div>
+        <div className="absolute inset-0 bg-gradient-to-b from-transparent via-black to-black"></div>
+      </div>
+
+      <div className="max-w-5xl mx-auto py-10 px-4 sm:px-6 relative z-10">
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center mb-6"
+        >
+          <motion.button
+            onClick={onBack}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="inline-flex items-center px-3 py-2 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gray-800 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all mr-4"
+          >
+            <ArrowLeft className="-ml-1 mr-2 h-4 w-4" />
+            Back to Main View
+          </motion.button>
+
+          <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-blue-600 tracking-tight">
+            Log Enrichment
+          </h1>
+        </motion.div>
+
+        <motion.p
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="mb-6 text-gray-300"
+        >
+          Upload a firewall or traffic log and download the same file with the Starlink addresses tagged. CSV logs get
+          three columns per address column: whether it is Starlink, the matched prefix and its location. Plain-text logs
+          get a <span className="font-mono">starlink=</span> field at the end of every line. The file is processed as it
+          is uploaded, so large exports work too.
+        </motion.p>
+
+        <form onSubmit={handleSubmit} className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 p-4 mb-6 space-y-4">
+          <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-700 rounded-lg p-6 cursor-pointer hover:border-blue-500 transition-colors">
+            <Upload className="h-8 w-8 text-blue-400 mb-2" />
+            <span className="text-sm text-gray-300">{file ? file.name : 'Choose a .csv, .log or .txt file'}</span>
+            {file && <span className="text-xs text-gray-500 mt-1">{(file.size / (1024 * 1024)).toFixed(1)} MB</span>}
+            <input
+              type="file"
+              accept=".csv,.log,.txt,text/csv,text/plain"
+              onChange={(e) => selectFile(e.target.files?.[0] ?? null)}
+              className="hidden"
+            />
+          </label>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="flex flex-col text-sm text-gray-400">
+              <span className="mb-1">Format</span>
+              <select value={format} onChange={(e) => setFormat(e.target.value as EnrichFormat)} className={inputClassName}>
+                <option value="csv">CSV with header</option>
+                <option value="text">Plain text</option>
+              </select>
+            </label>
+
+            {format === 'csv' && (
+              <>
+                <label className="flex flex-col text-sm text-gray-400">
+                  <span className="mb-1">Delimiter</span>
+                  <select value={delimiter} onChange={(e) => setDelimiter(e.target.value)} className={inputClassName}>
+                    {DELIMITERS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                  </select>
+                </label>
+
+                <label className="flex flex-col text-sm text-gray-400">
+                  <span className="mb-1">Address columns (optional)</span>
+                  <input
+                    type="text"
+                    value={columns}
+                    onChange={(e) => setColumns(e.target.value)}
+                    placeholder="Source address, Destination address"
+                    className={inputClassName}
+                  />
+                </label>
+              </>
+            )}
+          </div>
+
+          {format === 'csv' && (
+            <p className="text-xs text-gray-500">
+              Without column names, every column holding an address in the first data row is checked.
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <motion.button
+              type="submit"
+              disabled={isLoading || !file}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="inline-flex items-center px-3 py-1.5 border border-transparent rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 transition-all"
+            >
+              <FileSearch className={`-ml-0.5 mr-1.5 h-4 w-4 ${isLoading ? 'animate-pulse' : ''}`} />
+              {isLoading ? 'Enriching...' : 'Enrich and Download'}
+            </motion.button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="bg-red-900 bg-opacity-40 border-l-4 border-red-500 rounded-lg p-4 mb-6 text-sm text-red-300">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, CheckCircle, ChevronDown, ChevronUp, Copy, Layers, RefreshCw } from 'lucide-react';
+import { FeedChangelogPage, FeedGeoFilter, NamedFeed, useFeeds } from '../../hooks/useFeeds';
+
+interface FeedsViewProps {
+  onBack: () => void;
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const describeGeoFilter = (filter: FeedGeoFilter) =>
+  [...filter.countries, ...filter.regions, ...filter.cities].join(', ');
+
+// One chip per pipeline step that narrows or changes the feed
+const describePipeline = (feed: NamedFeed) => {
+  const maxLength = feed.family === 'ipv6' ? 128 : 32;
+  const steps: string[] = [`Sources: ${feed.sources.join(', ')}`];
+
+  if (!feed.overrides) {
+    steps.push('Without overrides');
+  }
+  if (describeGeoFilter(feed.include)) {
+    steps.push(`Only ${describeGeoFilter(feed.include)}`);
+  }
+  if (describeGeoFilter(feed.exclude)) {
+    steps.push(`Except ${describeGeoFilter(feed.exclude)}`);
+  }
+  if (feed.prefixLength.min > 0 || feed.prefixLength.max < maxLength) {
+    steps.push(`/${feed.prefixLength.min} to /${feed.prefixLength.max}`);
+  }
+  if (feed.aggregate) {
+    steps.push('Aggregated');
+  }
+  return steps;
+};
+
+export const FeedsView: React.FC<FeedsViewProps> = ({ onBack }) => {
+  const [copiedFeed, setCopiedFeed] = useState<string | null>(null);
+  const [expandedFeed, setExpandedFeed] = useState<string | null>(null);
+  const [changelog, setChangelog] = useState<FeedChangelogPage | null>(null);
+  const [changelogError, setChangelogError] = useState('');
+
+  const { feeds, isLoading, error, reload, loadChangelog } = useFeeds();
+
+  const feedUrl = (feed: NamedFeed) => `${window.location.origin}${feed.url}`;
+
+  const handleCopy = (feed: NamedFeed) => {
+    navigator.clipboard.writeText(feedUrl(feed))
+      .then(() => {
+        setCopiedFeed(feed.name);
+        setTimeout(() => setCopiedFeed(null), 2000);
+      })
+      .catch(err => console.error('Failed to copy feed URL: ', err));
+  };
+
+  const showChangelog = async (name: string, page = 1) => {
+    setExpandedFeed(name);
+    setChangelogError('');
+    try {
+      setChangelog(await loadChangelog(name, page));
+    } catch (err) {
+      setChangelog(null);
+      setChangelogError(err instanceof Error ? err.message : 'Failed to load changelog');
+    }
+  };
+
+  const toggleChangelog = (name: string) => {
+    if (expandedFeed === name) {
+      setExpandedFeed(null);
+      setChangelog(null);
+    } else {
+      showChangelog(name);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black bg-opacity-95 text-white">
+      <div className="absolute inset-0 overflow-hidden z-0">
+        <div className="absolute inset-0 bg-[url('https://images.unsplash.com/photo-1534996858221-380b92700493?ixlib=rb-4.0.3&auto=format&fit=crop&w=1951&q=80')] bg-cover opacity-20"></div>
+        <div className="absolute inset-0 bg-gradient-to-b from-transparent via-black to-black"></div>
+      </div>
+
+      <div className="max-w-5xl mx-auto py-10 px-4 sm:px-6 relative z-10">
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center mb-6"
+        >
+          <motion.button
+            onClick={onBack}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="inline-flex items-center px-3 py-2 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gray-800 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all mr-4"
+          >
+            <ArrowLeft className="-ml-1 mr-2 h-4 w-4" />
+            Back to Main View
+          </motion.button>
+
+          <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-blue-600 tracking-tight">
+            Named Feeds
+          </h1>
+
+          <button onClick={reload} className="ml-auto text-gray-400 hover:text-white" title="Reload">
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </motion.div>
+
+        <motion.p
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="mb-6 text-gray-300"
+        >
+          Each named feed is its own slice of the sources, with a stable URL, ETag and changelog, so a firewall policy
+          only sees changes that affect its slice. Feeds are defined in <span className="font-mono">config/feeds.json</span> and
+          rebuilt whenever one of their sources updates.
+        </motion.p>
+
+        {error && (
+          <div className="bg-red-900 bg-opacity-40 border-l-4 border-red-500 rounded-lg p-4 mb-6 text-sm text-red-300">
+            {error}
+          </div>
+        )}
+
+        {!isLoading && !error && feeds.length === 0 && (
+          <div className="bg-gray-900 rounded-xl border border-gray-800 p-6 text-center text-sm text-gray-400">
+            No named feeds configured. See <span className="font-mono">config/feeds.example.json</span>.
+          </div>
+        )}
+
+        {feeds.map(feed => (
+          <div key={feed.name} className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 overflow-hidden mb-6">
+            <div className="p-4 bg-gray-800">
+              <div className="flex flex-wrap items-center gap-2">
+                <Layers className="h-5 w-5 text-blue-400" />
+                <h3 className="text-lg font-medium text-white">{feed.title}</h3>
+                <span className="text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded-full">{feed.family === 'ipv6' ? 'IPv6' : 'IPv4'}</span>
+                <span className="ml-auto text-sm text-gray-300">
+                  <span className="text-white font-medium">{feed.count}</span> {feed.count === 1 ? 'entry' : 'entries'}
+                </span>
+              </div>
+              {feed.description && <p className="mt-1 text-sm text-gray-400">{feed.description}</p>}
+            </div>
+
+            <div className="p-4">
+              <div className="flex items-center gap-2">
+                <span className="font-mono text-sm text-blue-300 break-all">{feedUrl(feed)}</span>
+                <button onClick={() => handleCopy(feed)} className="text-gray-400 hover:text-white" title="Copy URL">
+                  {copiedFeed === feed.name ? <CheckCircle className="h-4 w-4 text-green-400" /> : <Copy className="h-4 w-4" />}
+                </button>
+              </div>
+
+              <div className="mt-3 flex flex-wrap gap-2">
+                {describePipeline(feed).map(step => (
+                  <span key={step} className="text-xs bg-gray-800 text-gray-300 px-2 py-1 rounded">{step}</span>
+                ))}
+              </div>
+
+              <div className="mt-3 flex items-center text-xs text-gray-500">
+                {feed.updatedAt ? <>Last changed {formatDate(feed.updatedAt)}</> : 'Not built yet, waiting for its sources'}
+                <button
+                  onClick={() => toggleChangelog(feed.name)}
+                  className="ml-auto inline-flex items-center text-sm text-blue-400 hover:text-blue-300"
+                >
+                  Changelog ({feed.changelogTotal})
+                  {expandedFeed === feed.name ? <ChevronUp className="ml-1 h-4 w-4" /> : <ChevronDown className="ml-1 h-4 w-4" />}
+                </button>
+              </div>
+            </div>
+
+            {expandedFeed === feed.name && (
+              <div className="border-t border-gray-800">
+                {changelogError && <div className="p-4 text-sm text-red-300">{changelogError}</div>}
+
+                {changelog && changelog.entries.length === 0 && (
+                  <div className="p-6 text-center text-sm text-gray-400">No changes recorded</div>
+                )}
+
+                {changelog && changelog.entries.length > 0 && (
+                  <div className="divide-y divide-gray-800">
+                    {changelog.entries.map(entry => {
+                      const added = [...entry.added, ...entry.addedIpv6];
+                      const removed = [...entry.removed, ...entry.removedIpv6];
+
+                      return (
+                        <div key={entry.id} className="px-4 py-3 text-sm">
+                          <div className="flex items-center text-gray-300">
+                            {formatDate(entry.date)}
+                            <span className="ml-auto text-green-400">+{added.length}</span>
+                            <span className="ml-2 text-red-400">-{removed.length}</span>
+                          </div>
+                          <div className="mt-1 flex flex-wrap gap-1 font-mono text-xs">
+                            {added.map(prefix => <span key={`+${prefix}`} className="text-green-300 bg-gray-800 px-1.5 py-0.5 rounded">+{prefix}</span>)}
+                            {removed.map(prefix => <span key={`-${prefix}`} className="text-red-300 bg-gray-800 px-1.5 py-0.5 rounded">-{prefix}</span>)}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {changelog && changelog.pageCount > 1 && (
+                  <div className="px-4 py-3 flex items-center justify-between text-sm text-gray-400">
+                    <button
+                      onClick={() => showChangelog(feed.name, changelog.page - 1)}
+                      disabled={changelog.page <= 1}
+                      className="hover:text-white disabled:opacity-50"
+                    >
+                      Newer
+                    </button>
+                    <span>Page {changelog.page} of {changelog.pageCount}</span>
+                    <button
+                      onClick={() => showChangelog(feed.name, changelog.page + 1)}
+                      disabled={changelog.page >= changelog.pageCount}
+                      className="hover:text-white disabled:opacity-50"
+                    >
+                      Older
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
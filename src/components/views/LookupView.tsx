@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, CheckCircle, Search, XCircle } from 'lucide-react';
+import { LookupResult, useLookup } from '../../hooks/useLookup';
+
+interface LookupViewProps {
+  onBack: () => void;
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+// Addresses pasted one per line or separated by spaces, commas or semicolons; duplicates are dropped
+const parseAddresses = (text: string) =>
+  Array.from(new Set(text.split(/[\s,;]+/).map(item => item.trim()).filter(Boolean)));
+
+const describeLocation = (result: LookupResult) =>
+  result.geo ? [result.geo.city, result.geo.region, result.geo.country].filter(Boolean).join(', ') : '';
+
+export const LookupView: React.FC<LookupViewProps> = ({ onBack }) => {
+  const [input, setInput] = useState('');
+  const { results, isLoading, error, lookup } = useLookup();
+
+  const matched = results.filter(result => result.match).length;
+  const invalid = results.filter(result => result.error).length;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const addresses = parseAddresses(input);
+    if (addresses.length > 0) {
+      lookup(addresses);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black bg-opacity-95 text-white">
+      <div className="absolute inset-0 overflow-hidden z-0">
+        <div className="absolute inset-0 bg-[url('https://images.unsplash.com/photo-1534996858221-380b92700493?ixlib=rb-4.0.3&auto=format&fit=crop&w=1951&q=80')] bg-cover opacity-20"></div>
+        <div className="absolute inset-0 bg-gradient-to-b from-transparent via-black to-black"></div>
+      </div>
+
+      <div className="max-w-5xl mx-auto py-10 px-4 sm:px-6 relative z-10">
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center mb-6"
+        >
+          <motion.button
+            onClick={onBack}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="inline-flex items-center px-3 py-2 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gray-800 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all mr-4"
+          >
+            <ArrowLeft className="-ml-1 mr-2 h-4 w-4" />
+            Back to Main View
+          </motion.button>
+
+          <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-blue-600 tracking-tight">
+            Is this IP Starlink?
+          </h1>
+        </motion.div>
+
+        <motion.p
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="mb-6 text-gray-300"
+        >
+          Paste one or more IPv4 or IPv6 addresses, e.g. from a log export. Each address is matched against the
+          published feed and shows the most specific prefix containing it, its location and when the prefix was first
+          seen in the changelog.
+        </motion.p>
+
+        <form onSubmit={handleSubmit} className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 p-4 mb-6">
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            rows={6}
+            placeholder={'98.97.12.34\n2a0d:3344:100::1'}
+            className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 text-white placeholder-gray-400"
+          />
+          <div className="mt-3 flex items-center">
+            <span className="text-xs text-gray-400">One per line or separated by spaces, commas or semicolons</span>
+            <motion.button
+              type="submit"
+              disabled={isLoading || !input.trim()}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="ml-auto inline-flex items-center px-3 py-1.5 border border-transparent rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 transition-all"
+            >
+              <Search className="-ml-0.5 mr-1.5 h-4 w-4" />
+              Look up
+            </motion.button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="bg-red-900 bg-opacity-40 border-l-4 border-red-500 rounded-lg p-4 mb-6 text-sm text-red-300">
+            {error}
+          </div>
+        )}
+
+        {results.length > 0 && (
+          <div className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 overflow-hidden">
+            <div className="p-4 bg-gray-800 text-sm text-gray-300">
+              <span className="text-white font-medium">{matched}</span> of {results.length - invalid} addresses are in the feed
+              {invalid > 0 && <>, {invalid} not recognized as an address</>}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="text-left text-xs uppercase text-gray-400">
+                  <tr>
+                    <th className="px-4 py-2">Address</th>
+                    <th className="px-4 py-2">Starlink</th>
+                    <th className="px-4 py-2">Prefix</th>
+                    <th className="px-4 py-2">Location</th>
+                    <th className="px-4 py-2">First seen</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800">
+                  {results.map(result => (
+                    <tr key={result.ip}>
+                      <td className="px-4 py-2 font-mono text-white break-all">{result.ip}</td>
+                      <td className="px-4 py-2">
+                        {result.error ? (
+                          <span className="text-yellow-400">{result.error}</span>
+                        ) : result.match ? (
+                          <span className="inline-flex items-center text-green-400"><CheckCircle className="h-4 w-4 mr-1" />Yes</span>
+                        ) : (
+                          <span className="inline-flex items-center text-gray-400"><XCircle className="h-4 w-4 mr-1" />No</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 font-mono text-blue-300">{result.prefix}</td>
+                      <td className="px-4 py-2 text-gray-300">{describeLocation(result)}</td>
+                      <td className="px-4 py-2 text-gray-400">{result.firstSeen ? formatDate(result.firstSeen) : result.match ? 'Before the oldest changelog entry' : ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,45 +1,89 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FileText, AlertTriangle, RefreshCw, Clock, Copy, CheckCircle, Satellite, ExternalLink, HelpCircle, Download, History, Settings } from 'lucide-react';
+import { FileText, AlertTriangle, RefreshCw, Clock, Copy, CheckCircle, Satellite, ExternalLink, HelpCircle, Download, History, Settings, ShieldAlert, LogIn, LogOut, Server, Bell, Shield, ListFilter, Layers, Search, FileSearch } from 'lucide-react';
 import { IPAddressGrid } from '../ip/IPAddressGrid';
+import { ExportPicker } from '../ip/ExportPicker';
 import { Tooltip } from '../ui/Tooltip';
 import { TutorialModal } from '../tutorial/TutorialModal';
 import { FeatureGrid } from '../features/FeatureGrid';
-import { ChangelogEntry } from '../../hooks/useStarlinkData';
+import { ChangelogSummary, FeedStats, FetchResult, OverrideOrigins, PendingUpdate, SourceSummary } from '../../hooks/useStarlinkData';
+import { AuthStatus } from '../../hooks/useAuth';
 import { Link, useNavigate } from 'react-router-dom';
 
 interface MainViewProps {
   ipAddresses: string[];
+  ipv6Addresses: string[];
+  stats: FeedStats | null;
   isLoading: boolean;
   fetchSuccess: boolean;
   error: string;
   lastUpdated: string | null;
+  nextScheduledRefresh: string | null;
+  lastFetchResult: FetchResult | null;
+  pendingUpdate: PendingUpdate | null;
+  sources: SourceSummary[];
+  overrideOrigins: OverrideOrigins | null;
   copiedToClipboard: boolean;
   showTutorial: boolean;
-  changelog: ChangelogEntry[];
+  changelog: ChangelogSummary[];
+  changelogTotal: number;
+  authStatus: AuthStatus | null;
   onRefresh: () => void;
   onCopy: () => void;
   onViewCSV: () => void;
   onDownload: () => void;
   onToggleTutorial: () => void;
   onViewChangelog: () => void;
+  onViewConsumers: () => void;
+  onViewWebhooks: () => void;
+  onViewPanos: () => void;
+  onViewSettings: () => void;
+  onViewOverrides: () => void;
+  onViewFeeds: () => void;
+  onViewLookup: () => void;
+  onViewEnrich: () => void;
+  onApprovePending: () => void;
+  onRejectPending: () => void;
+  onLogin: () => void;
+  onLogout: () => void;
 }
 
 export const MainView: React.FC<MainViewProps> = ({
   ipAddresses,
+  ipv6Addresses,
+  stats,
   isLoading,
   fetchSuccess,
   error,
   lastUpdated,
+  nextScheduledRefresh,
+  lastFetchResult,
+  pendingUpdate,
+  sources,
+  overrideOrigins,
   copiedToClipboard,
   showTutorial,
   changelog,
+  changelogTotal,
+  authStatus,
   onRefresh,
   onCopy,
   onViewCSV,
   onDownload,
   onToggleTutorial,
-  onViewChangelog
+  onViewChangelog,
+  onViewConsumers,
+  onViewWebhooks,
+  onViewPanos,
+  onViewSettings,
+  onViewOverrides,
+  onViewFeeds,
+  onViewLookup,
+  onViewEnrich,
+  onApprovePending,
+  onRejectPending,
+  onLogin,
+  onLogout
 }) => {
   const formatDate = (dateString: string) => {
     if (!dateString) return '';
@@ -100,7 +144,7 @@ export const MainView: React.FC<MainViewProps> = ({
             transition={{ delay: 0.2 }}
             className="mt-2 text-lg text-blue-300 max-w-2xl text-center"
           >
-            Automatically extracts and formats Starlink IPv4 addresses for Palo Alto Firewalls
+            Automatically extracts and formats Starlink IPv4 addresses for Palo Alto and other firewalls
           </motion.p>
           
           <div className="flex flex-wrap justify-center gap-2 mt-4">
@@ -122,13 +166,93 @@ export const MainView: React.FC<MainViewProps> = ({
             >
               <History className="mr-1.5 h-4 w-4" />
               View IP Changelog
-              {changelog.length > 0 && (
+              {changelogTotal > 0 && (
                 <span className="ml-1.5 bg-blue-900 text-blue-300 px-1.5 py-0.5 rounded-full text-xs">
-                  {changelog.length}
+                  {changelogTotal}
                 </span>
               )}
             </motion.button>
             
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={onViewLookup}
+              className="inline-flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-full text-sm font-medium text-blue-400 hover:bg-gray-700 transition-colors"
+            >
+              <Search className="mr-1.5 h-4 w-4" />
+              IP Lookup
+            </motion.button>
+            
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={onViewEnrich}
+              className="inline-flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-full text-sm font-medium text-blue-400 hover:bg-gray-700 transition-colors"
+            >
+              <FileSearch className="mr-1.5 h-4 w-4" />
+              Log Enrichment
+            </motion.button>
+            
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={onViewConsumers}
+              className="inline-flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-full text-sm font-medium text-blue-400 hover:bg-gray-700 transition-colors"
+            >
+              <Server className="mr-1.5 h-4 w-4" />
+              Feed Consumers
+            </motion.button>
+            
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={onViewWebhooks}
+              className="inline-flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-full text-sm font-medium text-blue-400 hover:bg-gray-700 transition-colors"
+            >
+              <Bell className="mr-1.5 h-4 w-4" />
+              Notifications
+            </motion.button>
+            
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={onViewPanos}
+              className="inline-flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-full text-sm font-medium text-blue-400 hover:bg-gray-700 transition-colors"
+            >
+              <Shield className="mr-1.5 h-4 w-4" />
+              Firewall Push
+            </motion.button>
+            
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={onViewOverrides}
+              className="inline-flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-full text-sm font-medium text-blue-400 hover:bg-gray-700 transition-colors"
+            >
+              <ListFilter className="mr-1.5 h-4 w-4" />
+              Overrides
+            </motion.button>
+            
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={onViewFeeds}
+              className="inline-flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-full text-sm font-medium text-blue-400 hover:bg-gray-700 transition-colors"
+            >
+              <Layers className="mr-1.5 h-4 w-4" />
+              Named Feeds
+            </motion.button>
+            
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={onViewSettings}
+              className="inline-flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-full text-sm font-medium text-blue-400 hover:bg-gray-700 transition-colors"
+            >
+              <Settings className="mr-1.5 h-4 w-4" />
+              Settings
+            </motion.button>
+            
             <Link 
               to="/ipv4.txt" 
               target="_blank"
@@ -137,6 +261,39 @@ export const MainView: React.FC<MainViewProps> = ({
               <FileText className="mr-1.5 h-4 w-4" />
               /ipv4.txt Direct Feed
             </Link>
+            
+            <Link 
+              to="/ipv6.txt" 
+              target="_blank"
+              className="inline-flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-full text-sm font-medium text-green-400 hover:bg-gray-700 transition-colors"
+            >
+              <FileText className="mr-1.5 h-4 w-4" />
+              /ipv6.txt Direct Feed
+            </Link>
+            
+            {authStatus?.authEnabled && (
+              authStatus.authenticated ? (
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={onLogout}
+                  className="inline-flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-full text-sm font-medium text-gray-300 hover:bg-gray-700 transition-colors"
+                >
+                  <LogOut className="mr-1.5 h-4 w-4" />
+                  {authStatus.name} ({authStatus.role}) &middot; Log out
+                </motion.button>
+              ) : (
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={onLogin}
+                  className="inline-flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-full text-sm font-medium text-blue-400 hover:bg-gray-700 transition-colors"
+                >
+                  <LogIn className="mr-1.5 h-4 w-4" />
+                  Log in
+                </motion.button>
+              )
+            )}
           </div>
         </motion.div>
         
@@ -157,10 +314,44 @@ export const MainView: React.FC<MainViewProps> = ({
             </p>
             <div className="flex items-center">
               <span className="text-sm font-medium text-gray-400">Data source:</span>
-              <code className="ml-2 bg-gray-800 px-2 py-1 rounded text-sm font-mono text-blue-300">
-                https://geoip.starlinkisp.net/feed.csv
+              <code className="ml-2 bg-gray-800 px-2 py-1 rounded text-sm font-mono text-blue-300 truncate">
+                {sources.find(source => source.primary)?.location ?? 'https://geoip.starlinkisp.net/feed.csv'}
               </code>
             </div>
+            {sources.length > 1 && (
+              <div className="mt-3 space-y-2">
+                <span className="text-sm font-medium text-gray-400">All sources:</span>
+                {sources.map(source => (
+                  <div key={source.id} className="bg-gray-800 rounded-lg px-3 py-2 border border-gray-700 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
+                    <div className="min-w-0">
+                      <span className="text-sm text-white font-medium">{source.name}</span>
+                      {source.tag && (
+                        <span className="ml-2 bg-blue-900 text-blue-300 px-1.5 py-0.5 rounded text-xs">{source.tag}</span>
+                      )}
+                      {source.pendingUpdate && (
+                        <span className="ml-2 bg-orange-900 text-orange-300 px-1.5 py-0.5 rounded text-xs">update held</span>
+                      )}
+                      <div className="text-xs text-gray-400 font-mono truncate">
+                        {source.format} &middot; {source.location}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 text-xs whitespace-nowrap">
+                      <span className="text-gray-400">{source.ipv4Count} IPv4 / {source.ipv6Count} IPv6</span>
+                      <Link to={`/sources/${source.id}/ipv4.txt`} target="_blank" className="text-green-400 hover:text-green-300">
+                        ipv4.txt
+                      </Link>
+                      <Link to={`/sources/${source.id}/ipv6.txt`} target="_blank" className="text-green-400 hover:text-green-300">
+                        ipv6.txt
+                      </Link>
+                    </div>
+                  </div>
+                ))}
+                <Link to="/merged/ipv4.txt" target="_blank" className="text-sm text-green-400 hover:text-green-300 transition-colors inline-flex items-center">
+                  <ExternalLink className="h-4 w-4 mr-1.5" />
+                  Merged feed of all sources at /merged/ipv4.txt
+                </Link>
+              </div>
+            )}
           </div>
           
           <div className="flex flex-wrap gap-3">
@@ -230,9 +421,9 @@ export const MainView: React.FC<MainViewProps> = ({
               >
                 <History className="-ml-1 mr-2 h-4 w-4" />
                 Changelog
-                {changelog.length > 0 && (
+                {changelogTotal > 0 && (
                   <span className="ml-1.5 bg-white bg-opacity-20 px-1.5 py-0.5 rounded-full text-xs">
-                    {changelog.length}
+                    {changelogTotal}
                   </span>
                 )}
               </motion.button>
@@ -249,6 +440,24 @@ export const MainView: React.FC<MainViewProps> = ({
               <Clock className="h-4 w-4 mr-1 text-blue-400" />
               <span className="font-medium">Last updated:</span>
               <span className="ml-1">{formatDate(lastUpdated)}</span>
+              {nextScheduledRefresh && (
+                <>
+                  <span className="mx-2 text-gray-600">|</span>
+                  <RefreshCw className="h-4 w-4 mr-1 text-blue-400" />
+                  <span className="font-medium">Next automatic refresh:</span>
+                  <span className="ml-1">{formatDate(nextScheduledRefresh)}</span>
+                </>
+              )}
+              {lastFetchResult?.attempts !== undefined && (
+                <>
+                  <span className="mx-2 text-gray-600">|</span>
+                  <span className="font-medium">Last check:</span>
+                  <span className="ml-1">
+                    {lastFetchResult.notModified ? 'unchanged upstream' : 'downloaded'}
+                    {' '}({lastFetchResult.attempts} attempt{lastFetchResult.attempts !== 1 ? 's' : ''}, {lastFetchResult.durationMs} ms)
+                  </span>
+                </>
+              )}
             </motion.div>
           )}
         </motion.div>
@@ -278,6 +487,92 @@ export const MainView: React.FC<MainViewProps> = ({
           </motion.div>
         )}
 
+        {pendingUpdate && (
+          <motion.div 
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-orange-900 bg-opacity-30 border-l-4 border-orange-500 rounded-lg p-4 mb-8"
+          >
+            <div className="flex items-start">
+              <ShieldAlert className="h-5 w-5 text-orange-400 mr-2 flex-shrink-0 mt-0.5" />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-orange-300 font-medium">
+                  An update fetched on {formatDate(pendingUpdate.createdAt)} was held back by the safety guard.
+                  The published feeds are unchanged until it is approved.
+                </p>
+                <ul className="mt-2 space-y-1 text-sm text-gray-300 list-disc list-inside">
+                  {pendingUpdate.reasons.map(reason => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+                <div className="flex items-center mt-3 gap-3 text-xs">
+                  <span className="text-gray-400">
+                    IPv4 {pendingUpdate.previousIpv4Count} &rarr; {pendingUpdate.ipv4Count}, IPv6 {pendingUpdate.previousIpv6Count} &rarr; {pendingUpdate.ipv6Count}
+                  </span>
+                  <span className="bg-green-900 bg-opacity-30 text-green-300 px-2 py-0.5 rounded">
+                    <span className="font-bold mr-1">+{pendingUpdate.added.length + pendingUpdate.addedIpv6.length}</span> added
+                  </span>
+                  <span className="bg-red-900 bg-opacity-30 text-red-300 px-2 py-0.5 rounded">
+                    <span className="font-bold mr-1">-{pendingUpdate.removed.length + pendingUpdate.removedIpv6.length}</span> removed
+                  </span>
+                </div>
+                {pendingUpdate.removed.length > 0 && (
+                  <p className="mt-2 text-xs text-gray-400 font-mono truncate">
+                    Removed: {pendingUpdate.removed.slice(0, 5).join(', ')}
+                    {pendingUpdate.removed.length > 5 && ` and ${pendingUpdate.removed.length - 5} more`}
+                  </p>
+                )}
+                <div className="flex gap-2 mt-3">
+                  <motion.button
+                    onClick={onApprovePending}
+                    whileHover={isLoading ? {} : { scale: 1.05 }}
+                    whileTap={isLoading ? {} : { scale: 0.95 }}
+                    disabled={isLoading}
+                    className="inline-flex items-center px-3 py-1.5 rounded-lg text-sm font-medium text-white bg-orange-600 hover:bg-orange-500 disabled:opacity-60 transition-all"
+                  >
+                    <CheckCircle className="mr-1.5 h-4 w-4" />
+                    Approve and publish
+                  </motion.button>
+                  <motion.button
+                    onClick={onRejectPending}
+                    whileHover={isLoading ? {} : { scale: 1.05 }}
+                    whileTap={isLoading ? {} : { scale: 0.95 }}
+                    disabled={isLoading}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-600 rounded-lg text-sm font-medium text-gray-300 bg-gray-800 hover:bg-gray-700 disabled:opacity-60 transition-all"
+                  >
+                    Reject
+                  </motion.button>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        )}
+
+        {lastFetchResult && lastFetchResult.rejectedCount > 0 && (
+          <motion.div 
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-yellow-900 bg-opacity-30 border-l-4 border-yellow-500 rounded-lg p-4 mb-8"
+          >
+            <div className="flex items-start">
+              <AlertTriangle className="h-5 w-5 text-yellow-400 mr-2 flex-shrink-0 mt-0.5" />
+              <div className="min-w-0">
+                <p className="text-sm text-yellow-300 font-medium">
+                  The last update rejected {lastFetchResult.rejectedCount} malformed upstream line{lastFetchResult.rejectedCount !== 1 ? 's' : ''}.
+                  They were left out of the published feeds.
+                </p>
+                <ul className="mt-2 space-y-1 text-xs text-gray-300 font-mono">
+                  {lastFetchResult.rejected.slice(0, 5).map(entry => (
+                    <li key={entry.line} className="truncate">
+                      Line {entry.line}: {entry.reason} <span className="text-gray-500">({entry.text})</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </motion.div>
+        )}
+
         {ipAddresses.length > 0 && (
           <motion.div 
             initial={{ y: 20, opacity: 0 }}
@@ -287,16 +582,25 @@ export const MainView: React.FC<MainViewProps> = ({
           >
             <div className="flex items-center justify-between mb-6">
               <div className="flex items-center">
-                <h2 className="text-xl font-semibold text-white">IPv4 Addresses</h2>
+                <h2 className="text-xl font-semibold text-white">IP Addresses</h2>
                 <motion.div 
                   initial={{ scale: 0 }}
                   animate={{ scale: 1 }}
                   transition={{ type: "spring", damping: 5 }}
                   className="ml-3 bg-blue-900 text-blue-300 px-3 py-1 rounded-lg font-mono flex items-center"
                 >
-                  <span className="text-xs uppercase mr-1">Total:</span>
+                  <span className="text-xs uppercase mr-1">IPv4:</span>
                   <span className="text-lg font-bold">{ipAddresses.length}</span>
                 </motion.div>
+                <motion.div 
+                  initial={{ scale: 0 }}
+                  animate={{ scale: 1 }}
+                  transition={{ type: "spring", damping: 5 }}
+                  className="ml-2 bg-indigo-900 text-indigo-300 px-3 py-1 rounded-lg font-mono flex items-center"
+                >
+                  <span className="text-xs uppercase mr-1">IPv6:</span>
+                  <span className="text-lg font-bold">{ipv6Addresses.length}</span>
+                </motion.div>
               </div>
               
               <div className="flex space-x-2">
@@ -346,15 +650,62 @@ export const MainView: React.FC<MainViewProps> = ({
               </div>
             </div>
             
+            <div className="mb-4 flex flex-col sm:flex-row sm:items-center gap-2">
+              <span className="text-sm text-gray-400">Export for Fortinet, Cisco, Check Point, nftables, pf or MikroTik:</span>
+              <ExportPicker />
+            </div>
+            
             <motion.div 
               initial={{ y: 10, opacity: 0 }}
               animate={{ y: 0, opacity: 1 }}
               transition={{ delay: 0.5 }}
               className="mb-4"
             >
-              <IPAddressGrid ipAddresses={ipAddresses} />
+              <IPAddressGrid
+                ipAddresses={ipAddresses}
+                ipv6Addresses={ipv6Addresses}
+                overrideIncluded={overrideOrigins?.included}
+              />
             </motion.div>
             
+            {overrideOrigins && (overrideOrigins.included.length > 0 || overrideOrigins.excluded.length > 0) && (
+              <div className="mb-4 bg-amber-900 bg-opacity-20 border border-amber-800 rounded-lg px-4 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div className="text-sm text-gray-300">
+                  <span className="font-medium text-amber-300">Manual overrides:</span>{' '}
+                  {overrideOrigins.included.length} prefix{overrideOrigins.included.length === 1 ? '' : 'es'} added,{' '}
+                  {overrideOrigins.excluded.length} upstream prefix{overrideOrigins.excluded.length === 1 ? '' : 'es'} excluded or split
+                </div>
+                <button
+                  onClick={onViewOverrides}
+                  className="text-sm text-amber-300 hover:text-amber-200 transition-colors flex items-center whitespace-nowrap"
+                >
+                  <ListFilter className="h-4 w-4 mr-1.5" />
+                  Manage overrides
+                </button>
+              </div>
+            )}
+            
+            {stats && (
+              <div className="mb-4 bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div className="text-sm text-gray-300">
+                  <span className="font-medium text-white">Aggregated feed:</span>{' '}
+                  IPv4 {stats.ipv4Count} &rarr; <span className="font-mono text-green-300">{stats.ipv4AggregatedCount}</span>
+                  {stats.ipv6Count > 0 && (
+                    <>, IPv6 {stats.ipv6Count} &rarr; <span className="font-mono text-green-300">{stats.ipv6AggregatedCount}</span></>
+                  )}
+                  {' '}prefixes after merging adjacent and contained ranges
+                </div>
+                <Link 
+                  to="/ipv4-aggregated.txt" 
+                  target="_blank"
+                  className="text-sm text-green-400 hover:text-green-300 transition-colors flex items-center whitespace-nowrap"
+                >
+                  <ExternalLink className="h-4 w-4 mr-1.5" />
+                  /ipv4-aggregated.txt
+                </Link>
+              </div>
+            )}
+            
             <motion.div 
               initial={{ y: 10, opacity: 0 }}
               animate={{ y: 0, opacity: 1 }}
@@ -363,7 +714,7 @@ export const MainView: React.FC<MainViewProps> = ({
             >
               <span className="bg-green-900 bg-opacity-40 text-green-300 text-sm font-medium px-3 py-1 rounded-full flex items-center">
                 <CheckCircle className="h-4 w-4 mr-1.5" />
-                Ready for use in Palo Alto Firewalls
+                Ready for use in Palo Alto Firewalls, with exports for other vendors
               </span>
               <p className="text-sm text-gray-400">
                 Each IP address is displayed on a separate line in standard CIDR notation
@@ -376,6 +727,14 @@ export const MainView: React.FC<MainViewProps> = ({
                 <FileText className="h-4 w-4 mr-1.5" />
                 Access direct IP text feed at <span className="group-hover:underline ml-1">/ipv4.txt</span>
               </Link>
+              <Link 
+                to="/ipv6.txt" 
+                target="_blank"
+                className="text-sm text-green-400 hover:text-green-300 transition-colors flex items-center group"
+              >
+                <FileText className="h-4 w-4 mr-1.5" />
+                Access direct IPv6 text feed at <span className="group-hover:underline ml-1">/ipv6.txt</span>
+              </Link>
             </motion.div>
           </motion.div>
         )}
@@ -405,8 +764,8 @@ export const MainView: React.FC<MainViewProps> = ({
             </div>
             
             <div className="space-y-2">
-              {changelog.slice(0, 3).map((entry, idx) => (
-                <div key={idx} className="bg-gray-800 rounded-lg p-3 flex flex-col sm:flex-row sm:items-center sm:justify-between border border-gray-700">
+              {changelog.slice(0, 3).map((entry) => (
+                <div key={entry.id} className="bg-gray-800 rounded-lg p-3 flex flex-col sm:flex-row sm:items-center sm:justify-between border border-gray-700">
                   <div>
                     <div className="flex items-center">
                       <Clock className="h-4 w-4 text-blue-400 mr-2" />
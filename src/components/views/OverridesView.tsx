@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, ListFilter, MinusCircle, Plus, PlusCircle, RefreshCw, Trash2 } from 'lucide-react';
+import { Override, useOverrides } from '../../hooks/useOverrides';
+
+interface OverridesViewProps {
+  isOperator: boolean;
+  // Name of the logged-in user, the server records it as the author
+  authorName: string | null;
+  onBack: () => void;
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const ACTIONS = {
+  include: {
+    title: 'Always Include',
+    description: 'Published even when upstream does not list them, e.g. before Starlink announces a range.',
+    icon: <PlusCircle className="h-5 w-5 text-green-400 mr-2" />
+  },
+  exclude: {
+    title: 'Always Exclude',
+    description: 'Removed from the upstream prefixes; an upstream prefix that only partly overlaps is split.',
+    icon: <MinusCircle className="h-5 w-5 text-red-400 mr-2" />
+  }
+};
+
+const inputClassName = 'bg-gray-700 border border-gray-600 rounded-md py-1.5 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-white placeholder-gray-400';
+
+export const OverridesView: React.FC<OverridesViewProps> = ({ isOperator, authorName, onBack }) => {
+  const [action, setAction] = useState<Override['action']>('include');
+  const [cidr, setCidr] = useState('');
+  const [reason, setReason] = useState('');
+  const [author, setAuthor] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [actionError, setActionError] = useState('');
+
+  const { overrides, included, excluded, isLoading, error, reload, add, remove } = useOverrides();
+
+  const runAction = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setActionError('');
+    try {
+      await task();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      await add({
+        action,
+        cidr,
+        reason,
+        ...(authorName ? {} : { author }),
+        // datetime-local is in the browser's time zone
+        ...(expiresAt ? { expiresAt: new Date(expiresAt).toISOString() } : {})
+      });
+      setCidr('');
+      setReason('');
+      setExpiresAt('');
+    });
+  };
+
+  const handleRemove = (override: Override) => {
+    if (window.confirm(`Remove the ${override.action} override for ${override.cidr}?`)) {
+      runAction(() => remove(override.id));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black bg-opacity-95 text-white">
+      <div className="absolute inset-0 overflow-hidden z-0">
+        <div className="absolute inset-0 bg-[url('https://images.unsplash.com/photo-1534996858221-380b92700493?ixlib=rb-4.0.3&auto=format&fit=crop&w=1951&q=80')] bg-cover opacity-20"></div>
+        <div className="absolute inset-0 bg-gradient-to-b from-transparent via-black to-black"></div>
+      </div>
+
+      <div className="max-w-5xl mx-auto py-10 px-4 sm:px-6 relative z-10">
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center mb-6"
+        >
+          <motion.button
+            onClick={onBack}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="inline-flex items-center px-3 py-2 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gray-800 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all mr-4"
+          >
+            <ArrowLeft className="-ml-1 mr-2 h-4 w-4" />
+            Back to Main View
+          </motion.button>
+
+          <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-blue-600 tracking-tight">
+            Manual Overrides
+          </h1>
+
+          <button onClick={reload} className="ml-auto text-gray-400 hover:text-white" title="Reload">
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </motion.div>
+
+        <motion.p
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="mb-6 text-gray-300"
+        >
+          Overrides are merged into <span className="font-mono">/ipv4.txt</span> and <span className="font-mono">/ipv6.txt</span> whenever
+          the feed is built. Changes are published right away and recorded in the changelog; an include wins over an
+          overlapping exclude. Expired entries stay listed but no longer apply.
+        </motion.p>
+
+        {(error || actionError) && (
+          <div className="bg-red-900 bg-opacity-40 border-l-4 border-red-500 rounded-lg p-4 mb-6 text-sm text-red-300">
+            {error || actionError}
+          </div>
+        )}
+
+        {isOperator ? (
+          <form onSubmit={handleAdd} className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 p-4 mb-6 grid grid-cols-1 sm:grid-cols-6 gap-2">
+            <select
+              value={action}
+              onChange={(e) => setAction(e.target.value as Override['action'])}
+              className={`${inputClassName} sm:col-span-1`}
+              aria-label="Action"
+            >
+              <option value="include">Include</option>
+              <option value="exclude">Exclude</option>
+            </select>
+            <input
+              type="text"
+              value={cidr}
+              onChange={(e) => setCidr(e.target.value)}
+              placeholder="203.0.113.0/24 or 2001:db8::/48"
+              required
+              className={`${inputClassName} font-mono sm:col-span-2`}
+            />
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason, e.g. ticket number"
+              required
+              className={`${inputClassName} sm:col-span-3`}
+            />
+            {authorName ? (
+              <div className="text-sm text-gray-400 self-center sm:col-span-2">Author: <span className="text-white">{authorName}</span></div>
+            ) : (
+              <input
+                type="text"
+                value={author}
+                onChange={(e) => setAuthor(e.target.value)}
+                placeholder="Author"
+                required
+                className={`${inputClassName} sm:col-span-2`}
+              />
+            )}
+            <label className="flex items-center text-sm text-gray-400 sm:col-span-3">
+              <span className="mr-2 whitespace-nowrap">Expires (optional)</span>
+              <input
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                className={`${inputClassName} flex-1`}
+              />
+            </label>
+            <motion.button
+              type="submit"
+              disabled={isBusy}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="inline-flex items-center justify-center px-3 py-1.5 border border-transparent rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 transition-all sm:col-span-1"
+            >
+              <Plus className="-ml-0.5 mr-1.5 h-4 w-4" />
+              Add
+            </motion.button>
+          </form>
+        ) : (
+          <div className="bg-gray-900 rounded-xl border border-gray-800 p-4 mb-6 text-sm text-gray-400">
+            Log in as an operator to add or remove overrides.
+          </div>
+        )}
+
+        {(Object.keys(ACTIONS) as Override['action'][]).map(kind => {
+          const entries = overrides.filter(override => override.action === kind);
+
+          return (
+            <div key={kind} className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 overflow-hidden mb-6">
+              <div className="p-4 bg-gray-800">
+                <div className="flex items-center">
+                  {ACTIONS[kind].icon}
+                  <h3 className="text-lg font-medium text-white">{ACTIONS[kind].title}</h3>
+                  <span className="ml-2 text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded-full">{entries.length}</span>
+                </div>
+                <p className="mt-1 text-sm text-gray-400">{ACTIONS[kind].description}</p>
+              </div>
+
+              {entries.length === 0 ? (
+                <div className="p-6 text-center text-sm text-gray-400">No entries</div>
+              ) : (
+                <div className="divide-y divide-gray-800">
+                  {entries.map(override => (
+                    <div key={override.id} className={`px-4 py-3 flex items-start justify-between gap-3 ${override.active ? '' : 'opacity-60'}`}>
+                      <div className="min-w-0">
+                        <div className="flex flex-wrap items-center gap-x-2">
+                          <span className="font-mono text-white">{override.cidr}</span>
+                          {!override.active && (
+                            <span className="text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded-full">Expired</span>
+                          )}
+                          {override.active && kind === 'include' && !included.includes(override.cidr) && (
+                            <span className="text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded-full" title="Upstream already lists this prefix">
+                              Also upstream
+                            </span>
+                          )}
+                        </div>
+                        <div className="mt-1 text-sm text-gray-300 break-words">{override.reason}</div>
+                        <div className="mt-1 text-xs text-gray-500">
+                          {override.author} &middot; {formatDate(override.createdAt)}
+                          {override.expiresAt && <> &middot; {override.active ? 'expires' : 'expired'} {formatDate(override.expiresAt)}</>}
+                        </div>
+                      </div>
+
+                      {isOperator && (
+                        <button
+                          onClick={() => handleRemove(override)}
+                          disabled={isBusy}
+                          className="text-gray-400 hover:text-red-400 disabled:opacity-50"
+                          title="Remove"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {excluded.length > 0 && (
+          <div className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 overflow-hidden">
+            <div className="p-4 bg-gray-800 flex items-center">
+              <ListFilter className="h-5 w-5 text-blue-400 mr-2" />
+              <h3 className="text-lg font-medium text-white">Upstream Prefixes Excluded or Split</h3>
+            </div>
+            <div className="p-4 flex flex-wrap gap-2">
+              {excluded.map(prefix => (
+                <span key={prefix} className="font-mono text-sm text-red-300 bg-gray-800 px-2 py-1 rounded">{prefix}</span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, CheckCircle, RefreshCw, Shield, Upload, XCircle } from 'lucide-react';
+import { PanosDevice, PanosPush, usePanos } from '../../hooks/usePanos';
+
+interface PanosViewProps {
+  isOperator: boolean;
+  onBack: () => void;
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+};
+
+const TRIGGER_LABELS = {
+  change: 'List changed',
+  retry: 'Retry',
+  manual: 'Manual'
+};
+
+// Where the objects live: a vsys on a firewall, a device group on Panorama
+const describeLocation = (device: PanosDevice) =>
+  device.type === 'panorama' ? `Panorama device group ${device.deviceGroup}` : `Firewall ${device.vsys}`;
+
+const describePush = (push: PanosPush) => push.success
+  ? [
+    `${push.total} objects`,
+    `${push.set} set`,
+    `${push.deleted} deleted`,
+    ...(push.groupUpdated ? ['group updated'] : []),
+    ...(push.committed ? [`commit job ${push.commitJobs?.join(', ')}`] : [])
+  ].join(', ')
+  : push.error;
+
+export const PanosView: React.FC<PanosViewProps> = ({ isOperator, onBack }) => {
+  const [pushingId, setPushingId] = useState<string | null>(null);
+  const [pushError, setPushError] = useState('');
+
+  const { devices, pushes, isLoading, error, reload, push } = usePanos();
+
+  // `all` pushes to every device
+  const handlePush = async (id: string) => {
+    setPushingId(id);
+    setPushError('');
+    try {
+      await push(id === 'all' ? undefined : id);
+    } catch (err) {
+      setPushError(err instanceof Error ? err.message : 'Failed to push');
+    } finally {
+      setPushingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black bg-opacity-95 text-white">
+      <div className="absolute inset-0 overflow-hidden z-0">
+        <div className="absolute inset-0 bg-[url('https://images.unsplash.com/photo-1534996858221-380b92700493?ixlib=rb-4.0.3&auto=format&fit=crop&w=1951&q=80')] bg-cover opacity-20"></div>
+        <div className="absolute inset-0 bg-gradient-to-b from-transparent via-black to-black"></div>
+      </div>
+
+      <div className="max-w-5xl mx-auto py-10 px-4 sm:px-6 relative z-10">
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center mb-6"
+        >
+          <motion.button
+            onClick={onBack}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="inline-flex items-center px-3 py-2 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gray-800 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all mr-4"
+          >
+            <ArrowLeft className="-ml-1 mr-2 h-4 w-4" />
+            Back to Main View
+          </motion.button>
+
+          <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-blue-600 tracking-tight">
+            Firewall Push
+          </h1>
+        </motion.div>
+
+        <motion.p
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="mb-6 text-gray-300"
+        >
+          For firewalls that cannot pull the EDL, the prefixes are written into address objects and an address group
+          through the PAN-OS XML API whenever the list changes. Devices are configured in <span className="font-mono">config/panos.json</span>.
+        </motion.p>
+
+        {(error || pushError) && (
+          <div className="bg-red-900 bg-opacity-40 border-l-4 border-red-500 rounded-lg p-4 mb-6 text-sm text-red-300">
+            {error || pushError}
+          </div>
+        )}
+
+        {devices.length === 0 && !isLoading ? (
+          <div className="bg-gray-900 rounded-xl shadow-lg p-8 border border-gray-800 text-center mb-6">
+            <h2 className="text-xl font-semibold text-white mb-3">No Devices Configured</h2>
+            <p className="text-gray-300">
+              Copy <span className="font-mono">config/panos.example.json</span> to <span className="font-mono">config/panos.json</span> and restart the server.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 overflow-hidden mb-6">
+            <div className="grid grid-cols-1 divide-y divide-gray-800">
+              <div className="p-4 bg-gray-800 flex items-center justify-between">
+                <h3 className="text-lg font-medium text-white">Devices</h3>
+                <div className="flex items-center space-x-3">
+                  {isOperator && devices.length > 1 && (
+                    <button
+                      onClick={() => handlePush('all')}
+                      disabled={pushingId !== null}
+                      className="inline-flex items-center px-2 py-1 rounded-md text-sm font-medium text-blue-300 hover:text-white disabled:opacity-50"
+                    >
+                      <Upload className="mr-1.5 h-4 w-4" />
+                      {pushingId === 'all' ? 'Pushing...' : 'Push all'}
+                    </button>
+                  )}
+                  <button onClick={reload} className="text-gray-400 hover:text-white" title="Reload">
+                    <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+                  </button>
+                </div>
+              </div>
+
+              {devices.map(device => (
+                <div key={device.id} className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center">
+                      <Shield className="h-4 w-4 text-blue-400 mr-2 flex-shrink-0" />
+                      <span className="font-medium text-white">{device.name}</span>
+                      <span className="ml-2 text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded-full">{describeLocation(device)}</span>
+                    </div>
+                    <div className="mt-1 text-sm text-gray-400">
+                      <span className="font-mono">{device.target}</span>
+                      <> &middot; objects <span className="font-mono">{device.objectPrefix}*</span></>
+                      {device.addressGroup && <> in group <span className="font-mono">{device.addressGroup}</span></>}
+                      <> &middot; {device.families.join(' + ')}</>
+                      {device.sources.length > 0 && <> &middot; sources: {device.sources.join(', ')}</>}
+                      {device.commit && <> &middot; commits</>}
+                    </div>
+                    <div className="mt-1 text-sm">
+                      {device.lastPush ? (
+                        <span className={device.lastPush.success ? 'text-green-400' : 'text-red-400'}>
+                          {device.lastPush.success ? 'Pushed' : 'Failed'} {formatDate(device.lastPush.date)}: {describePush(device.lastPush)}
+                        </span>
+                      ) : (
+                        <span className="text-gray-500">Never pushed</span>
+                      )}
+                    </div>
+                  </div>
+
+                  {isOperator && (
+                    <motion.button
+                      onClick={() => handlePush(device.id)}
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      disabled={pushingId !== null}
+                      className="inline-flex items-center px-3 py-1.5 border border-blue-700 rounded-lg text-sm font-medium text-blue-300 bg-blue-900 bg-opacity-40 hover:bg-blue-800 transition-all disabled:opacity-50 self-start sm:self-auto"
+                    >
+                      <Upload className="-ml-0.5 mr-1.5 h-4 w-4" />
+                      {pushingId === device.id ? 'Pushing...' : 'Push now'}
+                    </motion.button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 overflow-hidden">
+          <div className="p-4 bg-gray-800">
+            <h3 className="text-lg font-medium text-white">Push Log</h3>
+          </div>
+
+          {pushes.length === 0 ? (
+            <div className="p-6 text-center text-sm text-gray-400">Nothing pushed yet</div>
+          ) : (
+            <div className="max-h-[32rem] overflow-y-auto divide-y divide-gray-800">
+              {pushes.map(entry => (
+                <div key={entry.id} className="px-4 py-3 text-sm">
+                  <div className="flex flex-wrap items-center gap-x-3">
+                    {entry.success ? (
+                      <CheckCircle className="h-4 w-4 text-green-400" />
+                    ) : (
+                      <XCircle className="h-4 w-4 text-red-400" />
+                    )}
+                    <span className="text-gray-400">{formatDate(entry.date)}</span>
+                    <span className="font-medium text-white">{entry.device}</span>
+                    <span className="text-blue-300">{TRIGGER_LABELS[entry.trigger]}</span>
+                    <span className="text-gray-500">{entry.durationMs} ms</span>
+                  </div>
+                  <div className={`mt-1 ml-7 ${entry.success ? 'text-gray-300' : 'text-red-300'}`}>{describePush(entry)}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
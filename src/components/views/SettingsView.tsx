@@ -0,0 +1,347 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, CheckCircle, Clock, Globe, History, RefreshCw, Save, ShieldAlert } from 'lucide-react';
+import { ServerSettings, SettingsFieldError, useSettings } from '../../hooks/useSettings';
+
+interface SettingsViewProps {
+  isOperator: boolean;
+  onBack: () => void;
+}
+
+type Group = keyof ServerSettings;
+
+interface FieldProps {
+  label: string;
+  hint: string;
+  error?: string;
+  defaultValue?: string;
+  children: React.ReactNode;
+}
+
+const inputClassName = 'w-full bg-gray-800 border border-gray-700 rounded-md py-2 px-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60';
+
+// Label, input, explanation, the default when the value differs from it and the server's complaint
+const Field: React.FC<FieldProps> = ({ label, hint, error, defaultValue, children }) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-200 mb-1">{label}</label>
+    {children}
+    <p className="mt-1 text-xs text-gray-400">
+      {hint}
+      {defaultValue !== undefined && <span className="text-gray-500"> Default: {defaultValue}.</span>}
+    </p>
+    {error && <p className="mt-1 text-xs text-red-400">{error}</p>}
+  </div>
+);
+
+const Section: React.FC<{ icon: React.ReactNode; title: string; children: React.ReactNode }> = ({ icon, title, children }) => (
+  <div className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 overflow-hidden mb-6">
+    <div className="p-4 bg-gray-800 flex items-center">
+      {icon}
+      <h3 className="text-lg font-medium text-white">{title}</h3>
+    </div>
+    <div className="p-4 grid grid-cols-1 sm:grid-cols-2 gap-4">{children}</div>
+  </div>
+);
+
+// Empty number inputs are sent as null so the server reports the field instead of saving 0
+const toNumber = (value: string) => value === '' ? NaN : Number(value);
+
+export const SettingsView: React.FC<SettingsViewProps> = ({ isOperator, onBack }) => {
+  const [draft, setDraft] = useState<ServerSettings | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<SettingsFieldError[]>([]);
+  const [saveError, setSaveError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const { settings, defaults, configuredUpstream, isLoading, error, reload, save } = useSettings();
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const update = <G extends Group>(group: G, key: keyof ServerSettings[G], value: ServerSettings[G][keyof ServerSettings[G]]) => {
+    setDraft(current => current && { ...current, [group]: { ...current[group], [key]: value } });
+    setSaved(false);
+  };
+
+  const errorFor = (field: string) => fieldErrors.find(entry => entry.field === field)?.message;
+
+  // The default next to a field, only while the field differs from it
+  const defaultFor = <G extends Group>(group: G, key: keyof ServerSettings[G], format: (value: ServerSettings[G][keyof ServerSettings[G]]) => string = String) => {
+    if (!draft || !defaults || draft[group][key] === defaults[group][key]) {
+      return undefined;
+    }
+    return format(defaults[group][key]);
+  };
+
+  const handleSave = async () => {
+    if (!draft) {
+      return;
+    }
+
+    setIsSaving(true);
+    setSaveError('');
+    setFieldErrors([]);
+    try {
+      await save(draft);
+      setSaved(true);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save settings');
+      setFieldErrors((err as { details?: SettingsFieldError[] }).details || []);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    setDraft(settings);
+    setFieldErrors([]);
+    setSaveError('');
+  };
+
+  const isDirty = Boolean(draft && settings && JSON.stringify(draft) !== JSON.stringify(settings));
+  const readOnly = !isOperator;
+
+  return (
+    <div className="min-h-screen bg-black bg-opacity-95 text-white">
+      <div className="absolute inset-0 overflow-hidden z-0">
+        <div className="absolute inset-0 bg-[url('https://images.unsplash.com/photo-1534996858221-380b92700493?ixlib=rb-4.0.3&auto=format&fit=crop&w=1951&q=80')] bg-cover opacity-20"></div>
+        <div className="absolute inset-0 bg-gradient-to-b from-transparent via-black to-black"></div>
+      </div>
+
+      <div className="max-w-5xl mx-auto py-10 px-4 sm:px-6 relative z-10">
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center mb-6"
+        >
+          <motion.button
+            onClick={onBack}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="inline-flex items-center px-3 py-2 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gray-800 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all mr-4"
+          >
+            <ArrowLeft className="-ml-1 mr-2 h-4 w-4" />
+            Back to Main View
+          </motion.button>
+
+          <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-blue-600 tracking-tight">
+            Settings
+          </h1>
+
+          <button onClick={reload} className="ml-auto text-gray-400 hover:text-white" title="Reload">
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </motion.div>
+
+        <motion.p
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="mb-6 text-gray-300"
+        >
+          Server settings are stored in <span className="font-mono">config/config.json</span> and take effect right away,
+          without a restart. Settings left at their default follow the server's environment variables.
+          {readOnly && ' Log in as an operator to change them.'}
+        </motion.p>
+
+        {(error || saveError) && (
+          <div className="bg-red-900 bg-opacity-40 border-l-4 border-red-500 rounded-lg p-4 mb-6 text-sm text-red-300">
+            {error || saveError}
+          </div>
+        )}
+
+        {draft && (
+          <>
+            <Section icon={<Clock className="h-5 w-5 text-blue-400 mr-2" />} title="Scheduled Refresh">
+              <Field
+                label="Automatic refresh"
+                hint="Fetch the upstream list on a schedule."
+                error={errorFor('refresh.enabled')}
+                defaultValue={defaultFor('refresh', 'enabled', value => value ? 'on' : 'off')}
+              >
+                <button
+                  onClick={() => update('refresh', 'enabled', !draft.refresh.enabled)}
+                  disabled={readOnly}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-60 ${
+                    draft.refresh.enabled ? 'bg-blue-600' : 'bg-gray-600'
+                  }`}
+                  aria-pressed={draft.refresh.enabled}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      draft.refresh.enabled ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </Field>
+
+              <Field
+                label="Interval (minutes)"
+                hint="Time between scheduled refreshes, unless a cron expression is set."
+                error={errorFor('refresh.intervalMinutes')}
+                defaultValue={defaultFor('refresh', 'intervalMinutes')}
+              >
+                <input
+                  type="number"
+                  min={1}
+                  value={Number.isNaN(draft.refresh.intervalMinutes) ? '' : draft.refresh.intervalMinutes}
+                  onChange={(e) => update('refresh', 'intervalMinutes', toNumber(e.target.value))}
+                  disabled={readOnly}
+                  className={inputClassName}
+                />
+              </Field>
+
+              <Field
+                label="Cron expression"
+                hint='Five fields in server time, e.g. "0 */6 * * *". Takes precedence over the interval; leave empty to use it.'
+                error={errorFor('refresh.cron')}
+                defaultValue={defaultFor('refresh', 'cron', value => value ? String(value) : 'none')}
+              >
+                <input
+                  type="text"
+                  value={draft.refresh.cron ?? ''}
+                  onChange={(e) => update('refresh', 'cron', e.target.value.trim() ? e.target.value : null)}
+                  disabled={readOnly}
+                  placeholder="Use the interval"
+                  className={`${inputClassName} font-mono`}
+                />
+              </Field>
+
+              <Field
+                label="Jitter (seconds)"
+                hint="Random delay added to each run so many servers do not hit the upstream at once."
+                error={errorFor('refresh.jitterSeconds')}
+                defaultValue={defaultFor('refresh', 'jitterSeconds')}
+              >
+                <input
+                  type="number"
+                  min={0}
+                  value={Number.isNaN(draft.refresh.jitterSeconds) ? '' : draft.refresh.jitterSeconds}
+                  onChange={(e) => update('refresh', 'jitterSeconds', toNumber(e.target.value))}
+                  disabled={readOnly}
+                  className={inputClassName}
+                />
+              </Field>
+            </Section>
+
+            <Section icon={<History className="h-5 w-5 text-blue-400 mr-2" />} title="Changelog Retention">
+              <Field
+                label="Maximum entries"
+                hint="Keep only the newest entries per source, 0 keeps all of them."
+                error={errorFor('history.maxEntries')}
+                defaultValue={defaultFor('history', 'maxEntries')}
+              >
+                <input
+                  type="number"
+                  min={0}
+                  value={Number.isNaN(draft.history.maxEntries) ? '' : draft.history.maxEntries}
+                  onChange={(e) => update('history', 'maxEntries', toNumber(e.target.value))}
+                  disabled={readOnly}
+                  className={inputClassName}
+                />
+              </Field>
+
+              <Field
+                label="Maximum age (days)"
+                hint="Drop older entries, 0 keeps them. The newest entry is always kept."
+                error={errorFor('history.maxAgeDays')}
+                defaultValue={defaultFor('history', 'maxAgeDays')}
+              >
+                <input
+                  type="number"
+                  min={0}
+                  value={Number.isNaN(draft.history.maxAgeDays) ? '' : draft.history.maxAgeDays}
+                  onChange={(e) => update('history', 'maxAgeDays', toNumber(e.target.value))}
+                  disabled={readOnly}
+                  className={inputClassName}
+                />
+              </Field>
+            </Section>
+
+            <Section icon={<Globe className="h-5 w-5 text-blue-400 mr-2" />} title="Upstream">
+              <Field
+                label="Primary source URL"
+                hint={`Where the primary list is downloaded from. Leave empty to use the sources config (${configuredUpstream}).`}
+                error={errorFor('upstream.url')}
+              >
+                <input
+                  type="url"
+                  value={draft.upstream.url ?? ''}
+                  onChange={(e) => update('upstream', 'url', e.target.value.trim() || null)}
+                  disabled={readOnly}
+                  placeholder={configuredUpstream}
+                  className={`${inputClassName} font-mono`}
+                />
+              </Field>
+            </Section>
+
+            <Section icon={<ShieldAlert className="h-5 w-5 text-orange-400 mr-2" />} title="Safety Guard">
+              <Field
+                label="Maximum removed (%)"
+                hint="Hold updates that remove more than this share of the prefixes for approval, 0 disables the check."
+                error={errorFor('safety.maxRemovedPercent')}
+                defaultValue={defaultFor('safety', 'maxRemovedPercent')}
+              >
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={Number.isNaN(draft.safety.maxRemovedPercent) ? '' : draft.safety.maxRemovedPercent}
+                  onChange={(e) => update('safety', 'maxRemovedPercent', toNumber(e.target.value))}
+                  disabled={readOnly}
+                  className={inputClassName}
+                />
+              </Field>
+
+              <Field
+                label="Maximum churn"
+                hint="Hold updates that add and remove more prefixes than this in total, 0 disables the check."
+                error={errorFor('safety.maxChurn')}
+                defaultValue={defaultFor('safety', 'maxChurn')}
+              >
+                <input
+                  type="number"
+                  min={0}
+                  value={Number.isNaN(draft.safety.maxChurn) ? '' : draft.safety.maxChurn}
+                  onChange={(e) => update('safety', 'maxChurn', toNumber(e.target.value))}
+                  disabled={readOnly}
+                  className={inputClassName}
+                />
+              </Field>
+            </Section>
+
+            {isOperator && (
+              <div className="flex items-center justify-end space-x-3">
+                {saved && !isDirty && (
+                  <span className="inline-flex items-center text-sm text-green-400">
+                    <CheckCircle className="mr-1.5 h-4 w-4" />
+                    Saved and applied
+                  </span>
+                )}
+                <button
+                  onClick={handleDiscard}
+                  disabled={!isDirty || isSaving}
+                  className="px-3 py-2 rounded-lg text-sm font-medium text-gray-300 hover:text-white disabled:opacity-50"
+                >
+                  Discard changes
+                </button>
+                <motion.button
+                  onClick={handleSave}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  disabled={!isDirty || isSaving}
+                  className="inline-flex items-center px-4 py-2 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all disabled:opacity-50"
+                >
+                  <Save className="-ml-1 mr-2 h-4 w-4" />
+                  {isSaving ? 'Saving...' : 'Save settings'}
+                </motion.button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Bell, CheckCircle, Lock, RefreshCw, Send, XCircle } from 'lucide-react';
+import { useWebhooks } from '../../hooks/useWebhooks';
+import { DigestPanel } from '../notifications/DigestPanel';
+
+interface WebhooksViewProps {
+  isOperator: boolean;
+  onBack: () => void;
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+};
+
+const EVENT_LABELS = {
+  change: 'List changed',
+  failure: 'Fetch failed',
+  held: 'Update held'
+};
+
+export const WebhooksView: React.FC<WebhooksViewProps> = ({ isOperator, onBack }) => {
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [testError, setTestError] = useState('');
+
+  const { webhooks, deliveries, isLoading, error, reload, sendTest } = useWebhooks();
+
+  const handleTest = async (id: string) => {
+    setTestingId(id);
+    setTestError('');
+    try {
+      await sendTest(id);
+    } catch (err) {
+      setTestError(err instanceof Error ? err.message : 'Failed to send test notification');
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black bg-opacity-95 text-white">
+      <div className="absolute inset-0 overflow-hidden z-0">
+        <div className="absolute inset-0 bg-[url('https://images.unsplash.com/photo-1534996858221-380b92700493?ixlib=rb-4.0.3&auto=format&fit=crop&w=1951&q=80')] bg-cover opacity-20"></div>
+        <div className="absolute inset-0 bg-gradient-to-b from-transparent via-black to-black"></div>
+      </div>
+
+      <div className="max-w-5xl mx-auto py-10 px-4 sm:px-6 relative z-10">
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center mb-6"
+        >
+          <motion.button
+            onClick={onBack}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="inline-flex items-center px-3 py-2 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gray-800 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all mr-4"
+          >
+            <ArrowLeft className="-ml-1 mr-2 h-4 w-4" />
+            Back to Main View
+          </motion.button>
+
+          <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-blue-600 tracking-tight">
+            Notifications
+          </h1>
+        </motion.div>
+
+        <motion.p
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="mb-6 text-gray-300"
+        >
+          Webhooks fire when the IP list changes, when a fetch fails and when the safety guard holds an update.
+          They are configured in <span className="font-mono">config/webhooks.json</span>. The email digest summarizes
+          the changes and failures of a day or a week.
+        </motion.p>
+
+        {(error || testError) && (
+          <div className="bg-red-900 bg-opacity-40 border-l-4 border-red-500 rounded-lg p-4 mb-6 text-sm text-red-300">
+            {error || testError}
+          </div>
+        )}
+
+        {webhooks.length === 0 && !isLoading ? (
+          <div className="bg-gray-900 rounded-xl shadow-lg p-8 border border-gray-800 text-center mb-6">
+            <h2 className="text-xl font-semibold text-white mb-3">No Webhooks Configured</h2>
+            <p className="text-gray-300">
+              Copy <span className="font-mono">config/webhooks.example.json</span> to <span className="font-mono">config/webhooks.json</span> and restart the server.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 overflow-hidden mb-6">
+            <div className="grid grid-cols-1 divide-y divide-gray-800">
+              <div className="p-4 bg-gray-800 flex items-center justify-between">
+                <h3 className="text-lg font-medium text-white">Webhooks</h3>
+                <button onClick={reload} className="text-gray-400 hover:text-white" title="Reload">
+                  <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+                </button>
+              </div>
+
+              {webhooks.map(webhook => (
+                <div key={webhook.id} className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <div>
+                    <div className="flex items-center">
+                      <Bell className="h-4 w-4 text-blue-400 mr-2" />
+                      <span className="font-medium text-white">{webhook.id}</span>
+                      <span className="ml-2 text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded-full uppercase">{webhook.format}</span>
+                      {webhook.signed && (
+                        <span className="ml-2 inline-flex items-center text-xs text-green-400" title="Deliveries are signed with HMAC-SHA256">
+                          <Lock className="h-3 w-3 mr-1" />
+                          signed
+                        </span>
+                      )}
+                    </div>
+                    <div className="mt-1 text-sm text-gray-400">
+                      <span className="font-mono">{webhook.target}</span>
+                      <> &middot; {webhook.events.map(event => EVENT_LABELS[event]).join(', ')}</>
+                      {webhook.sources.length > 0 && <> &middot; sources: {webhook.sources.join(', ')}</>}
+                    </div>
+                  </div>
+
+                  {isOperator && (
+                    <motion.button
+                      onClick={() => handleTest(webhook.id)}
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      disabled={testingId !== null}
+                      className="inline-flex items-center px-3 py-1.5 border border-blue-700 rounded-lg text-sm font-medium text-blue-300 bg-blue-900 bg-opacity-40 hover:bg-blue-800 transition-all disabled:opacity-50 self-start sm:self-auto"
+                    >
+                      <Send className="-ml-0.5 mr-1.5 h-4 w-4" />
+                      {testingId === webhook.id ? 'Sending...' : 'Send test'}
+                    </motion.button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DigestPanel isOperator={isOperator} />
+
+        <div className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 overflow-hidden">
+          <div className="p-4 bg-gray-800">
+            <h3 className="text-lg font-medium text-white">Webhook Delivery Log</h3>
+          </div>
+
+          {deliveries.length === 0 ? (
+            <div className="p-6 text-center text-sm text-gray-400">No notifications sent yet</div>
+          ) : (
+            <div className="max-h-[32rem] overflow-y-auto divide-y divide-gray-800">
+              {deliveries.map(delivery => (
+                <div key={`${delivery.id}-${delivery.webhook}`} className="px-4 py-3 text-sm">
+                  <div className="flex flex-wrap items-center gap-x-3">
+                    {delivery.success ? (
+                      <CheckCircle className="h-4 w-4 text-green-400" />
+                    ) : (
+                      <XCircle className="h-4 w-4 text-red-400" />
+                    )}
+                    <span className="text-gray-400">{formatDate(delivery.date)}</span>
+                    <span className="font-medium text-white">{delivery.webhook}</span>
+                    <span className="text-blue-300">{EVENT_LABELS[delivery.event]}</span>
+                    <span className="text-gray-400">{delivery.source}</span>
+                    {delivery.status !== null && (
+                      <span className={delivery.success ? 'text-green-400' : 'text-red-400'}>HTTP {delivery.status}</span>
+                    )}
+                    {delivery.attempts !== undefined && (
+                      <span className="text-gray-500">
+                        {delivery.attempts} attempt{delivery.attempts !== 1 ? 's' : ''}
+                        {delivery.durationMs !== undefined && <>, {delivery.durationMs} ms</>}
+                      </span>
+                    )}
+                  </div>
+                  {delivery.error && <div className="mt-1 ml-7 text-red-300">{delivery.error}</div>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiFetch, setAuthToken, clearAuthToken } from '../utils/api';
+
+// Result of /api/auth/me. While authentication is disabled role is "operator" for requests from the
+// server itself and "reader" for everyone else, who may not use the operator routes then.
+export interface AuthStatus {
+  authEnabled: boolean;
+  publicRead: boolean;
+  authenticated: boolean;
+  name: string | null;
+  role: 'reader' | 'operator' | null;
+}
+
+export const useAuth = () => {
+  const [status, setStatus] = useState<AuthStatus | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await apiFetch('/api/auth/me');
+
+      if (!response.ok) {
+        throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+      }
+
+      const result: AuthStatus = await response.json();
+      setStatus(result);
+      return result;
+    } catch (err) {
+      console.error('Error loading login status:', err);
+      return null;
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  // Store the token if the server accepts it
+  const login = useCallback(async (token: string) => {
+    setAuthToken(token.trim());
+    const result = await loadStatus();
+
+    if (!result?.authenticated) {
+      clearAuthToken();
+      await loadStatus();
+      throw new Error('The token was not accepted');
+    }
+  }, [loadStatus]);
+
+  const logout = useCallback(() => {
+    clearAuthToken();
+    loadStatus();
+  }, [loadStatus]);
+
+  return {
+    status,
+    isOperator: status?.role === 'operator',
+    // Read access is missing when the server requires credentials for it and we have none
+    needsLogin: Boolean(status?.authEnabled && !status.publicRead && !status.authenticated),
+    login,
+    logout
+  };
+};
@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChangelogDiff, ChangelogEntry, ChangelogSummary } from './useStarlinkData';
+import { apiFetch } from '../utils/api';
+
+interface ChangelogPage {
+  entries: ChangelogSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+}
+
+// Pages through the server-side changelog history, optionally limited to one prefix
+export const useChangelog = (pageSize = 10) => {
+  const [page, setPage] = useState(1);
+  const [prefixFilter, setPrefixFilter] = useState('');
+  const [data, setData] = useState<ChangelogPage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadPage = async () => {
+      setIsLoading(true);
+      setError('');
+
+      try {
+        const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+        if (prefixFilter.trim()) {
+          params.set('prefix', prefixFilter.trim());
+        }
+
+        const response = await apiFetch(`/api/changelog?${params}`);
+
+        if (!response.ok) {
+          throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+        }
+
+        const result = await response.json();
+        if (!cancelled) {
+          setData(result);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          const errorMessage = err instanceof Error ? err.message : 'Failed to load changelog';
+          setError(errorMessage);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadPage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [page, pageSize, prefixFilter]);
+
+  // Load a full entry including its IP list snapshot
+  const loadEntry = useCallback(async (id: string): Promise<ChangelogEntry> => {
+    const response = await apiFetch(`/api/changelog/${encodeURIComponent(id)}`);
+
+    if (!response.ok) {
+      throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+    }
+
+    return response.json();
+  }, []);
+
+  // Diff between two changelog entry ids or timestamps; `to` defaults to the latest entry
+  const loadDiff = useCallback(async (from: string, to?: string): Promise<ChangelogDiff> => {
+    const params = new URLSearchParams({ from });
+    if (to) {
+      params.set('to', to);
+    }
+
+    const response = await apiFetch(`/api/diff?${params}`);
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result.error || `Server returned ${response.status}: ${response.statusText}`);
+    }
+
+    return result;
+  }, []);
+
+  const filterByPrefix = useCallback((prefix: string) => {
+    setPrefixFilter(prefix);
+    setPage(1);
+  }, []);
+
+  return {
+    entries: data?.entries ?? [],
+    total: data?.total ?? 0,
+    page: data?.page ?? page,
+    pageCount: data?.pageCount ?? 1,
+    pageSize,
+    prefixFilter,
+    isLoading,
+    error,
+    goToPage: setPage,
+    filterByPrefix,
+    loadEntry,
+    loadDiff
+  };
+};
@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiFetch } from '../utils/api';
+
+export interface FeedConsumer {
+  id: string;
+  ip: string;
+  userAgent: string;
+  firstSeen: string;
+  lastSeen: string;
+  lastPolled: string | null;
+  pollIntervalSeconds: number | null;
+  requests: number;
+  failures: number;
+  lastStatus: number;
+  lastPath: string;
+  lastETag: string | null;
+  // Requests per route template
+  paths: Record<string, number>;
+  silentSeconds: number | null;
+  stale: boolean;
+}
+
+export interface FeedRequest {
+  date: string;
+  ip: string;
+  userAgent: string;
+  path: string;
+  status: number;
+  etag: string | null;
+  consumerId: string;
+}
+
+interface ConsumerTable {
+  staleAfterMinutes: number;
+  total: number;
+  staleCount: number;
+  consumers: FeedConsumer[];
+}
+
+// Firewalls and other clients polling the feeds, and the most recent feed requests
+export const useConsumers = () => {
+  const [table, setTable] = useState<ConsumerTable | null>(null);
+  const [requests, setRequests] = useState<FeedRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const [consumersResponse, requestsResponse] = await Promise.all([
+        apiFetch('/api/consumers'),
+        apiFetch('/api/consumers/requests?limit=50')
+      ]);
+
+      if (!consumersResponse.ok) {
+        throw new Error(`Server returned ${consumersResponse.status}: ${consumersResponse.statusText}`);
+      }
+      if (!requestsResponse.ok) {
+        throw new Error(`Server returned ${requestsResponse.status}: ${requestsResponse.statusText}`);
+      }
+
+      setTable(await consumersResponse.json());
+      setRequests((await requestsResponse.json()).requests);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load feed consumers';
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Forget a consumer (operator only), e.g. a decommissioned firewall
+  const removeConsumer = useCallback(async (id: string) => {
+    const response = await apiFetch(`/api/consumers/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+    }
+
+    await load();
+  }, [load]);
+
+  return {
+    consumers: table?.consumers ?? [],
+    staleCount: table?.staleCount ?? 0,
+    staleAfterMinutes: table?.staleAfterMinutes ?? null,
+    requests,
+    isLoading,
+    error,
+    reload: load,
+    removeConsumer
+  };
+};
@@ -0,0 +1,134 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiFetch } from '../utils/api';
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface DigestSubscriber {
+  id: string;
+  email: string;
+  frequency: DigestFrequency;
+  createdAt: string;
+  // End of the last period the subscriber received; a failed send keeps it in place
+  lastSentAt?: string | null;
+  lastError?: { date: string; error: string } | null;
+}
+
+interface DigestSchedule {
+  enabled: boolean;
+  cron: string | null;
+  nextRunAt: string | null;
+}
+
+export interface DigestStatus {
+  smtpConfigured: boolean;
+  sender: string;
+  subscribers: DigestSubscriber[];
+  lastSent: Partial<Record<DigestFrequency, string>>;
+  schedules: Record<DigestFrequency, DigestSchedule>;
+}
+
+export interface DigestPreview {
+  frequency: DigestFrequency;
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface DigestSendResult {
+  success: boolean;
+  sent: string[];
+  failed: { email: string; error: string }[];
+}
+
+const readError = async (response: Response) => {
+  const result = await response.json().catch(() => ({}));
+  return new Error(result.error || `Server returned ${response.status}: ${response.statusText}`);
+};
+
+// Email digest subscribers and schedules; every call needs the operator role
+export const useDigest = (enabled: boolean) => {
+  const [status, setStatus] = useState<DigestStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await apiFetch('/api/digest');
+
+      if (!response.ok) {
+        throw await readError(response);
+      }
+
+      setStatus(await response.json());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load digest settings';
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) {
+      load();
+    }
+  }, [enabled, load]);
+
+  const addSubscriber = useCallback(async (email: string, frequency: DigestFrequency) => {
+    const response = await apiFetch('/api/digest/subscribers', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, frequency })
+    });
+
+    if (!response.ok) {
+      throw await readError(response);
+    }
+
+    await load();
+  }, [load]);
+
+  const removeSubscriber = useCallback(async (id: string) => {
+    const response = await apiFetch(`/api/digest/subscribers/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      throw await readError(response);
+    }
+
+    await load();
+  }, [load]);
+
+  const loadPreview = useCallback(async (frequency: DigestFrequency): Promise<DigestPreview> => {
+    const response = await apiFetch(`/api/digest/preview?frequency=${frequency}`);
+
+    if (!response.ok) {
+      throw await readError(response);
+    }
+
+    return response.json();
+  }, []);
+
+  // Send the digest now, to all subscribers of the frequency or only to `to`
+  const sendNow = useCallback(async (frequency: DigestFrequency, to?: string): Promise<DigestSendResult> => {
+    const response = await apiFetch('/api/digest/send', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ frequency, ...(to && { to }) })
+    });
+
+    if (!response.ok) {
+      throw await readError(response);
+    }
+
+    const result = await response.json();
+    await load();
+    return result;
+  }, [load]);
+
+  return { status, isLoading, error, addSubscriber, removeSubscriber, loadPreview, sendNow };
+};
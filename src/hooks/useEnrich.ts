@@ -0,0 +1,58 @@
+import { useState, useCallback } from 'react';
+import { apiFetch } from '../utils/api';
+
+export type EnrichFormat = 'csv' | 'text';
+
+export interface EnrichOptions {
+  format: EnrichFormat;
+  // CSV header names to check, empty to use the columns holding an address in the first row
+  columns: string[];
+  delimiter: string;
+}
+
+// Upload a log to /api/enrich and download the tagged copy
+export const useEnrich = () => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const enrich = useCallback(async (file: File, { format, columns, delimiter }: EnrichOptions) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const params = new URLSearchParams({ format, delimiter });
+      if (columns.length > 0) {
+        params.set('columns', columns.join(','));
+      }
+
+      // The file is sent as the raw body, the browser streams it from disk
+      const response = await apiFetch(`/api/enrich?${params}`, {
+        method: 'POST',
+        headers: { 'Content-Type': format === 'csv' ? 'text/csv' : 'text/plain' },
+        body: file
+      });
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || `Server returned ${response.status}: ${response.statusText}`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      const dot = file.name.lastIndexOf('.');
+      link.href = url;
+      link.download = dot > 0 ? `${file.name.slice(0, dot)}-starlink${file.name.slice(dot)}` : `${file.name}-starlink`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Enrichment failed';
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return { isLoading, error, enrich };
+};
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiFetch } from '../utils/api';
+
+export interface ExportFormat {
+  file: string;
+  label: string;
+  contentType: string;
+  defaultName: string;
+  path: string;
+}
+
+// Vendor export formats and downloading one of them as a file
+export const useExports = () => {
+  const [formats, setFormats] = useState<ExportFormat[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await apiFetch('/api/exports');
+
+        if (!response.ok) {
+          throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+        }
+
+        setFormats((await response.json()).formats);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load export formats';
+        setError(errorMessage);
+      }
+    };
+
+    load();
+  }, []);
+
+  // Fetched with the stored token so downloads also work when the feeds require a login
+  const download = useCallback(async (format: ExportFormat, { aggregate = false } = {}) => {
+    setError('');
+
+    try {
+      const response = await apiFetch(`${format.path}${aggregate ? '?aggregate=true' : ''}`);
+
+      if (!response.ok) {
+        throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      const [base, extension] = format.file.split(/\.(?=[^.]+$)/);
+      link.href = url;
+      link.download = `starlink_${base}_${new Date().toISOString().slice(0, 10)}.${extension}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to download export';
+      setError(errorMessage);
+    }
+  }, []);
+
+  return { formats, error, download };
+};
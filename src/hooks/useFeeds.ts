@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChangelogSummary } from './useStarlinkData';
+import { apiFetch } from '../utils/api';
+
+export interface FeedGeoFilter {
+  countries: string[];
+  regions: string[];
+  cities: string[];
+}
+
+export interface NamedFeed {
+  name: string;
+  title: string;
+  description: string;
+  family: 'ipv4' | 'ipv6';
+  sources: string[];
+  include: FeedGeoFilter;
+  exclude: FeedGeoFilter;
+  prefixLength: {
+    min: number;
+    max: number;
+  };
+  aggregate: boolean;
+  overrides: boolean;
+  url: string;
+  count: number;
+  updatedAt: string | null;
+  changelogTotal: number;
+}
+
+export interface FeedChangelogPage {
+  entries: ChangelogSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+}
+
+// Named feeds from config/feeds.json with their entry counts, and the changelog of each
+export const useFeeds = () => {
+  const [feeds, setFeeds] = useState<NamedFeed[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await apiFetch('/api/feeds');
+
+      if (!response.ok) {
+        throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      setFeeds(result.feeds);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load feeds';
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const loadChangelog = useCallback(async (name: string, page = 1, pageSize = 5): Promise<FeedChangelogPage> => {
+    const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+    const response = await apiFetch(`/api/feeds/${encodeURIComponent(name)}/changelog?${params}`);
+
+    if (!response.ok) {
+      throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+    }
+
+    return response.json();
+  }, []);
+
+  return { feeds, isLoading, error, reload: load, loadChangelog };
+};
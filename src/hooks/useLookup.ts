@@ -0,0 +1,52 @@
+import { useState, useCallback } from 'react';
+import { apiFetch } from '../utils/api';
+
+export interface LookupResult {
+  ip: string;
+  family?: 'ipv4' | 'ipv6';
+  match?: boolean;
+  prefix?: string | null;
+  geo?: {
+    country: string;
+    region: string;
+    city: string;
+  } | null;
+  firstSeen?: string | null;
+  // Set instead of the fields above when the input is not an address
+  error?: string;
+}
+
+// Longest-prefix-match lookup of many addresses against the published lists
+export const useLookup = () => {
+  const [results, setResults] = useState<LookupResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const lookup = useCallback(async (ips: string[]) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await apiFetch('/api/lookup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ips })
+      });
+
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(result.error || `Server returned ${response.status}: ${response.statusText}`);
+      }
+
+      setResults(result.results);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Lookup failed';
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return { results, isLoading, error, lookup };
+};
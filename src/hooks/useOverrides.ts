@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiFetch } from '../utils/api';
+
+export interface Override {
+  id: string;
+  action: 'include' | 'exclude';
+  cidr: string;
+  family: 'ipv4' | 'ipv6';
+  reason: string;
+  author: string;
+  createdAt: string;
+  expiresAt: string | null;
+  active: boolean;
+}
+
+export interface NewOverride {
+  action: 'include' | 'exclude';
+  cidr: string;
+  reason: string;
+  author?: string;
+  expiresAt?: string;
+}
+
+// Manual include/exclude overrides of the primary feed and their effect on the published lists
+export const useOverrides = () => {
+  const [overrides, setOverrides] = useState<Override[]>([]);
+  const [included, setIncluded] = useState<string[]>([]);
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await apiFetch('/api/overrides');
+
+      if (!response.ok) {
+        throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      setOverrides(result.overrides);
+      setIncluded(result.included);
+      setExcluded(result.excluded);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load overrides';
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Add an override (operator only); the feed is republished right away
+  const add = useCallback(async (override: NewOverride): Promise<Override> => {
+    const response = await apiFetch('/api/overrides', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(override)
+    });
+
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(result.error || `Server returned ${response.status}: ${response.statusText}`);
+    }
+
+    await load();
+    return result;
+  }, [load]);
+
+  const remove = useCallback(async (id: string) => {
+    const response = await apiFetch(`/api/overrides/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.error || `Server returned ${response.status}: ${response.statusText}`);
+    }
+
+    await load();
+  }, [load]);
+
+  return { overrides, included, excluded, isLoading, error, reload: load, add, remove };
+};
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiFetch } from '../utils/api';
+
+export interface PanosPush {
+  id: string;
+  device: string;
+  trigger: 'change' | 'retry' | 'manual';
+  date: string;
+  success: boolean;
+  total?: number;
+  set?: number;
+  deleted?: number;
+  groupUpdated?: boolean;
+  committed?: boolean;
+  commitJobs?: string[];
+  durationMs: number;
+  error?: string;
+}
+
+export interface PanosDevice {
+  id: string;
+  name: string;
+  target: string;
+  type: 'firewall' | 'panorama';
+  vsys: string | null;
+  deviceGroup: string | null;
+  objectPrefix: string;
+  addressGroup: string | null;
+  maxGroupMembers: number;
+  sources: string[];
+  families: ('ipv4' | 'ipv6')[];
+  commit: boolean;
+  lastPush: PanosPush | null;
+}
+
+// PAN-OS devices the prefixes are pushed to and the push log
+export const usePanos = () => {
+  const [devices, setDevices] = useState<PanosDevice[]>([]);
+  const [pushes, setPushes] = useState<PanosPush[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await apiFetch('/api/panos?limit=100');
+
+      if (!response.ok) {
+        throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      setDevices(result.devices);
+      setPushes(result.pushes);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load PAN-OS devices';
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Push the current prefixes to one device or to all of them (operator only) and reload
+  const push = useCallback(async (device?: string): Promise<PanosPush[]> => {
+    const response = await apiFetch('/api/panos/push', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(device ? { device } : {})
+    });
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.error || `Server returned ${response.status}: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    await load();
+    return result.pushes;
+  }, [load]);
+
+  return { devices, pushes, isLoading, error, reload: load, push };
+};
@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiFetch } from '../utils/api';
+
+export interface ServerSettings {
+  refresh: {
+    enabled: boolean;
+    intervalMinutes: number;
+    cron: string | null;
+    jitterSeconds: number;
+  };
+  history: {
+    maxEntries: number;
+    maxAgeDays: number;
+  };
+  upstream: {
+    url: string | null;
+  };
+  safety: {
+    maxRemovedPercent: number;
+    maxChurn: number;
+  };
+}
+
+export interface SettingsFieldError {
+  field: string;
+  message: string;
+}
+
+interface SettingsResponse {
+  settings: ServerSettings;
+  defaults: ServerSettings;
+  overridden: string[];
+  configuredUpstream: string;
+}
+
+// Runtime server settings: refresh schedule, retention, upstream URL and safety thresholds
+export const useSettings = () => {
+  const [data, setData] = useState<SettingsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await apiFetch('/api/settings');
+
+      if (!response.ok) {
+        throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+      }
+
+      setData(await response.json());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load settings';
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Save the settings (operator only); the server applies them without a restart.
+  // A rejected save throws with `details` naming each invalid field.
+  const save = useCallback(async (settings: ServerSettings) => {
+    const response = await apiFetch('/api/settings', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(settings)
+    });
+
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      const message = result.error || `Server returned ${response.status}: ${response.statusText}`;
+      throw Object.assign(new Error(message), { details: (result.details || []) as SettingsFieldError[] });
+    }
+
+    setData(result);
+    return result as SettingsResponse;
+  }, []);
+
+  return {
+    settings: data?.settings ?? null,
+    defaults: data?.defaults ?? null,
+    overridden: data?.overridden ?? [],
+    configuredUpstream: data?.configuredUpstream ?? '',
+    isLoading,
+    error,
+    reload: load,
+    save
+  };
+};
@@ -1,24 +1,164 @@
 import { useState, useEffect, useCallback } from 'react';
+import { parseIPv4Cidr, sortIPv4Cidrs } from '../../shared/ipv4';
+import { apiFetch } from '../utils/api';
 
+// Change of a manual override, recorded in the changelog as its own event
+export interface OverrideChange {
+  change: 'added' | 'removed' | 'expired';
+  id: string;
+  action: 'include' | 'exclude';
+  cidr: string;
+  reason: string;
+  author: string;
+}
+
+// Changelog entry as listed by /api/changelog, without the IP list snapshot
+export interface ChangelogSummary {
+  id: string;
+  date: string;
+  added: string[];
+  removed: string[];
+  // IPv6 fields are empty on entries recorded before IPv6 support
+  addedIpv6: string[];
+  removedIpv6: string[];
+  ipv4Count: number;
+  ipv6Count: number;
+  event?: 'override';
+  override?: OverrideChange;
+}
+
+// Full changelog entry from /api/changelog/:id
 export interface ChangelogEntry {
+  id: string;
   date: string;
   ipAddresses: string[];
   added: string[];
   removed: string[];
+  ipv6Addresses?: string[];
+  addedIpv6?: string[];
+  removedIpv6?: string[];
+  event?: 'override';
+  override?: OverrideChange;
+}
+
+// Published prefixes that only come from include overrides, and upstream prefixes removed or
+// split by exclude overrides
+export interface OverrideOrigins {
+  included: string[];
+  excluded: string[];
+}
+
+// Result of /api/diff between two changelog entries or points in time
+export interface ChangelogDiff {
+  from: { id: string; date: string; ipv4Count: number };
+  to: { id: string; date: string; ipv4Count: number };
+  added: string[];
+  removed: string[];
+  addedIpv6: string[];
+  removedIpv6: string[];
+}
+
+export interface FeedStats {
+  ipv4Count: number;
+  ipv4AggregatedCount: number;
+  ipv6Count: number;
+  ipv6AggregatedCount: number;
+}
+
+export interface RejectedLine {
+  line: number;
+  text: string;
+  reason: string;
+}
+
+export interface FetchResult {
+  success: boolean;
+  count: number;
+  added: number;
+  removed: number;
+  ipv6Count: number;
+  ipv6Added: number;
+  ipv6Removed: number;
+  held?: boolean;
+  reasons?: string[];
+  // Upstream answered 304, the published lists were kept as they are
+  notModified?: boolean;
+  attempts?: number;
+  durationMs?: number;
+  rejectedCount: number;
+  rejected: RejectedLine[];
+  normalizedCount: number;
+  normalized: { line: number; text: string; normalizedTo: string }[];
+}
+
+// Upstream source as listed by /api/sources; the primary source backs /ipv4.txt and /ipv6.txt
+export interface SourceSummary {
+  id: string;
+  name: string;
+  location: string;
+  format: 'geofeed' | 'cidr' | 'json';
+  tag: string | null;
+  primary: boolean;
+  ipv4Count: number;
+  ipv6Count: number;
+  lastUpdated: string | null;
+  changelogTotal: number;
+  pendingUpdate: boolean;
+}
+
+// Update held back by the mass-removal safety guard until it is approved or rejected
+export interface PendingUpdate {
+  id: string;
+  createdAt: string;
+  reasons: string[];
+  ipv4Count: number;
+  ipv6Count: number;
+  previousIpv4Count: number;
+  previousIpv6Count: number;
+  added: string[];
+  removed: string[];
+  addedIpv6: string[];
+  removedIpv6: string[];
+}
+
+export interface ScheduleStatus {
+  enabled: boolean;
+  mode: 'interval' | 'cron';
+  intervalMinutes: number | null;
+  cron: string | null;
+  jitterSeconds: number;
+  running: boolean;
+  nextRunAt: string | null;
+  lastRun: {
+    trigger: string;
+    startedAt: string;
+    finishedAt: string;
+    success: boolean;
+    error?: string;
+    result?: FetchResult;
+  } | null;
 }
 
 export const useStarlinkData = () => {
   const [ipAddresses, setIpAddresses] = useState<string[]>([]);
+  const [ipv6Addresses, setIpv6Addresses] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [fetchSuccess, setFetchSuccess] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
-  const [changelog, setChangelog] = useState<ChangelogEntry[]>([]);
+  const [changelog, setChangelog] = useState<ChangelogSummary[]>([]);
+  const [changelogTotal, setChangelogTotal] = useState(0);
   const [showChangelog, setShowChangelog] = useState(false);
+  const [schedule, setSchedule] = useState<ScheduleStatus | null>(null);
+  const [stats, setStats] = useState<FeedStats | null>(null);
+  const [pendingUpdate, setPendingUpdate] = useState<PendingUpdate | null>(null);
+  const [sources, setSources] = useState<SourceSummary[]>([]);
+  const [overrideOrigins, setOverrideOrigins] = useState<OverrideOrigins | null>(null);
 
   // Load initial data from localStorage
   useEffect(() => {
     const storedIps = localStorage.getItem('starlink_ipAddresses');
+    const storedIpv6 = localStorage.getItem('starlink_ipv6Addresses');
     const storedTime = localStorage.getItem('starlink_lastUpdated');
     const storedChangelog = localStorage.getItem('starlink_changelog');
     
@@ -26,7 +166,8 @@ export const useStarlinkData = () => {
       try {
         const parsedIps = JSON.parse(storedIps);
         if (Array.isArray(parsedIps) && parsedIps.length > 0) {
-          setIpAddresses(parsedIps);
+          // Caches written by older versions may hold unsorted or malformed entries
+          setIpAddresses(sortIPv4Cidrs(parsedIps.filter(ip => parseIPv4Cidr(ip) !== null)));
         }
       } catch (e) {
         console.error('Error parsing stored IP addresses:', e);
@@ -34,6 +175,18 @@ export const useStarlinkData = () => {
       }
     }
     
+    if (storedIpv6) {
+      try {
+        const parsedIpv6 = JSON.parse(storedIpv6);
+        if (Array.isArray(parsedIpv6)) {
+          setIpv6Addresses(parsedIpv6);
+        }
+      } catch (e) {
+        console.error('Error parsing stored IPv6 addresses:', e);
+        localStorage.removeItem('starlink_ipv6Addresses');
+      }
+    }
+    
     if (storedTime) {
       setLastUpdated(storedTime);
     }
@@ -41,7 +194,8 @@ export const useStarlinkData = () => {
     if (storedChangelog) {
       try {
         const parsedChangelog = JSON.parse(storedChangelog);
-        if (Array.isArray(parsedChangelog)) {
+        // Entries cached before the history store have no id and are dropped
+        if (Array.isArray(parsedChangelog) && parsedChangelog.every(entry => entry.id)) {
           setChangelog(parsedChangelog);
         }
       } catch (e) {
@@ -58,6 +212,12 @@ export const useStarlinkData = () => {
     }
   }, [ipAddresses]);
 
+  useEffect(() => {
+    if (ipv6Addresses.length > 0) {
+      localStorage.setItem('starlink_ipv6Addresses', JSON.stringify(ipv6Addresses));
+    }
+  }, [ipv6Addresses]);
+
   useEffect(() => {
     if (lastUpdated) {
       localStorage.setItem('starlink_lastUpdated', lastUpdated);
@@ -79,7 +239,7 @@ export const useStarlinkData = () => {
   // Load current data from server
   const loadCurrentData = useCallback(async () => {
     try {
-      const response = await fetch('/api/data');
+      const response = await apiFetch('/api/data');
       
       if (!response.ok) {
         throw new Error(`Server returned ${response.status}: ${response.statusText}`);
@@ -97,8 +257,14 @@ export const useStarlinkData = () => {
       }
       
       setIpAddresses(data.ipAddresses || []);
+      setIpv6Addresses(data.ipv6Addresses || []);
       setLastUpdated(data.lastUpdated);
       setChangelog(data.changelog || []);
+      setChangelogTotal(data.changelogTotal ?? (data.changelog || []).length);
+      setStats(data.stats || null);
+      setPendingUpdate(data.pendingUpdate || null);
+      setSources(data.sources || []);
+      setOverrideOrigins(data.overrides || null);
       
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load data';
@@ -107,6 +273,22 @@ export const useStarlinkData = () => {
     }
   }, []);
 
+  // Load the server-side refresh schedule
+  const loadSchedule = useCallback(async () => {
+    try {
+      const response = await apiFetch('/api/schedule');
+      
+      if (!response.ok) {
+        throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+      }
+      
+      setSchedule(await response.json());
+    } catch (err) {
+      // The schedule is informational only, so a failure here is not surfaced to the user
+      console.error('Error loading refresh schedule:', err);
+    }
+  }, []);
+
   // Main fetch function
   const fetchData = useCallback(async () => {
     if (isLoading) return;
@@ -116,7 +298,7 @@ export const useStarlinkData = () => {
 
     try {
       // Call server to fetch fresh data
-      const response = await fetch('/api/fetch-data', {
+      const response = await apiFetch('/api/fetch-data', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -135,9 +317,11 @@ export const useStarlinkData = () => {
       const result = await response.json();
       
       if (result.success) {
-        // Reload the data
+        // Reload the data; a held update shows up as pending instead of a success
         await loadCurrentData();
-        showSuccessMessage();
+        if (!result.held) {
+          showSuccessMessage();
+        }
       } else {
         throw new Error(result.error || 'Unknown error occurred');
       }
@@ -146,15 +330,61 @@ export const useStarlinkData = () => {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch data';
       setError(errorMessage);
       console.error('Fetch error:', err);
+    } finally {
+      setIsLoading(false);
+      loadSchedule();
+    }
+  }, [isLoading, showSuccessMessage, loadCurrentData, loadSchedule]);
+
+  // Approve or reject the update held by the safety guard
+  const resolvePendingUpdate = useCallback(async (action: 'approve' | 'reject') => {
+    if (!pendingUpdate || isLoading) return;
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await apiFetch(`/api/pending/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: pendingUpdate.id }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Server returned ${response.status}: ${response.statusText}`);
+      }
+
+      await loadCurrentData();
+      if (action === 'approve') {
+        showSuccessMessage();
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : `Failed to ${action} update`;
+      setError(errorMessage);
+      console.error(`Pending update ${action} error:`, err);
     } finally {
       setIsLoading(false);
     }
-  }, [isLoading, showSuccessMessage, loadCurrentData]);
+  }, [pendingUpdate, isLoading, loadCurrentData, showSuccessMessage]);
+
+  const approvePendingUpdate = useCallback(() => resolvePendingUpdate('approve'), [resolvePendingUpdate]);
+  const rejectPendingUpdate = useCallback(() => resolvePendingUpdate('reject'), [resolvePendingUpdate]);
+
+  // Load data and schedule again, e.g. after logging in
+  const reload = useCallback(() => {
+    setError('');
+    loadCurrentData();
+    loadSchedule();
+  }, [loadCurrentData, loadSchedule]);
 
   // Load current data on mount
   useEffect(() => {
-    loadCurrentData();
-  }, [loadCurrentData]);
+    reload();
+  }, [reload]);
 
   // Toggle changelog view
   const toggleChangelog = () => {
@@ -163,13 +393,23 @@ export const useStarlinkData = () => {
 
   return {
     ipAddresses,
+    ipv6Addresses,
     isLoading,
     error,
     lastUpdated,
     fetchSuccess,
     changelog,
+    changelogTotal,
     showChangelog,
+    schedule,
+    stats,
+    pendingUpdate,
+    sources,
+    overrideOrigins,
     fetchData,
+    approvePendingUpdate,
+    rejectPendingUpdate,
+    reload,
     toggleChangelog
   };
 };
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiFetch } from '../utils/api';
+
+export type WebhookEvent = 'change' | 'failure' | 'held';
+
+export interface Webhook {
+  id: string;
+  target: string;
+  format: 'json' | 'slack' | 'teams';
+  events: WebhookEvent[];
+  sources: string[];
+  signed: boolean;
+  retries: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhook: string;
+  event: WebhookEvent;
+  source: string;
+  date: string;
+  success: boolean;
+  status: number | null;
+  attempts?: number;
+  durationMs?: number;
+  error?: string;
+}
+
+// Configured webhooks and their delivery log
+export const useWebhooks = () => {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await apiFetch('/api/webhooks?limit=100');
+
+      if (!response.ok) {
+        throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      setWebhooks(result.webhooks);
+      setDeliveries(result.deliveries);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load webhooks';
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Send a sample change event (operator only) and reload the log
+  const sendTest = useCallback(async (id: string): Promise<WebhookDelivery> => {
+    const response = await apiFetch(`/api/webhooks/${encodeURIComponent(id)}/test`, { method: 'POST' });
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.error || `Server returned ${response.status}: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    await load();
+    return result.delivery;
+  }, [load]);
+
+  return { webhooks, deliveries, isLoading, error, reload: load, sendTest };
+};
@@ -0,0 +1,26 @@
+const TOKEN_STORAGE_KEY = 'starlink_authToken';
+
+export const getAuthToken = () => localStorage.getItem(TOKEN_STORAGE_KEY);
+
+export const setAuthToken = (token: string) => {
+  localStorage.setItem(TOKEN_STORAGE_KEY, token);
+};
+
+export const clearAuthToken = () => {
+  localStorage.removeItem(TOKEN_STORAGE_KEY);
+};
+
+// fetch() for the server API, sending the stored token when there is one. The server only
+// accepts changes from a browser with the X-Requested-With header, which other sites cannot send.
+export const apiFetch = (input: string, init: RequestInit = {}) => {
+  const token = getAuthToken();
+  const headers = new Headers(init.headers);
+
+  headers.set('X-Requested-With', 'starlink-edl');
+
+  if (token && !headers.has('Authorization')) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  return fetch(input, { ...init, headers });
+};
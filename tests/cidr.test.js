@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { aggregateIPv4, aggregateIPv6, excludeIPv4, excludeIPv6 } from '../server/cidr.js';
+
+describe('aggregateIPv4', () => {
+  it('merges adjacent and contained prefixes', () => {
+    assert.deepEqual(aggregateIPv4(['10.0.0.0/24', '10.0.1.0/24', '10.0.1.128/25']), ['10.0.0.0/23']);
+    assert.deepEqual(aggregateIPv4(['10.0.0.0/8', '10.200.0.0/16', '10.255.255.255/32']), ['10.0.0.0/8']);
+  });
+
+  it('does not merge adjacent blocks that are not aligned', () => {
+    // 10.0.1.0/24 and 10.0.2.0/24 touch but do not form a /23
+    assert.deepEqual(aggregateIPv4(['10.0.1.0/24', '10.0.2.0/24']), ['10.0.1.0/24', '10.0.2.0/24']);
+    assert.deepEqual(aggregateIPv4(['10.0.1.0/24', '10.0.2.0/24', '10.0.3.0/24']), ['10.0.1.0/24', '10.0.2.0/23']);
+  });
+
+  it('splits a merged range into the fewest blocks', () => {
+    const blocks = ['10.0.0.0/24', '10.0.1.0/24', '10.0.2.0/24'];
+    assert.deepEqual(aggregateIPv4(blocks), ['10.0.0.0/23', '10.0.2.0/24']);
+  });
+
+  it('sorts numerically, skips invalid entries and normalizes host bits', () => {
+    assert.deepEqual(aggregateIPv4(['192.168.0.0/24', 'not-a-prefix', '9.9.9.9/24', '10.0.0.0/33']), ['9.9.9.0/24', '192.168.0.0/24']);
+  });
+
+  it('handles the edges of the address space', () => {
+    assert.deepEqual(aggregateIPv4(['0.0.0.0/1', '128.0.0.0/1']), ['0.0.0.0/0']);
+    assert.deepEqual(aggregateIPv4(['255.255.255.254/32', '255.255.255.255/32']), ['255.255.255.254/31']);
+    assert.deepEqual(aggregateIPv4(['0.0.0.0/32', '0.0.0.1/32', '0.0.0.2/32']), ['0.0.0.0/31', '0.0.0.2/32']);
+  });
+
+  it('returns an empty list for no input', () => {
+    assert.deepEqual(aggregateIPv4([]), []);
+  });
+});
+
+describe('aggregateIPv6', () => {
+  it('merges adjacent and contained prefixes into canonical spellings', () => {
+    assert.deepEqual(aggregateIPv6(['2001:db8::/33', '2001:db8:8000::/33', '2001:DB8:1::/48']), ['2001:db8::/32']);
+  });
+
+  it('keeps unaligned neighbours apart', () => {
+    assert.deepEqual(aggregateIPv6(['2001:db8:1::/48', '2001:db8:2::/48']), ['2001:db8:1::/48', '2001:db8:2::/48']);
+  });
+
+  it('handles the edges of the address space', () => {
+    assert.deepEqual(aggregateIPv6(['::/1', '8000::/1']), ['::/0']);
+    assert.deepEqual(aggregateIPv6(['ffff:ffff:ffff:ffff:ffff:ffff:ffff:fffe/128', 'ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff/128']),
+      ['ffff:ffff:ffff:ffff:ffff:ffff:ffff:fffe/127']);
+  });
+});
+
+describe('excludeIPv4', () => {
+  it('splits a prefix around the excluded block', () => {
+    assert.deepEqual(excludeIPv4(['10.0.0.0/22'], ['10.0.1.0/24']).get('10.0.0.0/22'), ['10.0.0.0/24', '10.0.2.0/23']);
+    assert.deepEqual(excludeIPv4(['10.0.0.0/24'], ['10.0.0.0/32', '10.0.0.255/32']).get('10.0.0.0/24'), [
+      '10.0.0.1/32', '10.0.0.2/31', '10.0.0.4/30', '10.0.0.8/29', '10.0.0.16/28', '10.0.0.32/27', '10.0.0.64/26', '10.0.0.128/26',
+      '10.0.0.192/27', '10.0.0.224/28', '10.0.0.240/29', '10.0.0.248/30', '10.0.0.252/31', '10.0.0.254/32'
+    ]);
+  });
+
+  it('keeps prefixes without overlap and drops fully covered ones', () => {
+    const result = excludeIPv4(['10.0.0.0/24', '10.0.1.0/24', '10.0.2.0/24'], ['10.0.1.0/25', '10.0.1.128/25', '10.0.2.0/23']);
+
+    assert.deepEqual(result.get('10.0.0.0/24'), ['10.0.0.0/24']);
+    assert.deepEqual(result.get('10.0.1.0/24'), []);
+    assert.deepEqual(result.get('10.0.2.0/24'), []);
+  });
+});
+
+describe('excludeIPv6', () => {
+  it('splits a prefix around the excluded block', () => {
+    assert.deepEqual(excludeIPv6(['2001:db8::/32'], ['2001:db8::/34']).get('2001:db8::/32'), ['2001:db8:4000::/34', '2001:db8:8000::/33']);
+    assert.deepEqual(excludeIPv6(['2001:db8::/48'], ['2001:db8::/32']).get('2001:db8::/48'), []);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createConsumerTracker } from '../server/consumers.js';
+import { createTempDir } from './helpers.js';
+
+const temp = createTempDir('consumers');
+
+const createTracker = (options = {}) => createConsumerTracker({ filePath: temp.file(), ...options });
+
+const at = (minutes) => new Date(Date.UTC(2026, 0, 1, 0, minutes));
+
+describe('createConsumerTracker', () => {
+  it('groups requests by address and User-Agent', () => {
+    const tracker = createTracker();
+    tracker.record({ ip: '::ffff:192.0.2.1', userAgent: 'PAN-OS 10.2', path: '/ipv4.txt', route: '/ipv4.txt', status: 200, at: at(0) });
+    tracker.record({ ip: '192.0.2.1', userAgent: 'PAN-OS 10.2', path: '/ipv4.txt', route: '/ipv4.txt', status: 304, at: at(5) });
+    tracker.record({ ip: '192.0.2.1', userAgent: 'curl', path: '/ipv4.txt', route: '/ipv4.txt', status: 401, at: at(6) });
+
+    const [curl, firewall] = tracker.list(at(7).getTime());
+    assert.equal(firewall.ip, '192.0.2.1');
+    assert.equal(firewall.requests, 2);
+    assert.equal(firewall.pollIntervalSeconds, 300);
+    assert.equal(curl.failures, 1);
+    assert.equal(curl.lastPolled, null);
+    assert.equal(tracker.getRecent().length, 3);
+  });
+
+  it('counts requests per route template, not per path', () => {
+    const tracker = createTracker();
+    for (const country of ['US', 'DE', 'ZZ', 'XX']) {
+      tracker.record({ ip: '192.0.2.1', userAgent: 'scanner', path: `/edl/country/${country}.txt`, route: '/edl/country/:country.txt', status: 200, at: at(0) });
+    }
+    tracker.record({ ip: '192.0.2.1', userAgent: 'scanner', path: '/edl/anything', status: 401, at: at(1) });
+
+    const [consumer] = tracker.list(at(1).getTime());
+    assert.deepEqual(consumer.paths, { '/edl/country/:country.txt': 4, unmatched: 1 });
+    assert.equal(consumer.lastPath, '/edl/anything');
+  });
+
+  it('reports consumers as stale after the threshold or three of their poll intervals', () => {
+    const tracker = createTracker({ staleAfterMinutes: 60 });
+    const poll = (userAgent, minutes) => tracker.record({ ip: '192.0.2.1', userAgent, path: '/ipv4.txt', route: '/ipv4.txt', status: 200, at: at(minutes) });
+    poll('hourly', 0);
+    poll('hourly', 60);
+    poll('frequent', 50);
+    poll('frequent', 60);
+
+    const byAgent = (now) => Object.fromEntries(tracker.list(at(now).getTime()).map(consumer => [consumer.userAgent, consumer.stale]));
+    assert.deepEqual(byAgent(120), { hourly: false, frequent: false });
+    assert.deepEqual(byAgent(121), { hourly: false, frequent: true });
+    assert.deepEqual(byAgent(241), { hourly: true, frequent: true });
+  });
+
+  it('drops the least recently seen consumers above the limit', () => {
+    const tracker = createTracker({ maxConsumers: 2 });
+    ['a', 'b', 'c'].forEach((userAgent, minutes) =>
+      tracker.record({ ip: '192.0.2.1', userAgent, path: '/ipv4.txt', route: '/ipv4.txt', status: 200, at: at(minutes) })
+    );
+
+    assert.deepEqual(tracker.list(at(3).getTime()).map(consumer => consumer.userAgent).sort(), ['b', 'c']);
+  });
+
+  it('persists the table', () => {
+    const filePath = temp.file();
+    const tracker = createConsumerTracker({ filePath });
+    tracker.record({ ip: '192.0.2.1', userAgent: 'PAN-OS', path: '/ipv4.txt', route: '/ipv4.txt', status: 200, at: at(0) });
+    tracker.flush();
+
+    assert.equal(createConsumerTracker({ filePath }).list().length, 1);
+  });
+});
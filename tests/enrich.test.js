@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createEnrichStream, splitCsvLine } from '../server/enrich.js';
+import { createPrefixIndex } from '../server/lookup.js';
+
+const index = createPrefixIndex({ ipAddresses: ['98.97.12.0/24'], ipv6Addresses: ['2a0d:3344::/32'] });
+const geo = { '98.97.12.0/24': { country: 'DE', region: 'DE-BE', city: 'Berlin' } };
+
+// Same result shape as the lookup of the API
+const lookup = (ip) => {
+  const result = index.lookup(ip);
+  if (!result) {
+    return { ip, error: 'Not an IPv4 or IPv6 address' };
+  }
+  return { ip, match: Boolean(result.prefix), prefix: result.prefix, geo: geo[result.prefix] ?? null };
+};
+
+// Enrich `input`, fed in chunks of `chunkSize` bytes to cover lines split across chunks
+const enrich = async (input, options = {}, chunkSize = 7) => {
+  const bytes = Buffer.from(input);
+  const chunks = [];
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    chunks.push(bytes.subarray(offset, offset + chunkSize));
+  }
+
+  const stream = createEnrichStream({ lookup, ...options });
+  let output = '';
+  await pipeline(Readable.from(chunks), stream, async (source) => {
+    for await (const chunk of source) {
+      output += chunk;
+    }
+  });
+  return { output, stats: stream.stats };
+};
+
+describe('splitCsvLine', () => {
+  it('splits on the delimiter outside quotes', () => {
+    assert.deepEqual(splitCsvLine('a,"b,c","say ""hi""",'), ['a', 'b,c', 'say "hi"', '']);
+    assert.deepEqual(splitCsvLine('a;b', ';'), ['a', 'b']);
+    assert.deepEqual(splitCsvLine(''), ['']);
+  });
+});
+
+describe('createEnrichStream', () => {
+  it('tags the columns holding addresses in the first data row', async () => {
+    const { output, stats } = await enrich('time,src,dst\n1,98.97.12.34,10.0.0.1\n2,10.0.0.2,2a0d:3344::1\n');
+
+    assert.equal(output, [
+      'time,src,dst,src_starlink,src_starlink_prefix,src_starlink_location,dst_starlink,dst_starlink_prefix,dst_starlink_location',
+      '1,98.97.12.34,10.0.0.1,yes,98.97.12.0/24,"Berlin, DE-BE, DE",no,,',
+      '2,10.0.0.2,2a0d:3344::1,no,,,yes,2a0d:3344::/32,',
+      ''
+    ].join('\n'));
+    assert.deepEqual(stats, { lines: 3, addresses: 4, matched: 2 });
+  });
+
+  it('tags only the requested columns, matched case-insensitively', async () => {
+    const { output } = await enrich('Src;Dst\r\n98.97.12.1;98.97.12.2\r\n', { columns: ['dst'], delimiter: ';' });
+
+    assert.equal(output, 'Src;Dst;Dst_starlink;Dst_starlink_prefix;Dst_starlink_location\r\n98.97.12.1;98.97.12.2;yes;98.97.12.0/24;Berlin, DE-BE, DE\r\n');
+  });
+
+  it('rejects a column that is not in the header', async () => {
+    await assert.rejects(enrich('src,dst\n1,2\n', { columns: ['nope'] }), /Column "nope" is not in the CSV header/);
+  });
+
+  it('keeps blank lines after the header in place while the columns are not known yet', async () => {
+    const { output } = await enrich('src\r\n\r\n98.97.12.1\r\n');
+
+    assert.equal(output, 'src,src_starlink,src_starlink_prefix,src_starlink_location\r\n\r\n98.97.12.1,yes,98.97.12.0/24,"Berlin, DE-BE, DE"\r\n');
+  });
+
+  it('keeps quoted fields with line breaks in their record', async () => {
+    const { output, stats } = await enrich('note,src\r\n"first\r\nsecond",98.97.12.1\r\n"x",10.0.0.1\r\n');
+
+    assert.equal(output, [
+      'note,src,src_starlink,src_starlink_prefix,src_starlink_location',
+      '"first\r\nsecond",98.97.12.1,yes,98.97.12.0/24,"Berlin, DE-BE, DE"',
+      '"x",10.0.0.1,no,,',
+      ''
+    ].join('\r\n'));
+    assert.deepEqual(stats, { lines: 4, addresses: 2, matched: 1 });
+  });
+
+  it('rejects a quoted field that is never closed', async () => {
+    await assert.rejects(enrich('note,src\n1,98.97.12.1\n"open,98.97.12.2\nmore\n'), /The quoted field on line 3 is never closed/);
+  });
+
+  it('returns a CSV file without data rows unchanged', async () => {
+    assert.equal((await enrich('src,dst\n\n')).output, 'src,dst\n\n');
+    assert.equal((await enrich('src,dst')).output, 'src,dst');
+  });
+
+  it('appends the matches to plain-text lines', async () => {
+    const { output, stats } = await enrich('deny src=98.97.12.34:5555 dst=[2a0d:3344::1]:443\nallow src=10.0.0.1 user=a.b\nlast line without newline', { format: 'text' });
+
+    assert.equal(output, [
+      'deny src=98.97.12.34:5555 dst=[2a0d:3344::1]:443\tstarlink="98.97.12.34 in 98.97.12.0/24 (Berlin, DE-BE, DE); 2a0d:3344::1 in 2a0d:3344::/32"',
+      'allow src=10.0.0.1 user=a.b\tstarlink=no',
+      'last line without newline\tstarlink=no'
+    ].join('\n'));
+    assert.deepEqual(stats, { lines: 3, addresses: 3, matched: 2 });
+  });
+
+  it('decodes characters split across chunks', async () => {
+    const { output } = await enrich('café 98.97.12.1\n', { format: 'text' }, 4);
+
+    assert.equal(output, 'café 98.97.12.1\tstarlink="98.97.12.1 in 98.97.12.0/24 (Berlin, DE-BE, DE)"\n');
+  });
+
+  it('rejects lines longer than 1 MB', async () => {
+    await assert.rejects(enrich(`ok\n${'x'.repeat(1024 * 1024 + 1)}`, { format: 'text' }, 64 * 1024), /Line 2 is longer than/);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EXPORT_FORMATS, renderExport } from '../server/exports.js';
+
+const LISTS = { title: 'Starlink', ipv4: ['98.97.12.0/24', '129.222.0.0/16'], ipv6: ['2605:59c8::/32'] };
+const HEADER = 'Starlink: 2 IPv4 and 1 IPv6 prefixes, generated by Starlink IP EDL';
+
+const lines = (file, lists = LISTS) => {
+  const { body } = renderExport(file, lists);
+  assert.ok(body.endsWith('\n'));
+  return body.slice(0, -1).split('\n');
+};
+
+describe('renderExport', () => {
+  it('renders FortiOS address objects and groups per family', () => {
+    assert.deepEqual(lines('fortigate.conf'), [
+      `# ${HEADER}`,
+      'config firewall address',
+      '    edit "STARLINK-98.97.12.0_24"',
+      '        set subnet 98.97.12.0 255.255.255.0',
+      '    next',
+      '    edit "STARLINK-129.222.0.0_16"',
+      '        set subnet 129.222.0.0 255.255.0.0',
+      '    next',
+      'end',
+      'config firewall addrgrp',
+      '    edit "STARLINK"',
+      '        set member "STARLINK-98.97.12.0_24" "STARLINK-129.222.0.0_16"',
+      '    next',
+      'end',
+      'config firewall address6',
+      '    edit "STARLINK-2605-59c8--_32"',
+      '        set ip6 2605:59c8::/32',
+      '    next',
+      'end',
+      'config firewall addrgrp6',
+      '    edit "STARLINK-v6"',
+      '        set member "STARLINK-2605-59c8--_32"',
+      '    next',
+      'end'
+    ]);
+  });
+
+  it('leaves out the FortiOS sections of an empty family', () => {
+    const output = lines('fortigate.conf', { ...LISTS, ipv6: [] });
+
+    assert.ok(output.includes('config firewall addrgrp'));
+    assert.ok(!output.includes('config firewall address6'));
+    assert.ok(!output.includes('config firewall addrgrp6'));
+  });
+
+  it('renders nftables interval sets that are flushed before loading', () => {
+    assert.deepEqual(lines('nftables.nft'), [
+      '#!/usr/sbin/nft -f',
+      `# ${HEADER}`,
+      '',
+      'add table inet starlink',
+      'add set inet starlink starlink_ipv4 { type ipv4_addr; flags interval; auto-merge; }',
+      'flush set inet starlink starlink_ipv4',
+      'add element inet starlink starlink_ipv4 {',
+      '    98.97.12.0/24,',
+      '    129.222.0.0/16',
+      '}',
+      'add set inet starlink starlink_ipv6 { type ipv6_addr; flags interval; auto-merge; }',
+      'flush set inet starlink starlink_ipv6',
+      'add element inet starlink starlink_ipv6 {',
+      '    2605:59c8::/32',
+      '}'
+    ]);
+  });
+
+  it('keeps an empty nftables set without an element block', () => {
+    const output = lines('nftables.nft', { ...LISTS, ipv6: [] });
+
+    assert.ok(output.includes('flush set inet starlink starlink_ipv6'));
+    assert.ok(!output.includes('add element inet starlink starlink_ipv6 {'));
+  });
+
+  it('renders an ipset restore file without comments', () => {
+    assert.deepEqual(lines('ipset.txt'), [
+      'create starlink-v4 hash:net family inet -exist',
+      'flush starlink-v4',
+      'add starlink-v4 98.97.12.0/24',
+      'add starlink-v4 129.222.0.0/16',
+      'create starlink-v6 hash:net family inet6 -exist',
+      'flush starlink-v6',
+      'add starlink-v6 2605:59c8::/32'
+    ]);
+  });
+
+  it('renders a RouterOS script that replaces both address lists', () => {
+    assert.deepEqual(lines('mikrotik.rsc'), [
+      `# ${HEADER}`,
+      '/ip firewall address-list',
+      'remove [find list="starlink"]',
+      'add list="starlink" address=98.97.12.0/24 comment="Starlink"',
+      'add list="starlink" address=129.222.0.0/16 comment="Starlink"',
+      '/ipv6 firewall address-list',
+      'remove [find list="starlink"]',
+      'add list="starlink" address=2605:59c8::/32 comment="Starlink"'
+    ]);
+  });
+
+  it('renders a Cisco object group with netmasks for IPv4', () => {
+    assert.deepEqual(lines('cisco-object-group.txt'), [
+      `! ${HEADER}`,
+      'object-group network STARLINK',
+      ' description Starlink prefixes',
+      ' network-object 98.97.12.0 255.255.255.0',
+      ' network-object 129.222.0.0 255.255.0.0',
+      ' network-object 2605:59c8::/32'
+    ]);
+  });
+
+  it('renders a pf table with continued lines', () => {
+    assert.deepEqual(lines('pf.conf'), [
+      `# ${HEADER}`,
+      'table <starlink> persist { \\',
+      '    98.97.12.0/24, \\',
+      '    129.222.0.0/16, \\',
+      '    2605:59c8::/32 \\',
+      '}'
+    ]);
+  });
+
+  it('renders a Check Point feed with ids that only depend on the name', () => {
+    const { body, contentType } = renderExport('checkpoint.json', LISTS);
+    const feed = JSON.parse(body);
+    const ids = (lists) => JSON.parse(renderExport('checkpoint.json', lists).body).objects.map(({ id }) => id);
+
+    assert.equal(contentType, 'application/json');
+    assert.equal(feed.description, 'Starlink, generated by Starlink IP EDL');
+    assert.deepEqual(feed.objects.map(({ name, ranges }) => ({ name, ranges })), [
+      { name: 'Starlink IPv4', ranges: LISTS.ipv4 },
+      { name: 'Starlink IPv6', ranges: LISTS.ipv6 }
+    ]);
+    for (const { id } of feed.objects) {
+      assert.match(id, /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+    }
+    assert.notEqual(feed.objects[0].id, feed.objects[1].id);
+    assert.deepEqual(ids({ ...LISTS, ipv4: [] }), ids(LISTS));
+    assert.notEqual(ids({ ...LISTS, name: 'Other' })[0], ids(LISTS)[0]);
+  });
+
+  it('renders the same output for the same lists', () => {
+    for (const file of Object.keys(EXPORT_FORMATS)) {
+      assert.equal(renderExport(file, LISTS).body, renderExport(file, LISTS).body);
+    }
+  });
+
+  it('uses the given name instead of the default', () => {
+    assert.ok(lines('ipset.txt', { ...LISTS, name: 'sl_edge' }).includes('flush sl_edge-v4'));
+    assert.equal(lines('cisco-object-group.txt', { ...LISTS, name: 'SL_EDGE' })[1], 'object-group network SL_EDGE');
+  });
+
+  it('rejects an unknown format and an invalid name', () => {
+    assert.throws(() => renderExport('junos.conf', LISTS), /Unknown export format "junos.conf"/);
+    assert.throws(() => renderExport('pf.conf', { ...LISTS, name: '1starlink' }), /name must start with a letter/);
+    assert.throws(() => renderExport('pf.conf', { ...LISTS, name: 'star-link' }), /name must start with a letter/);
+    assert.throws(() => renderExport('pf.conf', { ...LISTS, name: 'S'.repeat(29) }), /up to 28 letters/);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { gunzipSync } from 'zlib';
+import express from 'express';
+import { createFeedResponder, feedVersion } from '../server/feeds.js';
+
+// Large enough to be compressed
+const prefixes = Array.from({ length: 200 }, (_, index) => `10.${Math.floor(index / 256)}.${index % 256}.0/24`);
+const body = prefixes.join('\n');
+const version = feedVersion(Buffer.from(body));
+const lastModified = '2026-01-01T12:00:00.000Z';
+
+describe('createFeedResponder', () => {
+  let server;
+  let port;
+
+  before(async () => {
+    const app = express();
+    const sendFeed = createFeedResponder();
+    const sendUncompressed = createFeedResponder({ compression: false });
+    app.get('/feed.txt', (req, res) => sendFeed(req, res, prefixes, { lastModified }));
+    app.get('/small.txt', (req, res) => sendFeed(req, res, ['192.0.2.0/24']));
+    app.get('/plain.txt', (req, res) => sendUncompressed(req, res, prefixes));
+
+    server = http.createServer(app);
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = server.address().port;
+  });
+
+  after(() => server.close());
+
+  // Raw request, so compressed bodies arrive as sent
+  const get = (path, headers = {}) => new Promise((resolve, reject) => {
+    http.get({ host: '127.0.0.1', port, path, headers }, (res) => {
+      const chunks = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode, headers: res.headers, body: Buffer.concat(chunks) }));
+    }).on('error', reject);
+  });
+
+  it('sends the list with a strong ETag and the feed headers', async () => {
+    const res = await get('/feed.txt');
+
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.etag, `"${version}"`);
+    assert.equal(res.headers['x-edl-count'], '200');
+    assert.equal(res.headers['x-edl-version'], version);
+    assert.equal(res.headers['last-modified'], 'Thu, 01 Jan 2026 12:00:00 GMT');
+    assert.equal(res.headers['content-encoding'], undefined);
+    assert.equal(res.body.toString(), body);
+  });
+
+  it('answers 304 without a body for a matching ETag', async () => {
+    const res = await get('/feed.txt', { 'If-None-Match': `"${version}"` });
+
+    assert.equal(res.status, 304);
+    assert.equal(res.body.length, 0);
+    assert.equal(res.headers.etag, `"${version}"`);
+  });
+
+  it('matches any tag in the list, weak tags and the ETag of a compressed body', async () => {
+    for (const ifNoneMatch of [`"other", "${version}"`, `W/"${version}"`, `"${version}-gzip"`]) {
+      assert.equal((await get('/feed.txt', { 'If-None-Match': ifNoneMatch })).status, 304, ifNoneMatch);
+    }
+  });
+
+  it('sends the list for an ETag that does not match', async () => {
+    const res = await get('/feed.txt', { 'If-None-Match': '"0123456789abcdef0123456789abcdef"' });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.toString(), body);
+  });
+
+  it('answers 304 for If-None-Match: *', async () => {
+    assert.equal((await get('/feed.txt', { 'If-None-Match': '*' })).status, 304);
+  });
+
+  it('uses If-Modified-Since only without If-None-Match', async () => {
+    assert.equal((await get('/feed.txt', { 'If-Modified-Since': 'Thu, 01 Jan 2026 12:00:00 GMT' })).status, 304);
+    assert.equal((await get('/feed.txt', { 'If-Modified-Since': 'Thu, 01 Jan 2026 11:59:59 GMT' })).status, 200);
+    assert.equal((await get('/feed.txt', {
+      'If-Modified-Since': 'Thu, 01 Jan 2026 12:00:00 GMT',
+      'If-None-Match': '"0123456789abcdef0123456789abcdef"'
+    })).status, 200);
+  });
+
+  it('sends gzip with its own ETag to clients that accept it', async () => {
+    const res = await get('/feed.txt', { 'Accept-Encoding': 'gzip' });
+
+    assert.equal(res.headers['content-encoding'], 'gzip');
+    assert.equal(res.headers.etag, `"${version}-gzip"`);
+    assert.match(res.headers.vary, /Accept-Encoding/);
+    assert.equal(gunzipSync(res.body).toString(), body);
+  });
+
+  it('prefers br on equal weight and honours q values', async () => {
+    assert.equal((await get('/feed.txt', { 'Accept-Encoding': 'gzip, br' })).headers['content-encoding'], 'br');
+    assert.equal((await get('/feed.txt', { 'Accept-Encoding': 'gzip;q=1, br;q=0.5' })).headers['content-encoding'], 'gzip');
+  });
+
+  it('sends identity when compression is refused, not worth it or disabled', async () => {
+    const refused = await get('/feed.txt', { 'Accept-Encoding': 'gzip;q=0, identity' });
+    assert.equal(refused.headers['content-encoding'], undefined);
+    assert.equal(refused.headers.etag, `"${version}"`);
+
+    assert.equal((await get('/feed.txt', { 'Accept-Encoding': '*;q=0' })).headers['content-encoding'], undefined);
+    assert.equal((await get('/small.txt', { 'Accept-Encoding': 'gzip' })).headers['content-encoding'], undefined);
+
+    const disabled = await get('/plain.txt', { 'Accept-Encoding': 'gzip' });
+    assert.equal(disabled.headers['content-encoding'], undefined);
+    assert.equal(disabled.headers.vary, undefined);
+    assert.equal(disabled.body.toString(), body);
+  });
+});
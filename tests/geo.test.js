@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseGeoColumns, parseGeoFilter, isEmptyGeoFilter, findUnknownCountries, filterPrefixesByGeo } from '../server/geo.js';
+
+const geo = {
+  '98.97.12.0/24': { country: 'DE', region: 'DE-BE', city: 'Berlin' },
+  '98.97.13.0/24': { country: 'US', region: 'US-WA', city: 'Seattle' },
+  '98.97.14.0/24': { country: 'US', region: 'US-CA', city: 'Los Angeles' }
+};
+const prefixes = [...Object.keys(geo), '98.97.15.0/24'];
+
+describe('parseGeoColumns', () => {
+  it('upper-cases the codes and keeps the city as published', () => {
+    assert.deepEqual(parseGeoColumns(['98.97.12.0/24', ' de ', 'de-be', ' Berlin ']), { country: 'DE', region: 'DE-BE', city: 'Berlin' });
+    assert.deepEqual(parseGeoColumns(['98.97.12.0/24']), { country: '', region: '', city: '' });
+  });
+});
+
+describe('parseGeoFilter', () => {
+  it('splits comma separated and repeated values', () => {
+    assert.deepEqual(parseGeoFilter({ country: ['de, fr', 'us'], region: 'us-wa', city: 'Seattle' }), {
+      countries: ['DE', 'FR', 'US'],
+      regions: ['US-WA'],
+      cities: ['seattle']
+    });
+    assert.ok(isEmptyGeoFilter(parseGeoFilter()));
+    assert.ok(isEmptyGeoFilter(parseGeoFilter({ country: ' , ' })));
+  });
+
+  it('rejects country codes that are not ISO 3166-1 alpha-2', () => {
+    for (const country of ['zz123', 'D', 'DEU', '1A', 'DE,F']) {
+      assert.throws(() => parseGeoFilter({ country }), /Invalid country code/, country);
+    }
+  });
+});
+
+describe('findUnknownCountries', () => {
+  it('lists the countries without geofeed entries', () => {
+    assert.deepEqual(findUnknownCountries(parseGeoFilter({ country: 'us,XX,de' }), geo), ['XX']);
+    assert.deepEqual(findUnknownCountries(parseGeoFilter({ country: 'US' }), undefined), ['US']);
+  });
+});
+
+describe('filterPrefixesByGeo', () => {
+  it('keeps every prefix without a filter', () => {
+    assert.deepEqual(filterPrefixesByGeo(prefixes, geo, parseGeoFilter()), prefixes);
+  });
+
+  it('requires every non-empty part of the filter to match', () => {
+    assert.deepEqual(filterPrefixesByGeo(prefixes, geo, parseGeoFilter({ country: 'US' })), ['98.97.13.0/24', '98.97.14.0/24']);
+    assert.deepEqual(filterPrefixesByGeo(prefixes, geo, parseGeoFilter({ country: 'US', city: 'seattle' })), ['98.97.13.0/24']);
+    assert.deepEqual(filterPrefixesByGeo(prefixes, geo, parseGeoFilter({ country: 'DE', city: 'Seattle' })), []);
+  });
+
+  it('matches regions by full code or subdivision', () => {
+    assert.deepEqual(filterPrefixesByGeo(prefixes, geo, parseGeoFilter({ region: 'US-CA' })), ['98.97.14.0/24']);
+    assert.deepEqual(filterPrefixesByGeo(prefixes, geo, parseGeoFilter({ region: 'wa' })), ['98.97.13.0/24']);
+  });
+
+  it('drops prefixes without geo attributes once filtered', () => {
+    assert.ok(!filterPrefixesByGeo(prefixes, geo, parseGeoFilter({ country: 'DE,US' })).includes('98.97.15.0/24'));
+  });
+});
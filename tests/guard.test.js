@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateUpdate } from '../server/guard.js';
+
+const prefixes = (count, base = 10) => Array.from({ length: count }, (_, index) => `${base}.0.${index}.0/24`);
+
+// An update of a published list of 100 IPv4 and 10 IPv6 prefixes
+const update = ({ removedIPv4 = 0, addedIPv4 = 0, removedIPv6 = 0, previousIPv6 = 10 } = {}) => ({
+  previous: {
+    ipAddresses: prefixes(100),
+    ipv6Addresses: Array.from({ length: previousIPv6 }, (_, index) => `2001:db8:${index}::/48`)
+  },
+  added: { ipv4: prefixes(addedIPv4, 11), ipv6: [] },
+  removed: { ipv4: prefixes(removedIPv4), ipv6: Array.from({ length: removedIPv6 }, (_, index) => `2001:db8:${index}::/48`) }
+});
+
+describe('evaluateUpdate', () => {
+  it('lets an update through at exactly the removal limit', () => {
+    assert.deepEqual(evaluateUpdate(update({ removedIPv4: 20 }), { maxRemovedPercent: 20 }), []);
+  });
+
+  it('holds an update just above the removal limit', () => {
+    assert.deepEqual(evaluateUpdate(update({ removedIPv4: 21 }), { maxRemovedPercent: 20 }), [
+      '21 of 100 IPv4 prefixes (21.0%) would be removed, limit is 20%'
+    ]);
+  });
+
+  it('checks each family against its own list', () => {
+    // 3 of 10 IPv6 prefixes is 30%, although it is a small share of all prefixes
+    assert.deepEqual(evaluateUpdate(update({ removedIPv6: 3 }), { maxRemovedPercent: 20 }), [
+      '3 of 10 IPv6 prefixes (30.0%) would be removed, limit is 20%'
+    ]);
+  });
+
+  it('skips a family that was empty before', () => {
+    assert.deepEqual(evaluateUpdate(update({ previousIPv6: 0 }), { maxRemovedPercent: 1 }), []);
+  });
+
+  it('counts additions and removals of both families as churn', () => {
+    const candidate = update({ removedIPv4: 2, addedIPv4: 2, removedIPv6: 1 });
+
+    assert.deepEqual(evaluateUpdate(candidate, { maxChurn: 5 }), []);
+    assert.deepEqual(evaluateUpdate(candidate, { maxChurn: 4 }), ['5 prefixes would be added or removed, limit is 4']);
+  });
+
+  it('reports every exceeded limit', () => {
+    assert.equal(evaluateUpdate(update({ removedIPv4: 50 }), { maxRemovedPercent: 10, maxChurn: 10 }).length, 2);
+  });
+
+  it('treats 0 as disabled', () => {
+    assert.deepEqual(evaluateUpdate(update({ removedIPv4: 100 }), { maxRemovedPercent: 0, maxChurn: 0 }), []);
+    assert.deepEqual(evaluateUpdate(update({ removedIPv4: 100 }), {}), []);
+  });
+
+  it('never holds the first publication', () => {
+    const first = {
+      previous: { ipAddresses: [], ipv6Addresses: [] },
+      added: { ipv4: prefixes(100), ipv6: [] },
+      removed: { ipv4: [], ipv6: [] }
+    };
+    assert.deepEqual(evaluateUpdate(first, { maxRemovedPercent: 1, maxChurn: 1 }), []);
+  });
+});
@@ -0,0 +1,24 @@
+import { after } from 'node:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// A temporary directory for the files of one test module, removed after its tests
+export const createTempDir = (name) => {
+  const dir = mkdtempSync(join(tmpdir(), `${name}-`));
+  let files = 0;
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  // The path of a new file in the directory, holding `content` as JSON if given
+  const file = (content) => {
+    files += 1;
+    const filePath = join(dir, `${files}.json`);
+    if (content !== undefined) {
+      writeFileSync(filePath, JSON.stringify(content));
+    }
+    return filePath;
+  };
+
+  return { dir, file };
+};
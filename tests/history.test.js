@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { createHistoryStore } from '../server/history.js';
+import { createTempDir } from './helpers.js';
+
+const temp = createTempDir('history');
+let stores = 0;
+
+// A store in a new directory, or in `dir` to read back what another store wrote
+const createStore = (options = {}, dir = null) => {
+  stores += 1;
+  return createHistoryStore({ dir: dir ?? join(temp.dir, `store-${stores}`), ...options });
+};
+
+const entry = (date, changes = {}) => ({
+  date,
+  ipAddresses: ['192.0.2.0/24'],
+  added: [],
+  removed: [],
+  ipv6Addresses: [],
+  addedIpv6: [],
+  removedIpv6: [],
+  ...changes
+});
+
+describe('lastChangeDate', () => {
+  it('returns the newest entry that added or removed prefixes', () => {
+    const store = createStore();
+    assert.equal(store.lastChangeDate(), null);
+
+    store.append(entry('2026-01-01T00:00:00.000Z', { added: ['192.0.2.0/24'] }));
+    store.append(entry('2026-01-02T00:00:00.000Z', { removedIpv6: ['2001:db8::/32'] }));
+    // An override event that left the lists as they were
+    store.append(entry('2026-01-03T00:00:00.000Z', { event: 'override', override: { action: 'include' } }));
+
+    assert.equal(store.lastChangeDate(), '2026-01-02T00:00:00.000Z');
+  });
+});
+
+describe('append', () => {
+  it('keeps entries recorded in the same millisecond apart', () => {
+    const dir = join(temp.dir, 'same-millisecond');
+    const store = createStore({}, dir);
+    const first = store.append(entry('2026-01-01T00:00:00.000Z', { added: ['192.0.2.0/24'] }));
+    const second = store.append(entry('2026-01-01T00:00:00.000Z', { removed: ['192.0.2.0/24'] }));
+
+    assert.notEqual(first.id, second.id);
+    assert.deepEqual(store.get(first.id).added, ['192.0.2.0/24']);
+    assert.deepEqual(store.get(second.id).removed, ['192.0.2.0/24']);
+    // Newest first, also when read back from disk
+    assert.deepEqual(store.list().entries.map(summary => summary.id), [second.id, first.id]);
+    assert.deepEqual(createStore({}, dir).list().entries.map(summary => summary.id), [second.id, first.id]);
+  });
+});
+
+describe('retention', () => {
+  const daysAgo = (days) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  it('keeps only the newest maxEntries entries', () => {
+    const store = createStore({ maxEntries: 2 });
+    ['2026-01-01', '2026-01-02', '2026-01-03'].forEach(day => store.append(entry(`${day}T00:00:00.000Z`)));
+
+    assert.deepEqual(store.list().entries.map(summary => summary.date), ['2026-01-03T00:00:00.000Z', '2026-01-02T00:00:00.000Z']);
+    assert.equal(store.get('2026-01-01T00-00-00-000Z'), null);
+  });
+
+  it('drops entries older than maxAgeDays but never the newest one', () => {
+    const store = createStore({ maxAgeDays: 30 });
+    store.append(entry(daysAgo(60)));
+    store.append(entry(daysAgo(40)));
+    assert.equal(store.count(), 1);
+
+    store.append(entry(daysAgo(1)));
+    assert.equal(store.count(), 1);
+    assert.equal(store.list().entries[0].date.slice(0, 10), daysAgo(1).slice(0, 10));
+  });
+
+  it('prunes right away when the limits change', () => {
+    const store = createStore();
+    ['2026-01-01', '2026-01-02', '2026-01-03'].forEach(day => store.append(entry(`${day}T00:00:00.000Z`)));
+
+    store.setRetention({ maxEntries: 1 });
+    assert.equal(store.count(), 1);
+  });
+});
+
+describe('reading entries back', () => {
+  it('reads entries with and without IPv6 fields', () => {
+    const dir = join(temp.dir, 'read-back');
+    const store = createStore({}, dir);
+    // Entries from before IPv6 support only have the IPv4 fields
+    store.append({ date: '2026-01-01T00:00:00.000Z', ipAddresses: ['192.0.2.0/24'], added: ['192.0.2.0/24'], removed: [] });
+    store.append(entry('2026-01-02T00:00:00.000Z', { ipv6Addresses: ['2001:db8::/32'], addedIpv6: ['2001:db8::/32'] }));
+
+    const [withIpv6, ipv4Only] = createStore({}, dir).list().entries;
+    assert.deepEqual(
+      { ipv4Count: withIpv6.ipv4Count, ipv6Count: withIpv6.ipv6Count, addedIpv6: withIpv6.addedIpv6 },
+      { ipv4Count: 1, ipv6Count: 1, addedIpv6: ['2001:db8::/32'] }
+    );
+    assert.deepEqual(
+      { ipv4Count: ipv4Only.ipv4Count, ipv6Count: ipv4Only.ipv6Count, addedIpv6: ipv4Only.addedIpv6, removedIpv6: ipv4Only.removedIpv6 },
+      { ipv4Count: 1, ipv6Count: 0, addedIpv6: [], removedIpv6: [] }
+    );
+  });
+
+  it('finds the entry current at a point in time and searches by prefix', () => {
+    const store = createStore();
+    store.append(entry('2026-01-01T00:00:00.000Z', { added: ['192.0.2.0/24'] }));
+    store.append(entry('2026-01-03T00:00:00.000Z', { addedIpv6: ['2001:db8::/32'] }));
+
+    assert.equal(store.findAt(Date.parse('2026-01-02T00:00:00.000Z')).date, '2026-01-01T00:00:00.000Z');
+    assert.equal(store.findAt(Date.parse('2025-12-31T00:00:00.000Z')), null);
+    assert.deepEqual(store.list({ prefix: '2001:db8::/32' }).entries.map(summary => summary.date), ['2026-01-03T00:00:00.000Z']);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { fetchWithRetry, isProxyBypassed } from '../server/http.js';
+
+describe('fetchWithRetry', () => {
+  let server;
+  let baseUrl;
+  const hits = {};
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      hits[req.url] = (hits[req.url] || 0) + 1;
+
+      if (req.url === '/stalled-body') {
+        // Headers and part of the body, then nothing
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.write('partial');
+      } else if (req.url === '/flaky' && hits[req.url] === 1) {
+        res.writeHead(503);
+        res.end('try again');
+      } else if (req.url === '/not-found') {
+        res.writeHead(404);
+        res.end('missing');
+      } else {
+        res.end('complete');
+      }
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('resolves with the response and its body', async () => {
+    const { response, body, attempts } = await fetchWithRetry(`${baseUrl}/ok`, { retries: 0 });
+
+    assert.equal(response.status, 200);
+    assert.equal(body, 'complete');
+    assert.equal(attempts, 1);
+  });
+
+  it('retries a server error and discards its body', async () => {
+    const { body, attempts } = await fetchWithRetry(`${baseUrl}/flaky`, { retries: 2, backoffMs: 1 });
+
+    assert.equal(body, 'complete');
+    assert.equal(attempts, 2);
+  });
+
+  it('does not retry a client error', async () => {
+    const { response, body, attempts } = await fetchWithRetry(`${baseUrl}/not-found`, { retries: 2, backoffMs: 1 });
+
+    assert.equal(response.status, 404);
+    assert.equal(body, 'missing');
+    assert.equal(attempts, 1);
+  });
+
+  it('times out when the body stalls after the headers', async () => {
+    const startedAt = Date.now();
+
+    await assert.rejects(
+      fetchWithRetry(`${baseUrl}/stalled-body`, { timeoutMs: 100, retries: 1, backoffMs: 1 }),
+      (error) => error.message === 'Timed out after 100ms (after 2 attempts)' && error.attempts === 2
+    );
+    assert.equal(hits['/stalled-body'], 2);
+    assert.ok(Date.now() - startedAt < 2000);
+  });
+});
+
+describe('isProxyBypassed', () => {
+  it('matches NO_PROXY hosts, domain suffixes and ports', () => {
+    const noProxy = 'localhost, .internal.example, example.com, 10.0.0.1:8080, [::1]';
+
+    assert.ok(isProxyBypassed(new URL('http://localhost/feed'), noProxy));
+    assert.ok(isProxyBypassed(new URL('https://api.internal.example'), noProxy));
+    assert.ok(isProxyBypassed(new URL('https://api.example.com'), noProxy));
+    assert.ok(isProxyBypassed(new URL('http://10.0.0.1:8080'), noProxy));
+    assert.ok(isProxyBypassed(new URL('http://[::1]:3000'), noProxy));
+    assert.ok(!isProxyBypassed(new URL('http://10.0.0.1'), noProxy));
+    assert.ok(!isProxyBypassed(new URL('https://notexample.com'), noProxy));
+    assert.ok(isProxyBypassed(new URL('https://anything'), '*'));
+    assert.ok(!isProxyBypassed(new URL('https://anything'), ''));
+  });
+});
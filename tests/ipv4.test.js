@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseIPv4, formatIPv4, prefixMask, validateIPv4Cidr, parseIPv4Cidr, cidrSize, sortIPv4Cidrs } from '../shared/ipv4.js';
+
+describe('parseIPv4', () => {
+  it('parses dotted quads into unsigned numbers', () => {
+    assert.equal(parseIPv4('0.0.0.0'), 0);
+    assert.equal(parseIPv4(' 98.97.12.34 '), 0x62610c22);
+    assert.equal(parseIPv4('255.255.255.255'), 0xffffffff);
+  });
+
+  it('rejects malformed addresses and leading zeros', () => {
+    for (const text of ['', '1.2.3', '1.2.3.4.5', '256.0.0.1', '1.2.3.-1', '1.2.3.4a', '01.2.3.4', '1..3.4', '::1']) {
+      assert.equal(parseIPv4(text), null, text);
+    }
+  });
+
+  it('round-trips through formatIPv4', () => {
+    for (const text of ['0.0.0.0', '10.0.0.1', '128.0.0.0', '255.255.255.255']) {
+      assert.equal(formatIPv4(parseIPv4(text)), text);
+    }
+  });
+});
+
+describe('prefixMask and cidrSize', () => {
+  it('covers /0 and /32', () => {
+    assert.equal(prefixMask(0), 0);
+    assert.equal(prefixMask(1), 0x80000000);
+    assert.equal(prefixMask(24), 0xffffff00);
+    assert.equal(prefixMask(32), 0xffffffff);
+    assert.equal(cidrSize(0), 2 ** 32);
+    assert.equal(cidrSize(32), 1);
+  });
+});
+
+describe('validateIPv4Cidr', () => {
+  it('normalizes host bits and flags them', () => {
+    assert.deepEqual(validateIPv4Cidr('10.0.0.5/24'), {
+      valid: true,
+      cidr: { network: 0x0a000000, prefixLength: 24, text: '10.0.0.0/24' },
+      hostBitsSet: true
+    });
+    assert.equal(validateIPv4Cidr('10.0.0.0/24').hostBitsSet, false);
+    assert.equal(validateIPv4Cidr('255.255.255.255/0').cidr.text, '0.0.0.0/0');
+    assert.equal(validateIPv4Cidr('255.255.255.255/32').cidr.network, 0xffffffff);
+  });
+
+  it('explains why a prefix is rejected', () => {
+    assert.equal(validateIPv4Cidr('10.0.0.0').reason, 'Missing prefix length');
+    assert.equal(validateIPv4Cidr('10.0.0.0/8/8').reason, 'More than one "/" in prefix');
+    assert.equal(validateIPv4Cidr('10.0.0.256/8').reason, 'Invalid IPv4 address "10.0.0.256"');
+    assert.equal(validateIPv4Cidr('10.0.0.0/33').reason, 'Invalid prefix length "/33" (allowed 0-32)');
+    assert.equal(validateIPv4Cidr('10.0.0.0/').reason, 'Invalid prefix length "/" (allowed 0-32)');
+    assert.equal(parseIPv4Cidr('10.0.0.0/x'), null);
+  });
+});
+
+describe('sortIPv4Cidrs', () => {
+  it('sorts numerically, then by prefix length, with invalid entries last', () => {
+    assert.deepEqual(
+      sortIPv4Cidrs(['100.64.0.0/10', 'bogus', '9.0.0.0/8', '10.0.0.0/16', '10.0.0.0/8', '2.0.0.0/8']),
+      ['2.0.0.0/8', '9.0.0.0/8', '10.0.0.0/8', '10.0.0.0/16', '100.64.0.0/10', 'bogus']
+    );
+  });
+
+  it('does not modify its input', () => {
+    const prefixes = ['10.0.0.0/8', '9.0.0.0/8'];
+    sortIPv4Cidrs(prefixes);
+    assert.deepEqual(prefixes, ['10.0.0.0/8', '9.0.0.0/8']);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseIPv6, formatIPv6, parseIPv6Cidr, canonicalizeIPv6Cidr, compareIPv6Cidrs } from '../shared/ipv6.js';
+
+describe('parseIPv6', () => {
+  it('parses full, compressed and IPv4-embedded addresses', () => {
+    assert.equal(parseIPv6('2001:db8:0:0:0:0:0:1'), 0x20010db8000000000000000000000001n);
+    assert.equal(parseIPv6('2001:DB8::1'), 0x20010db8000000000000000000000001n);
+    assert.equal(parseIPv6('::'), 0n);
+    assert.equal(parseIPv6('::1'), 1n);
+    assert.equal(parseIPv6('ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff'), (1n << 128n) - 1n);
+    assert.equal(parseIPv6('::ffff:192.0.2.1'), 0xffffc0000201n);
+    assert.equal(parseIPv6('0:0:0:0:0:ffff:192.0.2.1'), 0xffffc0000201n);
+  });
+
+  it('rejects malformed addresses', () => {
+    for (const text of ['', '1::2::3', '2001:db8::1:2:3:4:5:6', '1:2:3:4:5:6:7', '2001:db8::g', '12345::', '::ffff:192.0.2.256', '192.0.2.1::', '1.2.3.4']) {
+      assert.equal(parseIPv6(text), null, text);
+    }
+  });
+});
+
+describe('formatIPv6', () => {
+  it('follows RFC 5952', () => {
+    assert.equal(formatIPv6(parseIPv6('2001:0db8:0000:0000:0000:0000:0000:0001')), '2001:db8::1');
+    assert.equal(formatIPv6(0n), '::');
+    assert.equal(formatIPv6(1n), '::1');
+    // A single zero group is not compressed
+    assert.equal(formatIPv6(parseIPv6('2001:db8:0:1:1:1:1:1')), '2001:db8:0:1:1:1:1:1');
+    // The longest zero run wins, the first one on a tie
+    assert.equal(formatIPv6(parseIPv6('2001:0:0:1:0:0:0:1')), '2001:0:0:1::1');
+    assert.equal(formatIPv6(parseIPv6('2001:db8:0:0:1:0:0:1')), '2001:db8::1:0:0:1');
+  });
+});
+
+describe('parseIPv6Cidr', () => {
+  it('clears the host bits', () => {
+    assert.deepEqual(parseIPv6Cidr('2001:db8:ffff::1/32'), { network: 0x20010db8n << 96n, prefixLength: 32 });
+    assert.deepEqual(parseIPv6Cidr('::1/128'), { network: 1n, prefixLength: 128 });
+    assert.deepEqual(parseIPv6Cidr('2001:db8::1/0'), { network: 0n, prefixLength: 0 });
+  });
+
+  it('rejects invalid prefix lengths and addresses', () => {
+    for (const text of ['2001:db8::', '2001:db8::/129', '2001:db8::/-1', '2001:db8::/3a', '2001:db8::/32/1', 'zz::/32']) {
+      assert.equal(parseIPv6Cidr(text), null, text);
+    }
+  });
+});
+
+describe('canonicalizeIPv6Cidr', () => {
+  it('spells equivalent prefixes the same way', () => {
+    assert.equal(canonicalizeIPv6Cidr('2001:DB8:0::1/32'), '2001:db8::/32');
+    assert.equal(canonicalizeIPv6Cidr(' 2a0d:3344:0100:0000::/40 '), '2a0d:3344:100::/40');
+    assert.equal(canonicalizeIPv6Cidr('2001:db8::/200'), null);
+  });
+});
+
+describe('compareIPv6Cidrs', () => {
+  it('sorts numerically by network, then by prefix length', () => {
+    const sorted = ['2001:db8::/48', '2001:db8::/32', '2001:db8:1::/48', '::/0', '2a0d::/32', '2001:db9::/32']
+      .sort(compareIPv6Cidrs);
+
+    assert.deepEqual(sorted, ['::/0', '2001:db8::/32', '2001:db8::/48', '2001:db8:1::/48', '2001:db9::/32', '2a0d::/32']);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPrefixIndex } from '../server/lookup.js';
+
+const index = createPrefixIndex({
+  ipAddresses: ['98.97.0.0/16', '98.97.12.0/24', '98.97.12.128/25', '100.64.0.1/32', 'bogus'],
+  ipv6Addresses: ['2a0d:3344::/32', '2a0d:3344:100::/40']
+});
+
+describe('createPrefixIndex', () => {
+  it('returns the most specific IPv4 prefix containing the address', () => {
+    assert.deepEqual(index.lookup('98.97.12.200'), { family: 'ipv4', prefix: '98.97.12.128/25' });
+    assert.deepEqual(index.lookup('98.97.12.127'), { family: 'ipv4', prefix: '98.97.12.0/24' });
+    assert.deepEqual(index.lookup('98.97.13.1'), { family: 'ipv4', prefix: '98.97.0.0/16' });
+  });
+
+  it('matches the first and last address of a prefix, and nothing outside it', () => {
+    assert.equal(index.lookup('98.97.0.0').prefix, '98.97.0.0/16');
+    assert.equal(index.lookup('98.97.255.255').prefix, '98.97.0.0/16');
+    assert.equal(index.lookup('98.96.255.255').prefix, null);
+    assert.equal(index.lookup('98.98.0.0').prefix, null);
+  });
+
+  it('matches host routes exactly', () => {
+    assert.equal(index.lookup('100.64.0.1').prefix, '100.64.0.1/32');
+    assert.equal(index.lookup('100.64.0.0').prefix, null);
+    assert.equal(index.lookup('100.64.0.2').prefix, null);
+  });
+
+  it('looks up IPv6 addresses in any spelling', () => {
+    assert.deepEqual(index.lookup('2A0D:3344:0100:0000::1'), { family: 'ipv6', prefix: '2a0d:3344:100::/40' });
+    assert.equal(index.lookup('2a0d:3344:ff::1').prefix, '2a0d:3344::/32');
+    assert.equal(index.lookup('2a0d:3345::').prefix, null);
+  });
+
+  it('returns null for text that is not an address', () => {
+    for (const text of ['', 'bogus', '98.97.12', '98.97.12.0/24', '2a0d::g', '::ffff:1.2.3.256']) {
+      assert.equal(index.lookup(text), null, text);
+    }
+  });
+
+  it('matches everything with a default route', () => {
+    const all = createPrefixIndex({ ipAddresses: ['0.0.0.0/0'], ipv6Addresses: ['::/0'] });
+
+    assert.equal(all.lookup('255.255.255.255').prefix, '0.0.0.0/0');
+    assert.equal(all.lookup('::1').prefix, '::/0');
+  });
+
+  it('finds nothing in empty lists', () => {
+    assert.deepEqual(createPrefixIndex({}).lookup('98.97.12.1'), { family: 'ipv4', prefix: null });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createOverrideStore } from '../server/overrides.js';
+import { createTempDir } from './helpers.js';
+
+const temp = createTempDir('overrides');
+let filePath;
+let store;
+
+const add = (action, cidr, extra = {}) => store.add({ action, cidr, reason: 'Test', author: 'tests', ...extra });
+
+beforeEach(() => {
+  filePath = temp.file();
+  store = createOverrideStore({ filePath });
+});
+
+describe('add', () => {
+  it('stores the canonical prefix and its family', () => {
+    assert.equal(add('include', '10.0.0.5/24').cidr, '10.0.0.0/24');
+    assert.equal(add('exclude', '2001:DB8::/32').family, 'ipv6');
+  });
+
+  it('rejects invalid entries', () => {
+    assert.throws(() => add('allow', '10.0.0.0/24'), /action must be one of/);
+    assert.throws(() => add('include', '10.0.0.0/33'), /Invalid prefix length/);
+    assert.throws(() => add('include', '2001:db8::/129'), /Invalid IPv6 prefix/);
+    assert.throws(() => add('include', '10.0.0.0/24', { reason: ' ' }), /A reason is required/);
+    assert.throws(() => add('include', '10.0.0.0/24', { expiresAt: '2000-01-01' }), /in the future/);
+  });
+
+  it('allows one active entry per prefix', () => {
+    add('include', '10.0.0.0/24');
+    assert.throws(() => add('exclude', '10.0.0.0/24'), /already has an active include override/);
+  });
+
+  it('is persisted', () => {
+    const entry = add('include', '10.0.0.0/24');
+    assert.deepEqual(createOverrideStore({ filePath }).list().map(item => item.id), [entry.id]);
+  });
+});
+
+describe('apply', () => {
+  it('cuts excludes out of upstream prefixes and carries their geo over', () => {
+    add('exclude', '10.0.1.0/24');
+    const geo = { '10.0.0.0/22': { country: 'US', region: 'US-WA', city: 'Seattle' } };
+    const result = store.apply({ ipAddresses: ['10.0.0.0/22', '10.1.0.0/24'], geo });
+
+    assert.deepEqual(result.ipAddresses, ['10.0.0.0/24', '10.0.2.0/23', '10.1.0.0/24']);
+    assert.deepEqual(result.excluded, ['10.0.0.0/22']);
+    assert.deepEqual(result.geo['10.0.2.0/23'], geo['10.0.0.0/22']);
+  });
+
+  it('adds includes, which win over an overlapping exclude', () => {
+    add('exclude', '10.0.1.0/24');
+    add('include', '10.0.1.128/25');
+    add('include', '2001:db8::/48');
+    const result = store.apply({ ipAddresses: ['10.0.0.0/22'], ipv6Addresses: [] });
+
+    assert.ok(result.ipAddresses.includes('10.0.1.128/25'));
+    assert.deepEqual(result.ipv6Addresses, ['2001:db8::/48']);
+    assert.deepEqual(result.included, ['10.0.1.128/25', '2001:db8::/48']);
+  });
+
+  it('skips includes already covered by published prefixes', () => {
+    add('include', '10.0.1.0/24');
+    add('include', '10.0.4.0/24');
+    add('include', '2001:db8:1::/48');
+    // Covered by two upstream halves together
+    add('include', '10.2.0.0/23');
+    const result = store.apply({
+      ipAddresses: ['10.0.0.0/22', '10.2.0.0/24', '10.2.1.0/24'],
+      ipv6Addresses: ['2001:db8::/32']
+    });
+
+    assert.deepEqual(result.ipAddresses, ['10.0.0.0/22', '10.0.4.0/24', '10.2.0.0/24', '10.2.1.0/24']);
+    assert.deepEqual(result.ipv6Addresses, ['2001:db8::/32']);
+    assert.deepEqual(result.included, ['10.0.4.0/24']);
+  });
+
+  it('ignores expired entries', () => {
+    const entry = add('exclude', '10.0.0.0/24', { expiresAt: new Date(Date.now() + 60 * 1000).toISOString() });
+    const later = Date.now() + 2 * 60 * 1000;
+
+    assert.deepEqual(store.apply({ ipAddresses: ['10.0.0.0/24'] }, later).ipAddresses, ['10.0.0.0/24']);
+    assert.deepEqual(store.takeExpired(later).map(expired => expired.id), [entry.id]);
+    assert.deepEqual(store.takeExpired(later), []);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { objectName, loadPanosDevices, createPanosPusher } from '../server/panos.js';
+import { createTempDir } from './helpers.js';
+
+const temp = createTempDir('panos');
+
+describe('objectName', () => {
+  it('derives the name from the prefix', () => {
+    assert.equal(objectName('starlink-', '98.97.12.0/24'), 'starlink-98.97.12.0_24');
+    assert.equal(objectName('starlink-', '2605:59c8::/32'), 'starlink-2605-59c8--_32');
+  });
+
+  it('keeps names within 63 characters with a stable hash', () => {
+    const cidr = '2605:59c8:1234:5678:9abc:def0:1234:5600/120';
+    const name = objectName('a-much-longer-object-prefix-', cidr);
+
+    assert.equal(objectName('sl-', cidr), 'sl-2605-59c8-1234-5678-9abc-def0-1234-5600_120');
+    assert.equal(name.length, 63);
+    assert.match(name, /^a-much-longer-object-prefix-h-[0-9a-f]+$/);
+    assert.equal(objectName('a-much-longer-object-prefix-', cidr), name);
+    assert.notEqual(objectName('a-much-longer-object-prefix-', '2605:59c8:1234:5678:9abc:def0:1234:5700/120'), name);
+  });
+});
+
+describe('loadPanosDevices', () => {
+  it('rejects an invalid group member limit', () => {
+    const configPath = temp.file({ devices: [{ id: 'fw', url: 'https://fw.example', apiKey: 'key', maxGroupMembers: 0 }] });
+
+    assert.throws(() => loadPanosDevices(configPath), /maxGroupMembers must be a positive whole number/);
+  });
+});
+
+describe('createPanosPusher', () => {
+  it('fails a push above the group member limit before calling the device', async () => {
+    const devices = loadPanosDevices(temp.file({
+      // Nothing listens there, any API call would fail with a different error
+      devices: [{ id: 'fw', url: 'https://127.0.0.1:9', apiKey: 'key', addressGroup: 'Starlink', maxGroupMembers: 2 }]
+    }));
+    const pusher = createPanosPusher({
+      devices,
+      getPrefixes: () => ({ ipv4: ['192.0.2.0/24', '198.51.100.0/24', '203.0.113.0/24'], ipv6: [] }),
+      logFilePath: temp.file()
+    });
+
+    const [push] = await pusher.push();
+
+    assert.equal(push.success, false);
+    assert.equal(push.error, '3 prefixes exceed the limit of 2 members of address group Starlink');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadFeeds, buildFeedPrefixes } from '../server/pipelines.js';
+import { createTempDir } from './helpers.js';
+
+const temp = createTempDir('pipelines');
+
+const sourceIds = ['starlink', 'partner'];
+
+// A feed as loadFeeds returns it
+const feedOf = (feed) => loadFeeds(temp.file({ feeds: [{ name: 'test', ...feed }] }), sourceIds)[0];
+
+const geo = {
+  '98.97.0.0/24': { country: 'US', region: 'US-WA', city: 'Seattle' },
+  '98.97.1.0/24': { country: 'US', region: 'US-WA', city: 'Seattle' },
+  '98.97.8.0/22': { country: 'US', region: 'US-CA', city: 'Los Angeles' },
+  '100.64.0.0/24': { country: 'DE', region: 'DE-BE', city: 'Berlin' }
+};
+
+const inputs = [
+  { prefixes: ['98.97.8.0/22', '98.97.1.0/24', '98.97.0.0/24'], geo },
+  { prefixes: ['100.64.0.0/24', '98.97.0.0/24', '192.0.2.0/24'], geo: {} }
+];
+
+describe('loadFeeds', () => {
+  it('fills in the defaults', () => {
+    const feed = feedOf({});
+
+    assert.equal(feed.family, 'ipv4');
+    assert.deepEqual(feed.sources, ['starlink']);
+    assert.deepEqual(feed.prefixLength, { min: 0, max: 32 });
+    assert.equal(feed.aggregate, false);
+    assert.equal(feed.overrides, true);
+  });
+
+  it('rejects invalid feeds', () => {
+    assert.throws(() => feedOf({ name: 'Not Valid' }), /name must be lower-case letters/);
+    assert.throws(() => feedOf({ sources: ['unknown'] }), /unknown source "unknown"/);
+    assert.throws(() => feedOf({ family: 'ipv5' }), /family must be one of ipv4, ipv6/);
+    assert.throws(() => feedOf({ family: 'ipv6', prefixLength: { max: 129 } }), /prefixLength.max must be a whole number from 0 to 128/);
+    assert.throws(() => feedOf({ prefixLength: { min: 24, max: 16 } }), /prefixLength.min must not be greater/);
+    assert.throws(() => feedOf({ include: { country: 'USA' } }), /include: Invalid country code "USA"/);
+    assert.throws(() => feedOf({ aggregate: 'yes' }), /aggregate must be true or false/);
+    assert.throws(
+      () => loadFeeds(temp.file({ feeds: [{ name: 'twice' }, { name: 'twice' }] }), sourceIds),
+      /Duplicate feed name "twice"/
+    );
+  });
+
+  it('returns no feeds without a config file', () => {
+    assert.deepEqual(loadFeeds(temp.file(), sourceIds), []);
+  });
+});
+
+describe('buildFeedPrefixes', () => {
+  it('merges the sources into one sorted list without duplicates', () => {
+    assert.deepEqual(buildFeedPrefixes(feedOf({ sources: sourceIds }), inputs), [
+      '98.97.0.0/24', '98.97.1.0/24', '98.97.8.0/22', '100.64.0.0/24', '192.0.2.0/24'
+    ]);
+  });
+
+  it('includes by geo, never matching prefixes without geo attributes', () => {
+    assert.deepEqual(buildFeedPrefixes(feedOf({ include: { country: 'us' } }), inputs), [
+      '98.97.0.0/24', '98.97.1.0/24', '98.97.8.0/22'
+    ]);
+  });
+
+  it('excludes after including', () => {
+    assert.deepEqual(buildFeedPrefixes(feedOf({ include: { country: 'US' }, exclude: { region: 'CA' } }), inputs), [
+      '98.97.0.0/24', '98.97.1.0/24'
+    ]);
+    // Prefixes without geo attributes stay when only an exclude is set
+    assert.deepEqual(buildFeedPrefixes(feedOf({ exclude: { city: 'seattle' } }), inputs), [
+      '98.97.8.0/22', '100.64.0.0/24', '192.0.2.0/24'
+    ]);
+  });
+
+  it('keeps the prefix length range', () => {
+    assert.deepEqual(buildFeedPrefixes(feedOf({ prefixLength: { min: 23 } }), inputs), [
+      '98.97.0.0/24', '98.97.1.0/24', '100.64.0.0/24', '192.0.2.0/24'
+    ]);
+  });
+
+  it('aggregates last, below the minimum prefix length', () => {
+    assert.deepEqual(buildFeedPrefixes(feedOf({ include: { region: 'WA' }, prefixLength: { min: 24 }, aggregate: true }), inputs), [
+      '98.97.0.0/23'
+    ]);
+  });
+
+  it('builds IPv6 feeds', () => {
+    const feed = feedOf({ family: 'ipv6', prefixLength: { max: 48 }, aggregate: true });
+
+    assert.deepEqual(buildFeedPrefixes(feed, [{ prefixes: ['2001:db8:1::/48', '2001:db8::/48', '2001:db8:2::/64'], geo: {} }]), [
+      '2001:db8::/47'
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCron, nextCronDate, previousCronDate, createScheduler } from '../server/scheduler.js';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('parseCron', () => {
+  it('expands wildcards, ranges, steps and lists', () => {
+    const cron = parseCron('*/15 9-11 1,15 * 1-5');
+
+    assert.deepEqual([...cron.minutes], [0, 15, 30, 45]);
+    assert.deepEqual([...cron.hours], [9, 10, 11]);
+    assert.deepEqual([...cron.daysOfMonth], [1, 15]);
+    assert.equal(cron.months.size, 12);
+    assert.deepEqual([...cron.daysOfWeek], [1, 2, 3, 4, 5]);
+  });
+
+  it('runs a stepped single value up to the end of the field', () => {
+    assert.deepEqual([...parseCron('50/5 * * * *').minutes], [50, 55]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    assert.ok(parseCron('0 0 * * 7').daysOfWeek.has(0));
+  });
+
+  it('rejects values outside the field and malformed expressions', () => {
+    assert.throws(() => parseCron('60 * * * *'), /minute field/);
+    assert.throws(() => parseCron('0 24 * * *'), /hour field/);
+    assert.throws(() => parseCron('0 0 0 * *'), /day of month field/);
+    assert.throws(() => parseCron('0 0 * 13 *'), /month field/);
+    assert.throws(() => parseCron('5-1 * * * *'), /minute field/);
+    assert.throws(() => parseCron('*/0 * * * *'), /Invalid step/);
+    assert.throws(() => parseCron('0 0 * *'), /5 fields, got 4/);
+  });
+});
+
+describe('nextCronDate', () => {
+  it('returns the next matching minute strictly after the start', () => {
+    const cron = parseCron('*/15 * * * *');
+
+    assert.deepEqual(nextCronDate(cron, new Date(2026, 0, 1, 10, 7, 30)), new Date(2026, 0, 1, 10, 15));
+    assert.deepEqual(nextCronDate(cron, new Date(2026, 0, 1, 10, 15)), new Date(2026, 0, 1, 10, 30));
+    assert.deepEqual(nextCronDate(cron, new Date(2026, 0, 1, 23, 50)), new Date(2026, 0, 2, 0, 0));
+  });
+
+  it('rolls over into the next month and year', () => {
+    assert.deepEqual(nextCronDate(parseCron('0 3 1 * *'), new Date(2026, 0, 31, 12)), new Date(2026, 1, 1, 3));
+    assert.deepEqual(nextCronDate(parseCron('30 6 * 1 *'), new Date(2026, 11, 31, 23, 59)), new Date(2027, 0, 1, 6, 30));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th or any Friday; 2026-03-06 is a Friday, before the 13th
+    const cron = parseCron('0 0 13 * 5');
+
+    assert.deepEqual(nextCronDate(cron, new Date(2026, 2, 1)), new Date(2026, 2, 6));
+    assert.deepEqual(nextCronDate(cron, new Date(2026, 2, 12, 1)), new Date(2026, 2, 13));
+  });
+
+  it('finds February 29th in a later year', () => {
+    assert.deepEqual(nextCronDate(parseCron('0 0 29 2 *'), new Date(2026, 2, 1)), new Date(2028, 1, 29));
+  });
+
+  it('returns null for a date that never exists', () => {
+    assert.equal(nextCronDate(parseCron('0 0 31 2 *'), new Date(2026, 0, 1)), null);
+  });
+});
+
+describe('previousCronDate', () => {
+  it('returns the last matching minute at or before the start', () => {
+    const cron = parseCron('*/15 * * * *');
+
+    assert.deepEqual(previousCronDate(cron, new Date(2026, 0, 1, 10, 7, 30)), new Date(2026, 0, 1, 10, 0));
+    assert.deepEqual(previousCronDate(cron, new Date(2026, 0, 1, 10, 15, 30)), new Date(2026, 0, 1, 10, 15));
+    assert.deepEqual(previousCronDate(cron, new Date(2026, 0, 2, 0, 5)), new Date(2026, 0, 2, 0, 0));
+  });
+
+  it('rolls back into the previous month and year', () => {
+    assert.deepEqual(previousCronDate(parseCron('0 3 1 * *'), new Date(2026, 1, 1, 2)), new Date(2026, 0, 1, 3));
+    assert.deepEqual(previousCronDate(parseCron('30 6 * 12 *'), new Date(2026, 0, 15)), new Date(2025, 11, 31, 6, 30));
+  });
+
+  it('skips the weekend for a weekday schedule', () => {
+    // 2026-03-08 is a Sunday, the last run was on Friday
+    assert.deepEqual(previousCronDate(parseCron('0 7 * * 1-5'), new Date(2026, 2, 8, 12)), new Date(2026, 2, 6, 7));
+  });
+
+  it('returns null for a date that never exists', () => {
+    assert.equal(previousCronDate(parseCron('0 0 31 2 *'), new Date(2026, 0, 1)), null);
+  });
+});
+
+describe('createScheduler', () => {
+  it('rejects a schedule without an interval or cron expression', () => {
+    assert.throws(() => createScheduler({ task: async () => {} }), /interval in minutes or a cron expression/);
+  });
+
+  it('returns the in-flight run instead of starting another', async () => {
+    let runs = 0;
+    let release;
+    const scheduler = createScheduler({ intervalMinutes: 60, task: () => new Promise(resolve => { runs++; release = resolve; }) });
+
+    const first = scheduler.runNow();
+    const second = scheduler.runNow();
+    assert.equal(first, second);
+
+    release('done');
+    assert.equal(await first, 'done');
+    assert.equal(runs, 1);
+    assert.equal(scheduler.getStatus().lastRun.success, true);
+  });
+
+  it('applies a new schedule changed during a run once the run finishes', async () => {
+    let release;
+    const scheduler = createScheduler({ intervalMinutes: 60, task: () => new Promise(resolve => { release = resolve; }) });
+    scheduler.start();
+
+    const run = scheduler.runNow();
+    scheduler.configure({ intervalMinutes: 1 });
+    // The timer of the old interval must not stay armed
+    assert.equal(scheduler.getStatus().nextRunAt, null);
+
+    release();
+    await run;
+    const delayMs = new Date(scheduler.getStatus().nextRunAt).getTime() - Date.now();
+    scheduler.stop();
+
+    assert.ok(delayMs > 0 && delayMs <= MINUTE_MS, `next run in ${delayMs}ms`);
+  });
+
+  it('reschedules right away when idle and stops scheduling once disabled', () => {
+    const scheduler = createScheduler({ intervalMinutes: 60, task: async () => {} });
+    scheduler.start();
+
+    scheduler.configure({ cron: '*/5 * * * *' });
+    assert.equal(scheduler.getStatus().mode, 'cron');
+    assert.equal(new Date(scheduler.getStatus().nextRunAt).getMinutes() % 5, 0);
+
+    scheduler.configure({ enabled: false });
+    assert.equal(scheduler.getStatus().nextRunAt, null);
+    scheduler.stop();
+  });
+
+  it('reports the time between the scheduled runs around a date', () => {
+    assert.equal(createScheduler({ intervalMinutes: 90, task: async () => {} }).periodMinutes(), 90);
+
+    const weekdays = createScheduler({ cron: '0 7 * * 1-5', task: async () => {} });
+    // Friday 07:00 to Monday 07:00 over the weekend, Monday to Tuesday during the week
+    assert.equal(weekdays.periodMinutes(new Date(2026, 4, 10, 12)), 3 * 24 * 60);
+    assert.equal(weekdays.periodMinutes(new Date(2026, 4, 11, 12)), 24 * 60);
+  });
+});
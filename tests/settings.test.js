@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { changedGroups, createSettingsStore } from '../server/settings.js';
+import { createTempDir } from './helpers.js';
+
+const temp = createTempDir('settings');
+
+const settings = {
+  refresh: { enabled: true, intervalMinutes: 60, cron: null, jitterSeconds: 0 },
+  history: { maxEntries: 100, maxAgeDays: 30 },
+  upstream: { url: null },
+  safety: { maxRemovedPercent: 20, maxChurn: 0 }
+};
+
+const withValue = (group, key, value) => ({ ...settings, [group]: { ...settings[group], [key]: value } });
+
+describe('changedGroups', () => {
+  it('lists only the groups with a different value', () => {
+    assert.deepEqual(changedGroups(withValue('safety', 'maxChurn', 7), settings), ['safety']);
+    assert.deepEqual(changedGroups(withValue('refresh', 'cron', '0 * * * *'), settings), ['refresh']);
+  });
+
+  it('lists nothing when an update saves the current values again', () => {
+    assert.deepEqual(changedGroups(structuredClone(settings), settings), []);
+  });
+});
+
+describe('createSettingsStore', () => {
+  const createStore = (saved, onChange) => {
+    const filePath = temp.file(saved);
+    return { filePath, store: createSettingsStore({ filePath, defaults: settings, onChange }) };
+  };
+
+  it('merges a partial update into the current settings', () => {
+    const { store } = createStore();
+    store.update({ refresh: { intervalMinutes: 30 } });
+    const { settings: updated } = store.update({ safety: { maxChurn: 7 } });
+
+    assert.deepEqual(updated.refresh, { ...settings.refresh, intervalMinutes: 30 });
+    assert.deepEqual(updated.safety, { maxRemovedPercent: 20, maxChurn: 7 });
+    assert.deepEqual(updated.history, settings.history);
+  });
+
+  it('saves only the values that differ from the defaults', () => {
+    const { store, filePath } = createStore();
+    store.update({ refresh: { intervalMinutes: 30, enabled: true } });
+
+    assert.deepEqual(JSON.parse(readFileSync(filePath, 'utf-8')), { refresh: { intervalMinutes: 30 } });
+    assert.deepEqual(store.describe().overridden, ['refresh.intervalMinutes']);
+  });
+
+  it('rejects invalid values and leaves every setting unchanged', () => {
+    let changes = 0;
+    const { store } = createStore(undefined, () => { changes += 1; });
+
+    assert.throws(
+      () => store.update({
+        refresh: { intervalMinutes: 0, jitterSeconds: 1.5, enabled: 'yes', cron: '* * *' },
+        safety: { maxChurn: 5 }
+      }),
+      (error) => {
+        assert.deepEqual(error.details.map(detail => detail.field), ['refresh.intervalMinutes', 'refresh.jitterSeconds', 'refresh.enabled', 'refresh.cron']);
+        assert.match(error.message, /refresh.intervalMinutes must be at least 1/);
+        return true;
+      }
+    );
+    assert.throws(() => store.update({ upstream: { url: 'ftp://example.com/feed.csv' } }), /upstream.url must be an http or https URL/);
+    assert.throws(() => store.update({ history: { maxEntries: null } }), /history.maxEntries must not be empty/);
+    assert.throws(() => store.update({ unknown: {}, safety: { other: 1 } }), /unknown is not a known settings group; safety.other is not a known setting/);
+    assert.throws(() => store.update([]), /settings must be an object/);
+
+    assert.deepEqual(store.get(), settings);
+    assert.equal(changes, 0);
+  });
+
+  it('passes the new and the previous settings to onChange', () => {
+    const calls = [];
+    const { store } = createStore(undefined, (current, previous) => calls.push({ current, previous }));
+    store.update({ upstream: { url: 'https://example.com/feed.csv' } });
+
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].current.upstream.url, 'https://example.com/feed.csv');
+    assert.equal(calls[0].previous.upstream.url, null);
+  });
+
+  it('loads saved values and refuses an invalid settings file', () => {
+    assert.equal(createStore({ history: { maxAgeDays: 7 } }).store.get().history.maxAgeDays, 7);
+    assert.throws(() => createStore({ safety: { maxRemovedPercent: 120 } }), /Invalid settings in .*safety.maxRemovedPercent must be at most 100/);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { createHmac } from 'crypto';
+import { createWebhookNotifier } from '../server/webhooks.js';
+import { createTempDir } from './helpers.js';
+
+const temp = createTempDir('webhooks');
+
+const SOURCE = { id: 'starlink', name: 'Starlink' };
+
+const webhook = (id, url, secret = null) => ({
+  id,
+  url,
+  format: 'json',
+  events: ['change', 'failure', 'held'],
+  sources: [],
+  secret,
+  retries: 0
+});
+
+describe('createWebhookNotifier', () => {
+  let server;
+  let baseUrl;
+  const received = [];
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      const chunks = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ url: req.url, headers: req.headers, body: Buffer.concat(chunks).toString('utf-8') });
+        res.end('ok');
+      });
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('signs the delivered body with the webhook secret', async () => {
+    const notifier = createWebhookNotifier({
+      webhooks: [webhook('signed', `${baseUrl}/signed`, 's3cret')],
+      logFilePath: temp.file()
+    });
+
+    const [delivery] = await notifier.notify('failure', SOURCE, { error: 'HTTP 503', attempts: 3 });
+    const { headers, body } = received.find(request => request.url === '/signed');
+
+    assert.equal(delivery.success, true);
+    assert.equal(headers['x-edl-signature-256'], `sha256=${createHmac('sha256', 's3cret').update(body).digest('hex')}`);
+    assert.notEqual(headers['x-edl-signature-256'], `sha256=${createHmac('sha256', 'other').update(body).digest('hex')}`);
+    assert.equal(headers['x-edl-event'], 'failure');
+    assert.equal(headers['x-edl-delivery'], delivery.id);
+    assert.deepEqual(JSON.parse(body), {
+      event: 'failure',
+      id: delivery.id,
+      timestamp: delivery.date,
+      source: SOURCE,
+      error: 'HTTP 503',
+      attempts: 3
+    });
+  });
+
+  it('leaves out the signature without a secret', async () => {
+    const notifier = createWebhookNotifier({
+      webhooks: [webhook('unsigned', `${baseUrl}/unsigned`)],
+      logFilePath: temp.file()
+    });
+
+    await notifier.notify('failure', SOURCE, { error: 'HTTP 503' });
+    const { headers } = received.find(request => request.url === '/unsigned');
+
+    assert.equal(headers['x-edl-signature-256'], undefined);
+    assert.deepEqual(notifier.describe().map(({ signed }) => signed), [false]);
+  });
+});
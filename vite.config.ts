@@ -19,11 +19,61 @@ export default defineConfig({
         changeOrigin: true,
         secure: false
       },
-      // Proxy the ipv4.txt file to the Express server
+      // Proxy the ipv4.txt and ipv6.txt files to the Express server
       '/ipv4.txt': {
         target: 'http://localhost:3000',
         changeOrigin: true,
         secure: false
+      },
+      '/ipv6.txt': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+        secure: false
+      },
+      '/ipv4-aggregated.txt': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+        secure: false
+      },
+      '/ipv6-aggregated.txt': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+        secure: false
+      },
+      // Proxy the geo-filtered EDL feeds
+      '/edl': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+        secure: false
+      },
+      // Proxy the per-source and merged feeds
+      '/sources': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+        secure: false
+      },
+      '/merged': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+        secure: false
+      },
+      // Proxy the named feeds
+      '/feeds': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+        secure: false
+      },
+      // Proxy the vendor exports
+      '/export': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+        secure: false
+      },
+      // Proxy the Prometheus metrics
+      '/metrics': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+        secure: false
       }
     }
   }